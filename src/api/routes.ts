@@ -2,6 +2,8 @@ import {requireAuth, optionalAuth, getAuthInfo} from "./auth-helpers"
 import {transcriptsRoutes} from "./transcripts"
 import {settingsRoutes} from "./settings"
 import {transcriptStreamRoute} from "./transcripts-stream"
+import {sessionsRoutes} from "./sessions"
+import {speakersRoutes} from "./speakers"
 
 /**
  * API Routes for Captions App
@@ -36,6 +38,8 @@ export const routes = {
   ...transcriptsRoutes,
   ...settingsRoutes,
   ...transcriptStreamRoute,
+  ...sessionsRoutes,
+  ...speakersRoutes,
 
   // Auth info endpoint - uses manual check pattern
   "/api/me": {
@@ -0,0 +1,84 @@
+import {afterEach, beforeEach, describe, expect, test} from "bun:test"
+
+import {sessionsRoutes} from "./sessions"
+import {MemoryTranscriptStore, setTranscriptStore} from "../app/storage"
+
+const USER_ID = "user@example.com"
+
+function get(route: keyof typeof sessionsRoutes, path: string, userId: string | null = USER_ID): Promise<Response> {
+  const headers: Record<string, string> = userId ? {"x-auth-user-id": userId} : {}
+  return sessionsRoutes[route](new Request(`http://localhost${path}`, {headers}))
+}
+
+describe("sessionsRoutes", () => {
+  let store: MemoryTranscriptStore
+
+  beforeEach(async () => {
+    store = new MemoryTranscriptStore()
+    setTranscriptStore(store)
+
+    await store.createConversation(USER_ID, {id: "c1", startedAt: 1000, language: "en"})
+    await store.createConversation(USER_ID, {id: "c2", startedAt: 2000, language: "fr"})
+    await store.createConversation("other@example.com", {id: "c3", startedAt: 3000, language: "en"})
+    await store.appendTranscript(USER_ID, {
+      id: "t1",
+      conversationId: "c1",
+      utteranceId: "t1",
+      speakerId: "1",
+      speaker: "Speaker 1",
+      text: "Hello",
+      startedAt: null,
+      endedAt: null,
+      receivedAt: 1500,
+    })
+  })
+
+  afterEach(() => {
+    setTranscriptStore(null)
+  })
+
+  describe("/api/sessions", () => {
+    test("should list the user's conversations newest first", async () => {
+      const response = await get("/api/sessions", "/api/sessions")
+      const {sessions} = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(sessions.map((s: {id: string}) => s.id)).toEqual(["c2", "c1"])
+      expect(sessions[1]).toMatchObject({transcriptCount: 1, active: false})
+    })
+
+    test("should page with limit and before", async () => {
+      const limited = await (await get("/api/sessions", "/api/sessions?limit=1")).json()
+      expect(limited.sessions.map((s: {id: string}) => s.id)).toEqual(["c2"])
+
+      const older = await (await get("/api/sessions", "/api/sessions?before=2000")).json()
+      expect(older.sessions.map((s: {id: string}) => s.id)).toEqual(["c1"])
+    })
+
+    test("should reject a before that isn't epoch ms", async () => {
+      const response = await get("/api/sessions", "/api/sessions?before=abc")
+      expect(response.status).toBe(400)
+    })
+
+    test("should require authentication", async () => {
+      const response = await get("/api/sessions", "/api/sessions", null)
+      expect(response.status).toBe(401)
+    })
+  })
+
+  describe("/api/sessions/:id/transcripts", () => {
+    test("should return the conversation and its transcripts", async () => {
+      const response = await get("/api/sessions/:id/transcripts", "/api/sessions/c1/transcripts")
+      const body = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(body.session).toMatchObject({id: "c1", language: "en"})
+      expect(body.transcripts.map((t: {text: string}) => t.text)).toEqual(["Hello"])
+    })
+
+    test("should not find another user's or an unknown conversation", async () => {
+      expect((await get("/api/sessions/:id/transcripts", "/api/sessions/c3/transcripts")).status).toBe(404)
+      expect((await get("/api/sessions/:id/transcripts", "/api/sessions/nope/transcripts")).status).toBe(404)
+    })
+  })
+})
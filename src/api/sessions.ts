@@ -0,0 +1,50 @@
+import {requireAuth} from "./auth-helpers"
+import {UserSession} from "../app/session/UserSession"
+import {getTranscriptStore} from "../app/storage"
+
+/**
+ * Conversation history routes
+ *
+ * These read from the transcript archive, so they work without an active
+ * glasses session.
+ */
+export const sessionsRoutes = {
+  "/api/sessions": requireAuth(async (req, userId) => {
+    const url = new URL(req.url)
+    const limit = parseInt(url.searchParams.get("limit") || "50", 10)
+    const before = url.searchParams.get("before")
+
+    if (before && !/^\d+$/.test(before)) {
+      return Response.json({error: "before must be epoch ms"}, {status: 400})
+    }
+
+    const conversations = await getTranscriptStore().listConversations(userId, {
+      limit: isNaN(limit) ? 50 : Math.min(Math.max(limit, 1), 200),
+      before: before ? parseInt(before, 10) : undefined,
+    })
+
+    // Mark the conversation that is still being recorded, if any
+    const activeId = UserSession.getUserSession(userId)?.archive.getCurrentConversationId() ?? null
+
+    return Response.json({
+      sessions: conversations.map((c) => ({...c, active: c.id === activeId})),
+    })
+  }),
+
+  "/api/sessions/:id/transcripts": requireAuth(async (req, userId) => {
+    // Extract :id from URL path (/api/sessions/<id>/transcripts)
+    const pathParts = new URL(req.url).pathname.split("/")
+    const conversationId = decodeURIComponent(pathParts[pathParts.length - 2])
+
+    const store = getTranscriptStore()
+    const conversation = await store.getConversation(userId, conversationId)
+
+    if (!conversation) {
+      return Response.json({error: "Session not found"}, {status: 404})
+    }
+
+    const transcripts = await store.getTranscripts(userId, conversationId)
+
+    return Response.json({session: conversation, transcripts})
+  }),
+}
@@ -0,0 +1,164 @@
+import {afterEach, beforeEach, describe, expect, test} from "bun:test"
+
+import {settingsRoutes} from "./settings"
+import {UserSession} from "../app/session/UserSession"
+import {MemoryTranscriptStore, setTranscriptStore} from "../app/storage"
+import {FakeAppSession, TestApp, USER_ID} from "../app/test-helpers"
+import {MAX_REPLACEMENT_RULES} from "../app/utils/ReplacementRules"
+
+function post(path: string, body?: unknown): Request {
+  return new Request(`http://localhost${path}`, {
+    method: "POST",
+    headers: {"x-auth-user-id": USER_ID, "content-type": "application/json"},
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+describe("settingsRoutes", () => {
+  let app: TestApp
+  let session: FakeAppSession
+
+  beforeEach(async () => {
+    setTranscriptStore(new MemoryTranscriptStore())
+    app = new TestApp({packageName: "com.test.captions", apiKey: "test-api-key", port: 0})
+    session = new FakeAppSession()
+  })
+
+  afterEach(() => {
+    for (const userSession of [...UserSession.userSessions.values(), ...UserSession.suspendedSessions.values()]) {
+      userSession.dispose()
+    }
+    setTranscriptStore(null)
+  })
+
+  describe("/api/settings/profiles", () => {
+    test("should keep personal lists out of profiles", async () => {
+      await app.connect(session, "session-1")
+      const settings = UserSession.getUserSession(USER_ID)!.settings
+      await settings.update({alertKeywords: ["fire"], wearerNames: ["Sam"]})
+
+      const response = await settingsRoutes["/api/settings/profiles"].POST(post("/api/settings/profiles", {name: "Class"}))
+      const {profile} = await response.json()
+      expect(profile.settings.displayLines).toBeDefined()
+      expect(profile.settings.alertKeywords).toBeUndefined()
+      expect(profile.settings.wearerNames).toBeUndefined()
+
+      const rejected = await settingsRoutes["/api/settings/profiles"].POST(
+        post("/api/settings/profiles", {name: "Alerts", settings: {alertKeywords: ["help"]}}),
+      )
+      expect(rejected.status).toBe(400)
+    })
+
+    test("should not undo later list changes when an older profile is applied", async () => {
+      // Profiles saved by earlier versions held every setting
+      session.storage.set(
+        "settingsProfiles",
+        JSON.stringify([
+          {id: "old", name: "Old", builtIn: false, settings: {displayLines: 2, alertKeywords: ["fire"], nameAlert: false}},
+        ]),
+      )
+      await app.connect(session, "session-1")
+      const settings = UserSession.getUserSession(USER_ID)!.settings
+      await settings.update({alertKeywords: ["fire", "help"], nameAlert: true})
+
+      const response = await settingsRoutes["/api/settings/profiles/:id/apply"].POST(
+        post("/api/settings/profiles/old/apply"),
+      )
+
+      expect(response.status).toBe(200)
+      expect(settings.get("displayLines")).toBe(2)
+      expect(settings.get("alertKeywords")).toEqual(["fire", "help"])
+      expect(settings.get("nameAlert")).toBe(true)
+    })
+
+    test("should reject applying a profile the current settings don't accept", async () => {
+      session.storage.set(
+        "settingsProfiles",
+        JSON.stringify([{id: "broken", name: "Broken", builtIn: false, settings: {displayLines: 99}}]),
+      )
+      await app.connect(session, "session-1")
+
+      const response = await settingsRoutes["/api/settings/profiles/:id/apply"].POST(
+        post("/api/settings/profiles/broken/apply"),
+      )
+
+      expect(response.status).toBe(400)
+      expect(UserSession.getUserSession(USER_ID)!.settings.get("displayLines")).not.toBe(99)
+    })
+  })
+
+  describe("/api/settings/import", () => {
+    const importDocument = (document: object, dryRun = false) =>
+      settingsRoutes["/api/settings/import"].POST(
+        post(`/api/settings/import${dryRun ? "?dryRun=true" : ""}`, {format: "captions-settings", version: 1, ...document}),
+      )
+
+    test("should report conflicts on a dry run without changing anything", async () => {
+      await app.connect(session, "session-1")
+      const userSession = UserSession.getUserSession(USER_ID)!
+      await userSession.settings.update({displayLines: 3})
+
+      const response = await importDocument(
+        {settings: {displayLines: 5}, replacementRules: [{find: "Mentra", replace: "Mentra OS", regex: false}]},
+        true,
+      )
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toMatchObject({
+        success: true,
+        dryRun: true,
+        conflicts: [{type: "setting", key: "displayLines", current: 3, imported: 5}],
+        skipped: [],
+      })
+      expect(userSession.settings.get("displayLines")).toBe(3)
+      expect(userSession.vocabulary.getRules()).toEqual([])
+    })
+
+    test("should migrate and apply settings exported with an older schema", async () => {
+      await app.connect(session, "session-1")
+
+      const response = await importDocument({schemaVersion: 0, settings: {language: "Chinese (Pinyin)"}})
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toMatchObject({dryRun: false, settings: {language: "zh", transliterators: ["zh-pinyin"]}})
+      expect(UserSession.getUserSession(USER_ID)!.settings.get("transliterators")).toEqual(["zh-pinyin"])
+    })
+
+    test("should reject an invalid document as a whole", async () => {
+      await app.connect(session, "session-1")
+      const settings = UserSession.getUserSession(USER_ID)!.settings
+
+      const response = await importDocument({settings: {displayLines: 4, layoutMode: "sideways"}})
+
+      expect(response.status).toBe(400)
+      const body = await response.json()
+      expect(body.error).toBe("Invalid settings export")
+      expect(body.errors).toEqual([expect.stringContaining("settings.layoutMode")])
+      expect(settings.get("displayLines")).not.toBe(4)
+
+      const notAnExport = await settingsRoutes["/api/settings/import"].POST(post("/api/settings/import", {hello: 1}))
+      expect(notAnExport.status).toBe(400)
+    })
+
+    test("should reject rules that would take the user over the rule limit", async () => {
+      await app.connect(session, "session-1")
+      const userSession = UserSession.getUserSession(USER_ID)!
+      await userSession.vocabulary.addRule({find: "colour", replace: "color", regex: false, matchCase: false, wholeWord: true})
+      await userSession.settings.update({displayLines: 3})
+      const rules = Array.from({length: MAX_REPLACEMENT_RULES}, (_, i) => ({find: `term${i}`, replace: `Term ${i}`, regex: false}))
+
+      const response = await importDocument({settings: {displayLines: 5}, replacementRules: rules})
+
+      expect(response.status).toBe(400)
+      expect(userSession.vocabulary.getRules()).toHaveLength(1)
+      expect(userSession.settings.get("displayLines")).toBe(3)
+
+      // Rules that replace existing ones don't add to the count
+      const replacing = await importDocument({
+        replacementRules: [{find: "colour", replace: "Color", regex: false}, ...rules.slice(1)],
+      })
+      expect(replacing.status).toBe(200)
+      expect(userSession.vocabulary.getRules()).toHaveLength(MAX_REPLACEMENT_RULES)
+    })
+  })
+})
@@ -1,46 +1,198 @@
 import { requireAuth } from "./auth-helpers";
 import { UserSession } from "../app/session/UserSession";
+import {
+  MAX_PROFILE_NAME_LENGTH,
+  type ProfileSettings,
+} from "../app/session/SettingsManager";
+import { getTranslator } from "../app/translation";
+import {
+  PROFILE_SETTING_KEYS,
+  validateSettingsPatch,
+} from "../app/utils/SettingsSchema";
+import {
+  MAX_REPLACEMENT_RULES,
+  parseReplacementRule,
+} from "../app/utils/ReplacementRules";
+import {
+  type SettingsSnapshot,
+  buildSettingsExport,
+  findImportConflicts,
+  parseSettingsExport,
+} from "../app/utils/SettingsTransfer";
+import { isRecord } from "../app/utils/TypeGuards";
+
+/**
+ * Validate a profile request body ({ name, settings }). Name and settings are
+ * optional here; returns the cleaned values or an error message.
+ */
+function parseProfile(
+  body: unknown,
+):
+  | { name?: string; settings?: Partial<ProfileSettings> }
+  | { error: string } {
+  if (body !== null && body !== undefined && !isRecord(body)) {
+    return { error: "body must be an object" };
+  }
+  const { name, settings } = body ?? {};
+
+  let cleanedName: string | undefined;
+  if (name !== undefined) {
+    if (typeof name !== "string" || !name.trim()) {
+      return { error: "name must be a non-empty string" };
+    }
+    cleanedName = name.trim();
+    if (cleanedName.length > MAX_PROFILE_NAME_LENGTH) {
+      return {
+        error: `name must be at most ${MAX_PROFILE_NAME_LENGTH} characters`,
+      };
+    }
+  }
+
+  if (settings === undefined) {
+    return { name: cleanedName };
+  }
+
+  const validated = validateSettingsPatch(settings, PROFILE_SETTING_KEYS);
+  if ("errors" in validated) {
+    const [key, error] = Object.entries(validated.errors)[0];
+    return { error: `${key} ${error}` };
+  }
+
+  return { name: cleanedName, settings: validated.patch };
+}
+
+// Extract :id from /api/settings/profiles/<id>[/apply] or /api/settings/vocabulary/<id>
+function idFromUrl(req: Request, segmentsAfterId = 0): string {
+  const pathParts = new URL(req.url).pathname.split("/");
+  return decodeURIComponent(pathParts[pathParts.length - 1 - segmentsAfterId]);
+}
+
+/**
+ * The parts of a user's setup that can be exported and imported
+ */
+async function settingsSnapshot(
+  userSession: UserSession,
+): Promise<SettingsSnapshot> {
+  return {
+    settings: userSession.settings.getStored(),
+    profiles: await userSession.settings.getCustomProfiles(),
+    speakerNames: userSession.speakers.getAll().profiles,
+    replacementRules: userSession.vocabulary.getRules(),
+  };
+}
 
 export const settingsRoutes = {
-  "/api/settings": requireAuth(async (_req, userId) => {
-    const userSession = UserSession.getUserSession(userId);
+  /**
+   * Caption settings
+   *
+   * GET   - every setting, plus the current version
+   * PATCH - { ...settings, version? } changes any subset of settings at once.
+   *         Nothing is stored unless every value is valid (400 with a message
+   *         per setting). With a version, the update is rejected with 409 and
+   *         the current settings if they changed since that version.
+   */
+  "/api/settings": {
+    GET: requireAuth(async (_req, userId) => {
+      const userSession = UserSession.getUserSession(userId);
 
-    if (!userSession) {
-      return Response.json({ error: "No active session" }, { status: 404 });
-    }
+      if (!userSession) {
+        return Response.json({ error: "No active session" }, { status: 404 });
+      }
 
-    const settings = await userSession.settings.getAll();
-    return Response.json(settings);
-  }),
+      const settings = await userSession.settings.getAll();
+      return Response.json(settings);
+    }),
 
-  "/api/settings/language": {
-    POST: requireAuth(async (req, userId) => {
+    PATCH: requireAuth(async (req, userId) => {
       const userSession = UserSession.getUserSession(userId);
 
       if (!userSession) {
         return Response.json({ error: "No active session" }, { status: 404 });
       }
 
-      let body;
+      let body: unknown;
       try {
         body = await req.json();
       } catch {
         return Response.json({ error: "Invalid JSON body" }, { status: 400 });
       }
 
-      const { language } = body;
+      if (!isRecord(body)) {
+        return Response.json(
+          { error: "Settings must be an object" },
+          { status: 400 },
+        );
+      }
 
-      if (!language || typeof language !== "string") {
-        return Response.json({ error: "Invalid language" }, { status: 400 });
+      const { version, ...patch } = body;
+      if (
+        version !== undefined &&
+        (typeof version !== "number" || !Number.isInteger(version))
+      ) {
+        return Response.json(
+          { error: "version must be an integer" },
+          { status: 400 },
+        );
       }
 
-      await userSession.settings.setLanguage(language);
+      const validated = validateSettingsPatch(patch);
+      if ("errors" in validated) {
+        return Response.json(
+          { error: "Invalid settings", errors: validated.errors },
+          { status: 400 },
+        );
+      }
 
-      return Response.json({ success: true });
+      if (validated.patch.translationLanguage && !getTranslator()) {
+        return Response.json(
+          { error: "Translation is not configured on this server" },
+          { status: 503 },
+        );
+      }
+
+      const updated = await userSession.settings.update(
+        validated.patch,
+        version,
+      );
+
+      if (!updated) {
+        return Response.json(
+          {
+            error: "Settings were changed elsewhere",
+            settings: await userSession.settings.getAll(),
+          },
+          { status: 409 },
+        );
+      }
+
+      return Response.json({
+        success: true,
+        settings: await userSession.settings.getAll(),
+      });
     }),
   },
 
-  "/api/settings/language-hints": {
+  /**
+   * Named bundles of display and language settings
+   *
+   * GET  - { profiles, activeProfileId }
+   * POST - { name, settings? } saves a profile; missing settings are taken
+   *        from the current ones
+   */
+  "/api/settings/profiles": {
+    GET: requireAuth(async (_req, userId) => {
+      const userSession = UserSession.getUserSession(userId);
+
+      if (!userSession) {
+        return Response.json({ error: "No active session" }, { status: 404 });
+      }
+
+      return Response.json({
+        profiles: await userSession.settings.getProfiles(),
+        activeProfileId: await userSession.settings.getActiveProfileId(),
+      });
+    }),
+
     POST: requireAuth(async (req, userId) => {
       const userSession = UserSession.getUserSession(userId);
 
@@ -48,29 +200,109 @@ export const settingsRoutes = {
         return Response.json({ error: "No active session" }, { status: 404 });
       }
 
-      let body;
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+      }
+
+      const parsed = parseProfile(body);
+      if ("error" in parsed) {
+        return Response.json({ error: parsed.error }, { status: 400 });
+      }
+      if (!parsed.name) {
+        return Response.json({ error: "name is required" }, { status: 400 });
+      }
+
+      const profile = await userSession.settings.createProfile(
+        parsed.name,
+        parsed.settings,
+      );
+
+      return Response.json({ success: true, profile });
+    }),
+  },
+
+  /**
+   * PUT    - { name?, settings? } renames a profile or changes its settings
+   * DELETE - removes a profile
+   *
+   * Built-in presets can't be changed or removed.
+   */
+  "/api/settings/profiles/:id": {
+    PUT: requireAuth(async (req, userId) => {
+      const userSession = UserSession.getUserSession(userId);
+
+      if (!userSession) {
+        return Response.json({ error: "No active session" }, { status: 404 });
+      }
+
+      let body: unknown;
       try {
         body = await req.json();
       } catch {
         return Response.json({ error: "Invalid JSON body" }, { status: 400 });
       }
 
-      const { hints } = body;
+      const parsed = parseProfile(body);
+      if ("error" in parsed) {
+        return Response.json({ error: parsed.error }, { status: 400 });
+      }
+
+      let profile;
+      try {
+        profile = await userSession.settings.updateProfile(
+          idFromUrl(req),
+          parsed,
+        );
+      } catch (error) {
+        return Response.json(
+          { error: (error as Error).message },
+          { status: 400 },
+        );
+      }
+
+      if (!profile) {
+        return Response.json({ error: "Profile not found" }, { status: 404 });
+      }
+
+      return Response.json({ success: true, profile });
+    }),
+
+    DELETE: requireAuth(async (req, userId) => {
+      const userSession = UserSession.getUserSession(userId);
+
+      if (!userSession) {
+        return Response.json({ error: "No active session" }, { status: 404 });
+      }
 
-      if (!Array.isArray(hints)) {
+      let deleted;
+      try {
+        deleted = await userSession.settings.deleteProfile(
+          idFromUrl(req),
+        );
+      } catch (error) {
         return Response.json(
-          { error: "hints must be an array" },
+          { error: (error as Error).message },
           { status: 400 },
         );
       }
 
-      await userSession.settings.setLanguageHints(hints);
+      if (!deleted) {
+        return Response.json({ error: "Profile not found" }, { status: 404 });
+      }
 
       return Response.json({ success: true });
     }),
   },
 
-  "/api/settings/display-lines": {
+  /**
+   * Switch to a profile in one step
+   *
+   * POST - applies every setting in the profile and returns the new settings
+   */
+  "/api/settings/profiles/:id/apply": {
     POST: requireAuth(async (req, userId) => {
       const userSession = UserSession.getUserSession(userId);
 
@@ -78,59 +310,164 @@ export const settingsRoutes = {
         return Response.json({ error: "No active session" }, { status: 404 });
       }
 
-      let body;
+      let profile;
+      try {
+        profile = await userSession.settings.applyProfile(idFromUrl(req, 1));
+      } catch (error) {
+        // A stored profile with a value the current settings reject
+        return Response.json(
+          { error: (error as Error).message },
+          { status: 400 },
+        );
+      }
+
+      if (!profile) {
+        return Response.json({ error: "Profile not found" }, { status: 404 });
+      }
+
+      return Response.json({
+        success: true,
+        settings: await userSession.settings.getAll(),
+      });
+    }),
+  },
+
+  /**
+   * Custom vocabulary: find→replace rules applied to transcription text
+   *
+   * GET  - { rules }
+   * POST - { find, replace, regex?, matchCase?, wholeWord? } adds a rule
+   */
+  "/api/settings/vocabulary": {
+    GET: requireAuth(async (_req, userId) => {
+      const userSession = UserSession.getUserSession(userId);
+
+      if (!userSession) {
+        return Response.json({ error: "No active session" }, { status: 404 });
+      }
+
+      return Response.json({ rules: userSession.vocabulary.getRules() });
+    }),
+
+    POST: requireAuth(async (req, userId) => {
+      const userSession = UserSession.getUserSession(userId);
+
+      if (!userSession) {
+        return Response.json({ error: "No active session" }, { status: 404 });
+      }
+
+      let body: unknown;
       try {
         body = await req.json();
       } catch {
         return Response.json({ error: "Invalid JSON body" }, { status: 400 });
       }
 
-      const { lines } = body;
-
-      if (typeof lines !== "number" || lines < 2 || lines > 5) {
+      const parsed = parseReplacementRule(body);
+      if ("error" in parsed) {
+        return Response.json({ error: parsed.error }, { status: 400 });
+      }
+      if (userSession.vocabulary.getRules().length >= MAX_REPLACEMENT_RULES) {
         return Response.json(
-          { error: "lines must be a number between 2 and 5" },
+          { error: `At most ${MAX_REPLACEMENT_RULES} rules are allowed` },
           { status: 400 },
         );
       }
 
-      await userSession.settings.setDisplayLines(lines);
+      const rule = await userSession.vocabulary.addRule(parsed.rule);
 
-      return Response.json({ success: true });
+      return Response.json({ success: true, rule });
     }),
   },
 
-  "/api/settings/display-width": {
-    POST: requireAuth(async (req, userId) => {
+  /**
+   * PUT    - { find, replace, regex?, matchCase?, wholeWord? } replaces a rule
+   * DELETE - removes a rule
+   */
+  "/api/settings/vocabulary/:id": {
+    PUT: requireAuth(async (req, userId) => {
       const userSession = UserSession.getUserSession(userId);
 
       if (!userSession) {
         return Response.json({ error: "No active session" }, { status: 404 });
       }
 
-      let body;
+      let body: unknown;
       try {
         body = await req.json();
       } catch {
         return Response.json({ error: "Invalid JSON body" }, { status: 400 });
       }
 
-      const { width } = body;
+      const parsed = parseReplacementRule(body);
+      if ("error" in parsed) {
+        return Response.json({ error: parsed.error }, { status: 400 });
+      }
 
-      if (typeof width !== "number") {
-        return Response.json(
-          { error: "width must be a number" },
-          { status: 400 },
-        );
+      const rule = await userSession.vocabulary.updateRule(
+        idFromUrl(req),
+        parsed.rule,
+      );
+
+      if (!rule) {
+        return Response.json({ error: "Rule not found" }, { status: 404 });
+      }
+
+      return Response.json({ success: true, rule });
+    }),
+
+    DELETE: requireAuth(async (req, userId) => {
+      const userSession = UserSession.getUserSession(userId);
+
+      if (!userSession) {
+        return Response.json({ error: "No active session" }, { status: 404 });
       }
 
-      await userSession.settings.setDisplayWidth(width);
+      const deleted = await userSession.vocabulary.deleteRule(idFromUrl(req));
+
+      if (!deleted) {
+        return Response.json({ error: "Rule not found" }, { status: 404 });
+      }
 
       return Response.json({ success: true });
     }),
   },
 
-  "/api/settings/word-breaking": {
+  /**
+   * Download the settings, custom profiles, remembered speaker names and
+   * replacement rules as JSON
+   */
+  "/api/settings/export": {
+    GET: requireAuth(async (_req, userId) => {
+      const userSession = UserSession.getUserSession(userId);
+
+      if (!userSession) {
+        return Response.json({ error: "No active session" }, { status: 404 });
+      }
+
+      const document = buildSettingsExport(await settingsSnapshot(userSession));
+      const filename = `captions-settings-${document.exportedAt.slice(0, 10)}.json`;
+
+      return new Response(JSON.stringify(document, null, 2), {
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      });
+    }),
+  },
+
+  /**
+   * Import an exported document
+   *
+   * POST - the document as the body. With ?dryRun=true nothing is changed and
+   *        only the conflicts (values the import would overwrite) are reported.
+   *        Invalid documents, and rules that would take the user over the
+   *        rule limit, are rejected as a whole with 400 and a list of errors.
+   *        Settings this server can't use (translation without a translator)
+   *        are skipped and listed.
+   */
+  "/api/settings/import": {
     POST: requireAuth(async (req, userId) => {
       const userSession = UserSession.getUserSession(userId);
 
@@ -138,25 +475,73 @@ export const settingsRoutes = {
         return Response.json({ error: "No active session" }, { status: 404 });
       }
 
-      let body;
+      let body: unknown;
       try {
         body = await req.json();
       } catch {
         return Response.json({ error: "Invalid JSON body" }, { status: 400 });
       }
 
-      const { enabled } = body;
+      const parsed = parseSettingsExport(body);
+      if ("errors" in parsed) {
+        return Response.json(
+          { error: "Invalid settings export", errors: parsed.errors },
+          { status: 400 },
+        );
+      }
 
-      if (typeof enabled !== "boolean") {
+      const { settings, profiles, speakerNames, replacementRules } =
+        parsed.document;
+      // Imported rules are added to the user's own, so the cap applies to both
+      if (
+        userSession.vocabulary.countAfterImport(replacementRules) >
+        MAX_REPLACEMENT_RULES
+      ) {
         return Response.json(
-          { error: "enabled must be a boolean" },
+          {
+            error: "Invalid settings export",
+            errors: [
+              `replacementRules and your own rules add up to more than ${MAX_REPLACEMENT_RULES}`,
+            ],
+          },
           { status: 400 },
         );
       }
 
-      await userSession.settings.setWordBreaking(enabled);
+      const skipped: string[] = [];
+      if (settings.translationLanguage && !getTranslator()) {
+        delete settings.translationLanguage;
+        skipped.push("translationLanguage");
+      }
 
-      return Response.json({ success: true });
+      const conflicts = findImportConflicts(
+        parsed.document,
+        await settingsSnapshot(userSession),
+      );
+
+      const dryRun = new URL(req.url).searchParams.get("dryRun") === "true";
+      if (dryRun) {
+        return Response.json({ success: true, dryRun, conflicts, skipped });
+      }
+
+      await userSession.settings.update(settings);
+      if (profiles.length > 0) {
+        await userSession.settings.importProfiles(profiles);
+      }
+      if (Object.keys(speakerNames).length > 0) {
+        await userSession.speakers.importProfiles(speakerNames);
+      }
+      if (replacementRules.length > 0) {
+        await userSession.vocabulary.importRules(replacementRules);
+      }
+
+      return Response.json({
+        success: true,
+        dryRun,
+        conflicts,
+        skipped,
+        settings: await userSession.settings.getAll(),
+      });
     }),
   },
 };
@@ -0,0 +1,49 @@
+import {afterEach, beforeEach, describe, expect, test} from "bun:test"
+
+import {speakersRoutes} from "./speakers"
+import {UserSession} from "../app/session/UserSession"
+import {MemoryTranscriptStore, setTranscriptStore} from "../app/storage"
+import {FakeAppSession, TestApp, USER_ID} from "../app/test-helpers"
+
+function post(body: unknown): Request {
+  return new Request("http://localhost/api/speakers", {
+    method: "POST",
+    headers: {"x-auth-user-id": USER_ID, "content-type": "application/json"},
+    body: JSON.stringify(body),
+  })
+}
+
+describe("speakersRoutes", () => {
+  let app: TestApp
+
+  beforeEach(async () => {
+    setTranscriptStore(new MemoryTranscriptStore())
+    app = new TestApp({packageName: "com.test.captions", apiKey: "test-api-key", port: 0})
+    await app.connect(new FakeAppSession(), "session-1")
+  })
+
+  afterEach(() => {
+    for (const userSession of [...UserSession.userSessions.values(), ...UserSession.suspendedSessions.values()]) {
+      userSession.dispose()
+    }
+    setTranscriptStore(null)
+  })
+
+  test("should rename a speaker for this conversation, or remember the name when asked", async () => {
+    const speakers = UserSession.getUserSession(USER_ID)!.speakers
+    const rename = speakersRoutes["/api/speakers"].POST
+
+    expect((await rename(post({speakerId: "2", name: "Alice"}))).status).toBe(200)
+    expect(speakers.getAll()).toMatchObject({names: {"2": "Alice"}, profiles: {}})
+
+    expect((await rename(post({speakerId: "3", name: "Bob", remember: true}))).status).toBe(200)
+    expect(speakers.getAll().profiles).toEqual({"3": "Bob"})
+  })
+
+  test("should reject a body that isn't a rename", async () => {
+    for (const body of [null, ["2", "Alice"], {speakerId: "2", name: 5}, {speakerId: "2", name: "Alice", remember: "yes"}]) {
+      expect((await speakersRoutes["/api/speakers"].POST(post(body))).status).toBe(400)
+    }
+    expect(UserSession.getUserSession(USER_ID)!.speakers.getAll().names).toEqual({})
+  })
+})
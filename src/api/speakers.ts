@@ -0,0 +1,123 @@
+import {requireAuth} from "./auth-helpers"
+import {UserSession} from "../app/session/UserSession"
+import {defaultSpeakerLabel} from "../app/session/SpeakersManager"
+import {getTranscriptStore} from "../app/storage"
+import {isRecord} from "../app/utils/TypeGuards"
+
+const MAX_SPEAKER_NAME_LENGTH = 40
+
+/**
+ * Validate a rename request body. Returns the cleaned name (null resets to the
+ * default label) and whether to remember it, or an error message.
+ */
+function parseRename(body: unknown): {speakerId: string; name: string | null; remember: boolean} | {error: string} {
+  if (!isRecord(body)) {
+    return {error: "speakerId is required"}
+  }
+  const {speakerId, name, remember = false} = body
+
+  if (!speakerId || typeof speakerId !== "string") {
+    return {error: "speakerId is required"}
+  }
+  if (name !== null && name !== undefined && typeof name !== "string") {
+    return {error: "name must be a string or null"}
+  }
+  if (typeof remember !== "boolean") {
+    return {error: "remember must be a boolean"}
+  }
+
+  // Brackets would break the [Name]: label on the glasses
+  const cleaned = (name ?? "").replace(/[[\]]/g, "").trim()
+  if (cleaned.length > MAX_SPEAKER_NAME_LENGTH) {
+    return {error: `name must be at most ${MAX_SPEAKER_NAME_LENGTH} characters`}
+  }
+
+  return {speakerId, name: cleaned || null, remember}
+}
+
+export const speakersRoutes = {
+  /**
+   * Speaker names for the live conversation
+   *
+   * GET  - { names, profiles } keyed by speaker ID
+   * POST - { speakerId, name, remember? } renames a speaker; name null resets it,
+   *        remember also saves the name for future conversations
+   */
+  "/api/speakers": {
+    GET: requireAuth(async (_req, userId) => {
+      const userSession = UserSession.getUserSession(userId)
+
+      if (!userSession) {
+        return Response.json({error: "No active session"}, {status: 404})
+      }
+
+      return Response.json(userSession.speakers.getAll())
+    }),
+
+    POST: requireAuth(async (req, userId) => {
+      const userSession = UserSession.getUserSession(userId)
+
+      if (!userSession) {
+        return Response.json({error: "No active session"}, {status: 404})
+      }
+
+      let body: unknown
+      try {
+        body = await req.json()
+      } catch {
+        return Response.json({error: "Invalid JSON body"}, {status: 400})
+      }
+
+      const parsed = parseRename(body)
+      if ("error" in parsed) {
+        return Response.json({error: parsed.error}, {status: 400})
+      }
+
+      const speaker = await userSession.speakers.rename(parsed.speakerId, parsed.name, parsed.remember)
+
+      return Response.json({success: true, speakerId: parsed.speakerId, speaker})
+    }),
+  },
+
+  /**
+   * Rename a speaker in an archived conversation
+   *
+   * POST - { speakerId, name }
+   */
+  "/api/sessions/:id/speakers": {
+    POST: requireAuth(async (req, userId) => {
+      // Extract :id from URL path (/api/sessions/<id>/speakers)
+      const pathParts = new URL(req.url).pathname.split("/")
+      const conversationId = decodeURIComponent(pathParts[pathParts.length - 2])
+
+      let body: unknown
+      try {
+        body = await req.json()
+      } catch {
+        return Response.json({error: "Invalid JSON body"}, {status: 400})
+      }
+
+      const parsed = parseRename(body)
+      if ("error" in parsed) {
+        return Response.json({error: parsed.error}, {status: 400})
+      }
+
+      // The live conversation also relabels the webview and glasses
+      const userSession = UserSession.getUserSession(userId)
+      if (userSession?.archive.getCurrentConversationId() === conversationId) {
+        const speaker = await userSession.speakers.rename(parsed.speakerId, parsed.name)
+        return Response.json({success: true, speakerId: parsed.speakerId, speaker})
+      }
+
+      const store = getTranscriptStore()
+      if (!(await store.getConversation(userId, conversationId))) {
+        return Response.json({error: "Session not found"}, {status: 404})
+      }
+
+      const speaker = parsed.name ?? defaultSpeakerLabel(parsed.speakerId)
+      await store.setSpeakerName(userId, conversationId, parsed.speakerId, parsed.name, speaker)
+
+      return Response.json({success: true, speakerId: parsed.speakerId, speaker})
+    }),
+  },
+}
@@ -0,0 +1,96 @@
+import {afterEach, beforeEach, describe, expect, test} from "bun:test"
+
+import {transcriptsRoutes} from "./transcripts"
+import {UserSession} from "../app/session/UserSession"
+import {MemoryTranscriptStore, setTranscriptStore} from "../app/storage"
+import {FakeAppSession, TestApp, USER_ID} from "../app/test-helpers"
+
+interface SearchResult {
+  source: "live" | "archive"
+  sessionId: string | null
+  transcript: {id: string; text: string}
+  matches: Array<{start: number; end: number}>
+}
+
+function search(query: string): Promise<Response> {
+  return transcriptsRoutes["/api/transcripts/search"](
+    new Request(`http://localhost/api/transcripts/search?${query}`, {headers: {"x-auth-user-id": USER_ID}}),
+  )
+}
+
+async function results(query: string): Promise<SearchResult[]> {
+  const response = await search(query)
+  expect(response.status).toBe(200)
+  return (await response.json()).results
+}
+
+describe("/api/transcripts/search", () => {
+  let store: MemoryTranscriptStore
+  let app: TestApp
+
+  beforeEach(async () => {
+    store = new MemoryTranscriptStore()
+    setTranscriptStore(store)
+    app = new TestApp({packageName: "com.test.captions", apiKey: "test-api-key", port: 0})
+
+    // An earlier conversation, long finished
+    await store.createConversation(USER_ID, {id: "old", startedAt: 1000, language: "en"})
+    await store.appendTranscript(USER_ID, {
+      id: "a1",
+      conversationId: "old",
+      utteranceId: "a1",
+      speakerId: "1",
+      speaker: "Speaker 1",
+      text: "The budget is final",
+      startedAt: null,
+      endedAt: null,
+      receivedAt: 2000,
+    })
+  })
+
+  afterEach(() => {
+    for (const session of [...UserSession.userSessions.values(), ...UserSession.suspendedSessions.values()]) {
+      session.dispose()
+    }
+    setTranscriptStore(null)
+  })
+
+  test("should reject a missing query or an unreadable date", async () => {
+    expect((await search("q=")).status).toBe(400)
+    expect((await search("q=budget&from=yesterday")).status).toBe(400)
+  })
+
+  test("should search the archive without a live session", async () => {
+    const found = await results("q=BUDGET")
+    expect(found).toMatchObject([{source: "archive", sessionId: "old", transcript: {id: "a1"}}])
+    expect(found[0].matches).toEqual([{start: 4, end: 10}])
+  })
+
+  test("should put live results first and not repeat them from the archive", async () => {
+    const session = new FakeAppSession()
+    await app.connect(session, "session-1")
+    await session.emit("Budget meeting at noon", true, "u1")
+    await session.emit("Budget draft", false, "u2")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    await userSession.archive.flush()
+    const currentId = userSession.archive.getCurrentConversationId()
+
+    const found = await results("q=budget")
+    expect(found.map((r) => [r.source, r.sessionId, r.transcript.text])).toEqual([
+      ["live", currentId, "Budget draft"],
+      ["live", currentId, "Budget meeting at noon"],
+      ["archive", "old", "The budget is final"],
+    ])
+    expect((await results("q=budget&limit=2")).map((r) => r.source)).toEqual(["live", "live"])
+  })
+
+  test("should apply the time filter to live and archived transcripts", async () => {
+    const session = new FakeAppSession()
+    await app.connect(session, "session-1")
+    await session.emit("Budget meeting at noon", true, "u1")
+
+    expect((await results("q=budget&to=5000")).map((r) => r.transcript.id)).toEqual(["a1"])
+    expect((await results(`q=budget&from=${Date.now() - 60 * 1000}`)).map((r) => r.source)).toEqual(["live"])
+  })
+})
@@ -1,5 +1,24 @@
 import {requireAuth} from "./auth-helpers"
 import {UserSession} from "../app/session/UserSession"
+import {getTranscriptStore} from "../app/storage"
+import {isExportFormat, renderTranscripts, EXPORT_FORMATS, type ExportableTranscript} from "../app/utils/TranscriptExport"
+import {findMatches, matchesAllTerms, parseSearchQuery} from "../app/utils/TranscriptSearch"
+
+const DEFAULT_SEARCH_LIMIT = 50
+const MAX_SEARCH_LIMIT = 200
+
+/**
+ * Parse a from/to filter given as epoch ms or an ISO date.
+ * Date-only values for the end of a range include that whole day.
+ */
+function parseTimeParam(value: string | null, endOfDay = false): number | undefined | null {
+  if (!value) return undefined
+  if (/^\d+$/.test(value)) return parseInt(value, 10)
+
+  const parsed = Date.parse(value)
+  if (isNaN(parsed)) return null
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? parsed + 24 * 60 * 60 * 1000 - 1 : parsed
+}
 
 export const transcriptsRoutes = {
   "/api/transcripts": requireAuth(async (_req, userId) => {
@@ -13,4 +32,155 @@ export const transcriptsRoutes = {
 
     return Response.json({transcripts})
   }),
+
+  /**
+   * Export transcripts as a downloadable file
+   *
+   * Query params:
+   * - format: srt | vtt | txt | md | json
+   * - sessionId: archived conversation to export (defaults to the current conversation)
+   */
+  "/api/transcripts/export": requireAuth(async (req, userId) => {
+    const url = new URL(req.url)
+    const format = url.searchParams.get("format") || "txt"
+    const sessionId = url.searchParams.get("sessionId")
+
+    if (!isExportFormat(format)) {
+      return Response.json({error: `format must be one of: ${EXPORT_FORMATS.join(", ")}`}, {status: 400})
+    }
+
+    let transcripts: ExportableTranscript[]
+    let startedAt: number | undefined
+    let language: string | undefined
+
+    if (sessionId) {
+      const store = getTranscriptStore()
+      const conversation = await store.getConversation(userId, sessionId)
+
+      if (!conversation) {
+        return Response.json({error: "Session not found"}, {status: 404})
+      }
+
+      transcripts = await store.getTranscripts(userId, sessionId)
+      startedAt = conversation.startedAt
+      language = conversation.language
+    } else {
+      const userSession = UserSession.getUserSession(userId)
+
+      if (!userSession) {
+        return Response.json({error: "No active session"}, {status: 404})
+      }
+
+      // The live buffer is capped, so take the current conversation from the
+      // archive and add finals whose writes haven't reached the store yet
+      const live = userSession.transcripts.getAll().filter((t) => t.isFinal)
+      const conversationId = userSession.archive.getCurrentConversationId()
+      const store = getTranscriptStore()
+      const conversation = conversationId ? await store.getConversation(userId, conversationId) : null
+      const archived = conversation ? await store.getTranscripts(userId, conversation.id) : []
+      const archivedIds = new Set(archived.map((t) => t.id))
+
+      transcripts = [...archived, ...live.filter((t) => !archivedIds.has(t.id))].sort(
+        (a, b) => (a.startedAt ?? a.receivedAt) - (b.startedAt ?? b.receivedAt),
+      )
+      startedAt = conversation?.startedAt
+      language = userSession.settings.get("language")
+    }
+
+    const rendered = renderTranscripts(transcripts, format, {title: "Captions", startedAt, language})
+
+    const fileDate = new Date(startedAt ?? transcripts[0]?.receivedAt ?? Date.now())
+    const filename = `captions-${fileDate.toISOString().slice(0, 16).replace(/[:T]/g, "-")}.${rendered.extension}`
+
+    return new Response(rendered.body, {
+      headers: {
+        "Content-Type": rendered.contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    })
+  }),
+
+  /**
+   * Search the live transcript buffer and archived conversations
+   *
+   * Query params:
+   * - q: words and "quoted phrases" (all must match)
+   * - speaker: speaker label or diarization ID
+   * - from / to: epoch ms or ISO date
+   * - language: conversation language
+   * - limit: maximum results (default 50)
+   */
+  "/api/transcripts/search": requireAuth(async (req, userId) => {
+    const url = new URL(req.url)
+    const terms = parseSearchQuery(url.searchParams.get("q") || "")
+
+    if (terms.length === 0) {
+      return Response.json({error: "q is required"}, {status: 400})
+    }
+
+    const from = parseTimeParam(url.searchParams.get("from"))
+    const to = parseTimeParam(url.searchParams.get("to"), true)
+    if (from === null || to === null) {
+      return Response.json({error: "from and to must be epoch ms or ISO dates"}, {status: 400})
+    }
+
+    const speaker = url.searchParams.get("speaker") || undefined
+    const language = url.searchParams.get("language") || undefined
+    const limitParam = parseInt(url.searchParams.get("limit") || `${DEFAULT_SEARCH_LIMIT}`, 10)
+    const limit = isNaN(limitParam) ? DEFAULT_SEARCH_LIMIT : Math.min(Math.max(limitParam, 1), MAX_SEARCH_LIMIT)
+
+    // 1. Live buffer (includes interims that haven't been archived yet)
+    const userSession = UserSession.getUserSession(userId)
+    const liveResults = []
+    const liveIds = new Set<string>()
+    const currentConversationId = userSession?.archive.getCurrentConversationId() ?? null
+
+    if (userSession) {
+      const liveLanguage = userSession.settings.get("language")
+      const speakerFilter = speaker?.toLowerCase()
+
+      for (const entry of [...userSession.transcripts.getAll()].reverse()) {
+        const time = entry.startedAt ?? entry.receivedAt
+        if (language && language !== liveLanguage) break
+        if (from !== undefined && time < from) continue
+        if (to !== undefined && time > to) continue
+        if (speakerFilter && entry.speaker.toLowerCase() !== speakerFilter && entry.speakerId !== speaker) continue
+        if (!matchesAllTerms(entry.text, terms)) continue
+
+        liveIds.add(entry.id)
+        liveResults.push({
+          source: "live" as const,
+          sessionId: currentConversationId,
+          language: liveLanguage,
+          transcript: entry,
+          matches: findMatches(entry.text, terms),
+        })
+      }
+    }
+
+    // 2. Archive (skip entries already returned from the live buffer)
+    const archived = await getTranscriptStore().searchTranscripts(userId, {
+      terms,
+      speaker,
+      from,
+      to,
+      language,
+      limit: limit + liveIds.size,
+    })
+
+    const archiveResults = archived
+      .filter((hit) => !(hit.conversationId === currentConversationId && liveIds.has(hit.id)))
+      .map((hit) => ({
+        source: "archive" as const,
+        sessionId: hit.conversationId,
+        language: hit.language,
+        transcript: hit,
+        matches: findMatches(hit.text, terms),
+      }))
+
+    return Response.json({
+      terms,
+      results: [...liveResults, ...archiveResults].slice(0, limit),
+    })
+  }),
 }
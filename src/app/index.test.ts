@@ -0,0 +1,528 @@
+import {afterEach, beforeEach, describe, expect, test} from "bun:test"
+
+import {transcriptsRoutes} from "../api/transcripts"
+import {FakeAppSession, TestApp, USER_ID} from "./test-helpers"
+import {UserSession} from "./session/UserSession"
+import {MemoryTranscriptStore, setTranscriptStore} from "./storage"
+import {loadJapaneseDictionary} from "./transliteration/japanese"
+import {MemoryTranslator, setTranslator, type Translator} from "./translation"
+import {FakeSoundEventDetector, setSoundDetector} from "./sounds"
+import type {StoredSettings} from "./utils/SettingsSchema"
+
+describe("LiveCaptionsApp", () => {
+  let app: TestApp
+
+  beforeEach(() => {
+    setTranscriptStore(new MemoryTranscriptStore())
+    app = new TestApp({packageName: "com.test.captions", apiKey: "test-api-key", port: 0, reconnectGracePeriodMs: 50})
+  })
+
+  afterEach(() => {
+    for (const session of [...UserSession.userSessions.values(), ...UserSession.suspendedSessions.values()]) {
+      session.dispose()
+    }
+    setTranscriptStore(null)
+  })
+
+  test("should create a UserSession and subscribe with the stored language", async () => {
+    const session = new FakeAppSession()
+    session.storage.set("language", "French")
+    session.storage.set("languageHints", JSON.stringify(["en"]))
+
+    await app.connect(session, "session-1")
+
+    expect(UserSession.getUserSession(USER_ID)).toBeDefined()
+    expect(session.activeSubscriptions).toHaveLength(1)
+    expect(session.activeSubscriptions[0].locale).toBe("fr-FR")
+    expect(session.activeSubscriptions[0].hints).toEqual(["en"])
+
+    await session.emit("Bonjour", true, "u1")
+    expect(UserSession.getUserSession(USER_ID)!.transcripts.getAll().map((t) => t.text)).toEqual(["Bonjour"])
+  })
+
+  test("should re-subscribe when the language or hints change without dropping transcripts", async () => {
+    const session = new FakeAppSession()
+    await app.connect(session, "session-1")
+    await session.emit("Hello there", true, "u1")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    await userSession.settings.update({language: "es"})
+    await userSession.settings.update({languageHints: ["en"]})
+
+    expect(session.activeSubscriptions).toHaveLength(1)
+    expect(session.activeSubscriptions[0].locale).toBe("es-ES")
+    expect(session.activeSubscriptions[0].hints).toEqual(["en"])
+    expect(userSession.getActiveLocale()).toBe("es-ES")
+    expect((await userSession.settings.getAll()).activeLocale).toBe("es-ES")
+    expect(userSession.transcripts.getAll().map((t) => t.text)).toEqual(["Hello there"])
+  })
+
+  test("should subscribe in auto mode and process each utterance in its detected language", async () => {
+    const session = new FakeAppSession()
+    session.storage.set("chinesePinyin", "true")
+    await app.connect(session, "session-1")
+
+    expect(session.activeSubscriptions[0].locale).toBe("auto")
+
+    await session.emit("你好", true, "u1", {detectedLanguage: "zh"})
+    await session.emit("Hello", true, "u2", {detectedLanguage: "en"})
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    expect(userSession.transcripts.getAll().map((t) => t.detectedLanguage)).toEqual(["zh", "en"])
+    expect(session.shown.some((text) => text.includes("nǐhǎo"))).toBe(true)
+    expect(session.shown[session.shown.length - 1]).toContain("Hello")
+  })
+
+  test("should stack transliterations under the original text on the glasses", async () => {
+    await loadJapaneseDictionary()
+    const session = new FakeAppSession()
+    session.storage.set("language", "ja")
+    session.storage.set("transliterators", '["ja-romaji"]')
+    session.storage.set("glassesTransliteration", "both")
+    session.storage.set("displayLines", "5")
+    await app.connect(session, "session-1")
+
+    await session.emit("ありがとう", true, "u1")
+    await session.emit("すごい", true, "u2")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    expect(userSession.transcripts.getAll().map((t) => t.transliteration)).toEqual(["arigatou", "sugoi"])
+    expect(session.shown[session.shown.length - 1]).toBe("ありがとう\narigatou\nすごい\nsugoi")
+
+    // The webview can show the transliteration without changing the glasses
+    await userSession.settings.update({glassesTransliteration: "original", webviewTransliteration: "transliterated"})
+    await session.emit("またね", true, "u3")
+    expect(userSession.transcripts.getAll()[2].transliteration).toBe("mata ne")
+    expect(session.shown[session.shown.length - 1]).toEndWith("sugoi\nまたね")
+  })
+
+  test("should apply a settings update at once and reject stale versions", async () => {
+    const session = new FakeAppSession()
+    session.storage.set("language", "Chinese (Pinyin)")
+    session.storage.set("settingsVersion", "7")
+    await app.connect(session, "session-1")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    // Older language names are migrated on load
+    expect(userSession.settings.get("language")).toBe("zh")
+    expect(userSession.settings.get("transliterators")).toEqual(["zh-pinyin"])
+    expect(session.storage.get("settingsSchemaVersion")).toBe("2")
+
+    // Invalid values reject the whole update
+    const invalid: Record<string, unknown> = {displayLines: 4, layoutMode: "sideways"}
+    await expect(userSession.settings.update(invalid as Partial<StoredSettings>)).rejects.toThrow()
+    expect(userSession.settings.get("displayLines")).toBe(3)
+
+    expect(await userSession.settings.update({displayLines: 4, language: "de"}, 7)).toBe(true)
+    expect(userSession.settings.getVersion()).toBe(8)
+    expect(session.storage.get("displayLines")).toBe("4")
+    expect(session.activeSubscriptions[0].locale).toBe("de-DE")
+
+    // A second webview still on version 7
+    expect(await userSession.settings.update({displayLines: 2}, 7)).toBe(false)
+    expect(userSession.settings.get("displayLines")).toBe(4)
+  })
+
+  test("should tag each speaker's language and show it in the primary language in conversation mode", async () => {
+    setTranslator(new MemoryTranslator({en: {"¿Dónde está la estación?": "Where is the station?"}}))
+    const session = new FakeAppSession()
+    session.storage.set("language", "English")
+    session.storage.set("languageHints", JSON.stringify(["es"]))
+    session.storage.set("multilingual", "true")
+
+    try {
+      await app.connect(session, "session-1")
+      expect(session.activeSubscriptions[0].locale).toBe("auto")
+      expect(session.activeSubscriptions[0].hints).toEqual(["en", "es"])
+
+      await session.emit("¿Dónde está la estación?", true, "u1", {speakerId: "2", detectedLanguage: "es"})
+      expect(session.shown[session.shown.length - 1]).toContain("Where is the station?")
+
+      // Later utterances without a detection fall back to the speaker's language
+      await session.emit("Gracias", true, "u2", {speakerId: "2"})
+      await session.emit("You're welcome", true, "u3", {speakerId: "1", detectedLanguage: "en"})
+
+      const userSession = UserSession.getUserSession(USER_ID)!
+      expect(userSession.transcripts.getAll().map((t) => t.detectedLanguage)).toEqual(["es", "es", "en"])
+      expect(session.shown[session.shown.length - 1]).toContain("You're welcome")
+    } finally {
+      setTranslator(undefined)
+    }
+  })
+
+  test("should drop an interim translation that finishes after a newer one", async () => {
+    // Translations of "Hola" wait until released, so the next interim overtakes them
+    let release = () => {}
+    const translator: Translator = {
+      name: "test",
+      translate: async ({text}) => {
+        if (text === "Hola") await new Promise<void>((resolve) => (release = resolve))
+        return `[en] ${text}`
+      },
+    }
+    setTranslator(translator)
+    const session = new FakeAppSession()
+    session.storage.set("language", "es")
+    session.storage.set("translationLanguage", "en")
+
+    try {
+      await app.connect(session, "session-1")
+      const userSession = UserSession.getUserSession(USER_ID)!
+      const translations: Array<{type?: string; translatedText?: string}> = []
+      userSession.transcripts.addSSEClient({send: (data) => data.type === "translation" && translations.push(data)})
+
+      await session.emit("Hola", false, "u1")
+      await session.emit("Hola amigo", false, "u1")
+      release()
+      await Bun.sleep(10)
+
+      expect(translations.map((m) => m.translatedText)).toEqual(["[en] Hola amigo"])
+      expect(userSession.transcripts.getAll()[0].translatedText).toBe("[en] Hola amigo")
+    } finally {
+      setTranslator(undefined)
+    }
+  })
+
+  test("should show the original text when the translator fails", async () => {
+    setTranslator({
+      name: "test",
+      translate: async () => {
+        throw new Error("Service unavailable")
+      },
+    })
+    const session = new FakeAppSession()
+    session.storage.set("language", "es")
+    session.storage.set("translationLanguage", "en")
+
+    try {
+      await app.connect(session, "session-1")
+      const userSession = UserSession.getUserSession(USER_ID)!
+      const received: Array<{type?: string}> = []
+      userSession.transcripts.addSSEClient({send: (data) => received.push(data)})
+
+      await session.emit("Buenos días", true, "u1")
+
+      expect(session.shown[session.shown.length - 1]).toContain("Buenos días")
+      expect(userSession.transcripts.getAll()[0].translatedText).toBeNull()
+      expect(received.some((m) => m.type === "translation")).toBe(false)
+    } finally {
+      setTranslator(undefined)
+    }
+  })
+
+  test("should switch profiles in a single display update", async () => {
+    const session = new FakeAppSession()
+    session.storage.set("language", "English")
+    await app.connect(session, "session-1")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    const displayUpdates: number[] = []
+    const updateSettings = userSession.display.updateSettings.bind(userSession.display)
+    userSession.display.updateSettings = (width, lines, ...rest) => {
+      displayUpdates.push(lines)
+      updateSettings(width, lines, ...rest)
+    }
+
+    await userSession.settings.applyProfile("lecture")
+    expect(displayUpdates).toEqual([5])
+    expect(await userSession.settings.getActiveProfileId()).toBe("lecture")
+    // Display-only presets leave the language and the subscription alone
+    expect(userSession.settings.get("language")).toBe("en")
+    expect(session.subscriptions).toHaveLength(1)
+
+    // A new profile snapshots the current settings, with overrides
+    const spanish = await userSession.settings.createProfile("Spanish class", {language: "es", displayLines: 2})
+    expect(spanish.settings.layoutMode).toBe("rolling")
+    await userSession.settings.applyProfile(spanish.id)
+    expect(await userSession.settings.getActiveProfileId()).toBe(spanish.id)
+    expect(session.activeSubscriptions[0].locale).toBe("es-ES")
+
+    await userSession.settings.update({displayLines: 3})
+    expect(await userSession.settings.getActiveProfileId()).toBeNull()
+
+    await expect(userSession.settings.deleteProfile("lecture")).rejects.toThrow()
+    expect(await userSession.settings.deleteProfile(spanish.id)).toBe(true)
+    expect((await userSession.settings.getProfiles()).map((p) => p.id)).toEqual(["lecture", "dinner-table", "meeting"])
+  })
+
+  test("should apply replacement rules before transcripts are stored or shown", async () => {
+    const session = new FakeAppSession()
+    session.storage.set(
+      "replacementRules",
+      JSON.stringify([{id: "r1", find: "Shivon", replace: "Siobhan", regex: false, matchCase: false, wholeWord: true}]),
+    )
+    await app.connect(session, "session-1")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    await userSession.vocabulary.addRule({find: "a p i", replace: "API", regex: false, matchCase: false, wholeWord: true})
+
+    await session.emit("shivon asked about the a p i", true, "u1")
+
+    expect(userSession.transcripts.getAll()[0].text).toBe("Siobhan asked about the API")
+    expect(session.shown[session.shown.length - 1]).toContain("Siobhan asked about the API")
+    expect(JSON.parse(session.storage.get("replacementRules")!)).toHaveLength(2)
+  })
+
+  test("should show right-to-left captions with the label at the start of the RTL line", async () => {
+    const session = new FakeAppSession()
+    session.storage.set("language", "ar")
+    await app.connect(session, "session-1")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    await userSession.speakers.rename("1", "Alice")
+    await session.emit("، مرحبا بكم", true, "u1", {speakerId: "1"})
+
+    expect(session.shown[session.shown.length - 1]).toBe("\u200F[Alice]: مرحبا بكم")
+  })
+
+  test("should mask profanity before transcripts are stored or shown when the filter is on", async () => {
+    const session = new FakeAppSession()
+    session.storage.set("language", "en")
+    await app.connect(session, "session-1")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    await session.emit("this shit is fine", true, "u1")
+    expect(userSession.transcripts.getAll()[0].text).toBe("this shit is fine")
+
+    await userSession.settings.update({profanityFilter: true, profanityMaskStyle: "firstLetter", profanityDenyList: ["fine"]})
+    await session.emit("this shit is fine", true, "u2")
+
+    expect(userSession.transcripts.getAll()[1].text).toBe("this s*** is f***")
+    expect(session.shown[session.shown.length - 1]).toContain("this s*** is f***")
+  })
+
+  test("should mark keywords and alert once per utterance", async () => {
+    const session = new FakeAppSession()
+    session.storage.set("language", "en")
+    session.storage.set("alertKeywords", JSON.stringify(["Maria", "fire alarm"]))
+    await app.connect(session, "session-1")
+
+    await session.emit("maria", false, "u1")
+    await session.emit("maria can you", false, "u1")
+    await session.emit("Maria, can you check the fire alarm?", true, "u1")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    expect(userSession.transcripts.getAll()[0].keywords).toEqual(["Maria", "fire alarm"])
+    expect(session.cards).toEqual([
+      {title: "Maria", text: "MARIA"},
+      {title: "fire alarm", text: "MARIA, can you check the FIRE ALARM?"},
+    ])
+
+    // Notifications off: still marked, no card
+    await userSession.settings.update({keywordNotifications: false})
+    await session.emit("Fire alarm drill at noon", true, "u2")
+    expect(userSession.transcripts.getAll()[1].keywords).toEqual(["fire alarm"])
+    expect(session.cards).toHaveLength(2)
+  })
+
+  test("should show the name banner, pausing captions, when someone says the wearer's name", async () => {
+    const session = new FakeAppSession()
+    session.storage.set("language", "en")
+    session.storage.set("nameAlert", "true")
+    session.storage.set("wearerNames", JSON.stringify(["Robert", "Bobby"]))
+    session.storage.set("alertKeywords", JSON.stringify(["Bobby"]))
+    await app.connect(session, "session-1")
+
+    await session.emit("Bobby, over here", true, "u1")
+    const shownBefore = session.shown.length
+    await session.emit("Are you coming?", true, "u2")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    expect(userSession.transcripts.getAll().map((t) => t.nameCalled)).toEqual([true, false])
+    // One banner, not an extra keyword card
+    expect(session.cards).toEqual([{title: "Someone said your name", text: "BOBBY, over here"}])
+    // Captions are held while the banner is up
+    expect(session.shown).toHaveLength(shownBefore)
+  })
+
+  test("should caption enabled sound events inline and skip disabled ones", async () => {
+    const detector = new FakeSoundEventDetector()
+    setSoundDetector(detector)
+    const session = new FakeAppSession()
+    session.storage.set("language", "en")
+    session.storage.set("soundEventCategories", JSON.stringify(["knock", "alarm"]))
+
+    try {
+      await app.connect(session, "session-1")
+      expect(detector.listenerCount).toBe(1)
+
+      await session.emit("Come in", true, "u1", {speakerId: "1"})
+      detector.emit({category: "knock", confidence: 0.9})
+      detector.emit({category: "music", confidence: 0.8})
+      detector.emit({category: "alarm", label: "smoke alarm", confidence: 0.95})
+
+      const userSession = UserSession.getUserSession(USER_ID)!
+      expect(userSession.transcripts.getAll().map((t) => [t.text, t.soundEvent])).toEqual([
+        ["Come in", null],
+        ["[door knock]", "knock"],
+        ["[smoke alarm]", "alarm"],
+      ])
+      expect(session.shown[session.shown.length - 1]).toContain("Come in [door knock] [smoke alarm]")
+      expect((await userSession.settings.getAll()).soundEventsAvailable).toBe(true)
+
+      await app.disconnect("session-1")
+      expect(detector.listenerCount).toBe(0)
+    } finally {
+      setSoundDetector(undefined)
+    }
+  })
+
+  test("should pick the display profile from the connected glasses unless one is pinned", async () => {
+    const session = new FakeAppSession()
+    session.storage.set("language", "en")
+    session.storage.set("displayWidth", "2")
+    session.deviceState.appVersion = "2.0.0"
+
+    await app.connect(session, "session-1")
+    const userSession = UserSession.getUserSession(USER_ID)!
+    // Unknown glasses and client: the legacy G1 profile fits everywhere
+    expect(userSession.display.getProfile().id).toBe("even-realities-g1-legacy")
+
+    session.connectGlasses("Vuzix Z100", 7)
+    expect(userSession.display.getProfile().id).toBe("vuzix-z100")
+    expect((await userSession.settings.getAll()).activeDisplayProfile).toBe("vuzix-z100")
+
+    expect(await userSession.settings.update({displayProfile: "even-realities-g1"})).toBe(true)
+    expect(userSession.display.getProfile().id).toBe("even-realities-g1")
+
+    session.connectGlasses("Simulated Glasses", 7)
+    expect(userSession.display.getProfile().id).toBe("even-realities-g1")
+
+    await app.disconnect("session-1")
+    expect(session.capabilityHandlers.size).toBe(0)
+  })
+
+  test("should hold finals for the hold time, or until replaced without fade after silence", async () => {
+    const session = new FakeAppSession()
+    await app.connect(session, "session-1")
+    const userSession = UserSession.getUserSession(USER_ID)!
+
+    userSession.display.updateTiming(40, 5, true)
+    await session.emit("Hello", false, "u1")
+    expect(session.durations[session.durations.length - 1]).toBeUndefined()
+    await session.emit("Hello there", true, "u1")
+    expect(session.durations[session.durations.length - 1]).toBe(5000)
+
+    userSession.display.updateTiming(40, 5, false)
+    await session.emit("Still here", true, "u2")
+    expect(session.shown[session.shown.length - 1]).toContain("Still here")
+    expect(session.durations[session.durations.length - 1]).toBeUndefined()
+  })
+
+  test("should re-arm the running clear timer when the timing changes", async () => {
+    const session = new FakeAppSession()
+    await app.connect(session, "session-1")
+    const userSession = UserSession.getUserSession(USER_ID)!
+
+    await session.emit("Hello there", true, "u1")
+    userSession.display.updateTiming(0.05, 20, true)
+    await Bun.sleep(100)
+
+    expect(session.shown[session.shown.length - 1]).toBe("")
+    expect(userSession.display.getFinalTranscriptHistory()).toEqual([])
+  })
+
+  test("should never clear the glasses when the clear timeout is 0", async () => {
+    const session = new FakeAppSession()
+    await app.connect(session, "session-1")
+    const userSession = UserSession.getUserSession(USER_ID)!
+
+    userSession.display.updateTiming(0.05, 20, true)
+    await session.emit("Hello there", true, "u1")
+    userSession.display.updateTiming(0, 20, true)
+    await Bun.sleep(100)
+
+    expect(session.shown[session.shown.length - 1]).toContain("Hello there")
+    expect(userSession.display.getFinalTranscriptHistory()).toHaveLength(1)
+  })
+
+  test("should export the whole current conversation, not just the capped live buffer", async () => {
+    const session = new FakeAppSession()
+    await app.connect(session, "session-1")
+    for (let i = 0; i <= 100; i++) {
+      await session.emit(`Line ${i}`, true, `u${i}`)
+    }
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    expect(userSession.transcripts.getAll()[0].text).not.toBe("Line 0")
+
+    const response = await transcriptsRoutes["/api/transcripts/export"](
+      new Request("http://localhost/api/transcripts/export?format=txt", {headers: {"x-auth-user-id": USER_ID}}),
+    )
+    const lines = (await response.text()).split("\n").filter((line) => line.includes("Line "))
+    expect(lines).toHaveLength(101)
+    expect(lines[0]).toContain("Line 0")
+    expect(lines[100]).toContain("Line 100")
+  })
+
+  test("should stop serving a stopped session but keep it for the grace period", async () => {
+    const session = new FakeAppSession()
+    await app.connect(session, "session-1")
+    await app.disconnect("session-1")
+
+    expect(UserSession.getUserSession(USER_ID)).toBeUndefined()
+    expect(UserSession.getSuspendedSession(USER_ID)).toBeDefined()
+    expect(session.activeSubscriptions).toHaveLength(0)
+  })
+
+  test("should resume the stopped session when onSession fires again", async () => {
+    const first = new FakeAppSession()
+    await app.connect(first, "session-1")
+    await first.emit("Hello there", true, "u1")
+
+    const userSession = UserSession.getUserSession(USER_ID)!
+    const received: Array<{type?: string; text?: string}> = []
+    userSession.transcripts.addSSEClient({send: (data) => received.push(data)})
+
+    await app.disconnect("session-1")
+
+    const second = new FakeAppSession()
+    second.storage.set("language", "German")
+    second.storage.set("displayLines", "4")
+    await app.connect(second, "session-2")
+
+    // Same session, transcripts kept, settings read from the new AppSession
+    expect(UserSession.getUserSession(USER_ID)).toBe(userSession)
+    expect(UserSession.getSuspendedSession(USER_ID)).toBeUndefined()
+    expect(userSession.transcripts.getAll().map((t) => t.text)).toEqual(["Hello there"])
+    expect(userSession.settings.get("displayLines")).toBe(4)
+
+    // Transcription re-subscribed on the new AppSession only
+    expect(first.activeSubscriptions).toHaveLength(0)
+    expect(second.activeSubscriptions).toHaveLength(1)
+    expect(second.activeSubscriptions[0].locale).toBe("de-DE")
+
+    // SSE clients still receive new transcripts
+    await second.emit("Welcome back", true, "u2")
+    expect(userSession.transcripts.getAll().map((t) => t.text)).toEqual(["Hello there", "Welcome back"])
+    expect(received.some((m) => m.type === "final" && m.text === "Welcome back")).toBe(true)
+  })
+
+  test("should dispose the session once the grace period expires", async () => {
+    const first = new FakeAppSession()
+    await app.connect(first, "session-1")
+    await first.emit("Hello there", true, "u1")
+    const stopped = UserSession.getUserSession(USER_ID)
+    await app.disconnect("session-1")
+
+    await Bun.sleep(100)
+    expect(UserSession.getSuspendedSession(USER_ID)).toBeUndefined()
+
+    // A later onSession starts a fresh UserSession
+    const second = new FakeAppSession()
+    await app.connect(second, "session-2")
+    expect(UserSession.getUserSession(USER_ID)).not.toBe(stopped)
+  })
+
+  test("should ignore onStop for a session that was already replaced", async () => {
+    const first = new FakeAppSession()
+    await app.connect(first, "session-1")
+
+    const second = new FakeAppSession()
+    await app.connect(second, "session-2")
+    await app.disconnect("session-1")
+
+    expect(UserSession.getUserSession(USER_ID)).toBeDefined()
+    expect(second.activeSubscriptions).toHaveLength(1)
+  })
+})
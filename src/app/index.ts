@@ -2,20 +2,32 @@ import path from "path";
 
 import { AppServer, AppSession } from "@mentra/sdk";
 
-import { UserSession } from "./session/UserSession";
+import {
+  RECONNECT_GRACE_PERIOD_MS,
+  UserSession,
+} from "./session/UserSession";
 
 /**
  * LiveCaptionsApp - Main application class that extends AppServer
  *
  * This is a minimal entry point that delegates all logic to the UserSession
  * and its managers (TranscriptsManager, SettingsManager, DisplayManager).
+ *
+ * Stopped sessions are kept for a grace period so that an SDK reconnect
+ * (which calls onSession again for the same user) picks up the existing
+ * transcripts, settings and webview connections instead of starting empty.
  */
 export class LiveCaptionsApp extends AppServer {
+  private readonly reconnectGracePeriodMs: number;
+  // Latest SDK session ID per user, to ignore onStop for sessions already replaced
+  private readonly currentSessionIds: Map<string, string> = new Map();
+
   constructor(config: {
     packageName: string;
     apiKey: string;
     port: number;
     publicDir?: string;
+    reconnectGracePeriodMs?: number;
   }) {
     super({
       packageName: config.packageName,
@@ -23,6 +35,8 @@ export class LiveCaptionsApp extends AppServer {
       port: config.port,
       publicDir: path.join(__dirname, "./public"),
     });
+    this.reconnectGracePeriodMs =
+      config.reconnectGracePeriodMs ?? RECONNECT_GRACE_PERIOD_MS;
   }
 
   /**
@@ -37,6 +51,19 @@ export class LiveCaptionsApp extends AppServer {
       `\n\n🗣️🗣️🗣️ New session for user ${userId}, session ${sessionId}\n\n`,
     );
 
+    this.currentSessionIds.set(userId, sessionId);
+
+    // Reconnect: resume the existing (or recently stopped) session
+    const existing =
+      UserSession.getUserSession(userId) ??
+      UserSession.getSuspendedSession(userId);
+
+    if (existing) {
+      await existing.resume(session);
+      console.log(`🔄 Session resumed for user ${userId}`);
+      return;
+    }
+
     const userSession = new UserSession(session);
 
     try {
@@ -58,6 +85,14 @@ export class LiveCaptionsApp extends AppServer {
     reason: string,
   ): Promise<void> {
     console.log(`Session ${sessionId} stopped: ${reason}`);
-    UserSession.getUserSession(userId)?.dispose();
+
+    if (this.currentSessionIds.get(userId) !== sessionId) {
+      console.log(`Ignoring stop for replaced session ${sessionId}`);
+      return;
+    }
+    this.currentSessionIds.delete(userId);
+
+    // Keep the session around in case the SDK reconnects
+    UserSession.getUserSession(userId)?.suspend(this.reconnectGracePeriodMs);
   }
 }
@@ -0,0 +1,165 @@
+import {beforeEach, describe, expect, test} from "bun:test"
+
+import {ArchiveManager} from "./ArchiveManager"
+import {SpeakersManager} from "./SpeakersManager"
+import type {TranscriptEntry} from "./TranscriptsManager"
+import type {UserSession} from "./UserSession"
+import {MemoryTranscriptStore, setTranscriptStore, type NewConversation} from "../storage"
+import {createSilentLogger, USER_ID} from "../test-helpers"
+import {defaultSettings, type StoredSettings} from "../utils/SettingsSchema"
+
+/**
+ * Memory store whose createConversation resolves on a later tick, like a
+ * store backed by a database server
+ */
+class SlowTranscriptStore extends MemoryTranscriptStore {
+  async createConversation(userId: string, conversation: NewConversation) {
+    await Bun.sleep(5)
+    return super.createConversation(userId, conversation)
+  }
+}
+
+/**
+ * The parts of UserSession ArchiveManager uses, with the real SpeakersManager
+ */
+interface FakeUserSession {
+  userId: string
+  logger: UserSession["logger"]
+  settings: {get<K extends keyof StoredSettings>(key: K): StoredSettings[K]}
+  transcripts: {
+    restore(entries: TranscriptEntry[]): void
+    transliterate(): null
+    formatTimestamp(): string
+  }
+  speakers: SpeakersManager
+  // Entries handed to transcripts.restore()
+  restored: TranscriptEntry[]
+}
+
+function createArchive(): {archive: ArchiveManager; session: FakeUserSession} {
+  const settings = defaultSettings()
+  const fields: Omit<FakeUserSession, "speakers"> = {
+    userId: USER_ID,
+    logger: createSilentLogger(),
+    settings: {get: (key) => settings[key]},
+    transcripts: {
+      restore(entries) {
+        fields.restored = entries
+      },
+      transliterate: () => null,
+      formatTimestamp: () => "12:00 PM",
+    },
+    restored: [],
+  }
+  const userSession = fields as unknown as UserSession
+  const session = Object.assign(fields, {speakers: new SpeakersManager(userSession)})
+  return {archive: new ArchiveManager(userSession), session}
+}
+
+function finalEntry(id: string, receivedAt: number, speakerId = "1"): TranscriptEntry {
+  return {
+    id,
+    utteranceId: id,
+    speakerId,
+    speaker: `Speaker ${speakerId}`,
+    text: `Utterance ${id}`,
+    translatedText: null,
+    transliteration: null,
+    detectedLanguage: null,
+    keywords: [],
+    nameCalled: false,
+    soundEvent: null,
+    timestamp: null,
+    startedAt: null,
+    endedAt: null,
+    isFinal: true,
+    receivedAt,
+  }
+}
+
+describe("ArchiveManager", () => {
+  let store: MemoryTranscriptStore
+
+  beforeEach(() => {
+    store = new SlowTranscriptStore()
+    setTranscriptStore(store)
+  })
+
+  test("should put finals that arrive while the conversation is being created into it", async () => {
+    const {archive} = createArchive()
+    const now = Date.now()
+
+    archive.record(finalEntry("u1", now))
+    archive.record(finalEntry("u2", now + 1000))
+    await archive.flush()
+
+    const conversations = await store.listConversations(USER_ID)
+    expect(conversations).toHaveLength(1)
+    expect(conversations[0].transcriptCount).toBe(2)
+  })
+
+  test("should start a new conversation after a long silence and forget its speaker names", async () => {
+    const {archive, session} = createArchive()
+    const now = Date.now()
+
+    session.speakers.loadConversation({"1": "Alice"})
+    archive.record({...finalEntry("u1", now), speaker: "Alice"})
+    archive.record(finalEntry("u2", now + 5 * 60 * 1000))
+    archive.record(finalEntry("u3", now + 16 * 60 * 1000))
+    await archive.flush()
+
+    const [latest, first] = await store.listConversations(USER_ID)
+    expect(first.transcriptCount).toBe(2)
+    expect(latest.transcriptCount).toBe(1)
+    expect(latest.startedAt).toBe(now + 16 * 60 * 1000)
+    expect((await store.getTranscripts(USER_ID, latest.id)).map((t) => t.speaker)).toEqual(["Speaker 1"])
+    expect(session.speakers.getName("1")).toBeNull()
+  })
+
+  test("should resume a conversation that ended recently", async () => {
+    const endedAt = Date.now() - 60 * 1000
+    await store.createConversation(USER_ID, {id: "c1", startedAt: endedAt - 1000, language: "en"})
+    await store.appendTranscript(USER_ID, {
+      id: "u1",
+      conversationId: "c1",
+      utteranceId: "u1",
+      speakerId: "1",
+      speaker: "Alice",
+      text: "Before the reconnect",
+      startedAt: null,
+      endedAt: null,
+      receivedAt: endedAt,
+    })
+    await store.setSpeakerName(USER_ID, "c1", "1", "Alice", "Alice")
+
+    const {archive, session} = createArchive()
+    await archive.initialize()
+
+    expect(archive.getCurrentConversationId()).toBe("c1")
+    expect(session.restored.map((entry) => entry.text)).toEqual(["Before the reconnect"])
+    expect(session.speakers.getName("1")).toBe("Alice")
+
+    archive.record(finalEntry("u2", Date.now()))
+    await archive.flush()
+
+    const conversations = await store.listConversations(USER_ID)
+    expect(conversations).toHaveLength(1)
+    expect(conversations[0].transcriptCount).toBe(2)
+  })
+
+  test("should not resume a conversation that ended before the gap", async () => {
+    const endedAt = Date.now() - 11 * 60 * 1000
+    await store.createConversation(USER_ID, {id: "c1", startedAt: endedAt, language: "en"})
+
+    const {archive, session} = createArchive()
+    await archive.initialize()
+
+    expect(archive.getCurrentConversationId()).toBeNull()
+    expect(session.restored).toEqual([])
+
+    archive.record(finalEntry("u1", Date.now()))
+    await archive.flush()
+
+    expect(await store.listConversations(USER_ID)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,187 @@
+import {randomUUID} from "crypto"
+
+import {UserSession} from "./UserSession"
+import type {TranscriptEntry} from "./TranscriptsManager"
+import {getTranscriptStore, type ConversationRecord, type TranscriptStore} from "../storage"
+import {displayLanguage} from "../utils/DisplayText"
+import {findKeywords} from "../utils/KeywordAlerts"
+
+/**
+ * Silence longer than this ends the current conversation; the next final
+ * transcript starts a new one.
+ */
+const CONVERSATION_GAP_MS = 10 * 60 * 1000
+
+/**
+ * ArchiveManager - persists finalized transcripts so they survive dispose()
+ *
+ * Groups finals into conversations by start/end time. When a new UserSession
+ * starts shortly after the previous one ended (onStop + reconnect), the last
+ * conversation is resumed and its transcripts are restored to the live list.
+ */
+export class ArchiveManager {
+  readonly userSession: UserSession
+  readonly logger: UserSession["logger"]
+
+  private readonly store: TranscriptStore
+  private conversation: ConversationRecord | null = null
+  // Set as soon as a final is recorded, before the queued createConversation
+  // resolves, so finals arriving meanwhile join the same conversation
+  private conversationOpen = false
+  private lastActivityAt = 0
+  // Serializes store writes so a conversation is created before its first transcript is appended
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(userSession: UserSession) {
+    this.userSession = userSession
+    this.logger = userSession.logger.child({service: "ArchiveManager"})
+    this.store = getTranscriptStore()
+  }
+
+  /**
+   * Resume the most recent conversation if it ended within the gap window
+   * and restore its transcripts into TranscriptsManager.
+   */
+  async initialize(): Promise<void> {
+    try {
+      const [latest] = await this.store.listConversations(this.userSession.userId, {limit: 1})
+      if (!latest || Date.now() - latest.endedAt > CONVERSATION_GAP_MS) {
+        return
+      }
+
+      this.conversation = latest
+      this.conversationOpen = true
+      this.lastActivityAt = latest.endedAt
+      this.userSession.speakers.loadConversation(
+        await this.store.getSpeakerNames(this.userSession.userId, latest.id),
+      )
+
+      const archived = await this.store.getTranscripts(this.userSession.userId, latest.id)
+      // The archive doesn't keep translations or detected languages, so only
+      // the caption language is known
+      const settings = this.userSession.settings
+      const language = displayLanguage(settings.get("multilingual") ? "auto" : settings.get("language"), null)
+      this.userSession.transcripts.restore(
+        archived.map((t) => ({
+          id: t.id,
+          utteranceId: t.utteranceId,
+          speakerId: t.speakerId,
+          speaker: t.speaker,
+          text: t.text,
+          translatedText: null,
+          transliteration: this.userSession.transcripts.transliterate(t.text, language),
+          detectedLanguage: null,
+          keywords: findKeywords(t.text, this.userSession.settings.get("alertKeywords")),
+          nameCalled:
+            this.userSession.settings.get("nameAlert") &&
+            findKeywords(t.text, this.userSession.settings.get("wearerNames")).length > 0,
+          soundEvent: null,
+          timestamp: this.userSession.transcripts.formatTimestamp(new Date(t.receivedAt)),
+          startedAt: t.startedAt,
+          endedAt: t.endedAt,
+          isFinal: true,
+          receivedAt: t.receivedAt,
+        })),
+      )
+
+      this.logger.info(
+        {conversationId: latest.id, restored: archived.length},
+        "Resumed recent conversation from archive",
+      )
+    } catch (error) {
+      this.logger.error({error}, "Failed to resume conversation from archive")
+    }
+  }
+
+  /**
+   * Persist a final transcript entry. Interim entries are ignored.
+   */
+  record(entry: TranscriptEntry): void {
+    if (!entry.isFinal || !entry.text.trim()) return
+
+    const startsNewConversation =
+      !this.conversationOpen || entry.receivedAt - this.lastActivityAt > CONVERSATION_GAP_MS
+    const hadConversation = this.conversationOpen
+    this.lastActivityAt = entry.receivedAt
+    this.conversationOpen = true
+
+    // Names given in the previous conversation don't carry over (remembered profiles do)
+    if (startsNewConversation && hadConversation) {
+      this.userSession.speakers.resetConversation()
+      entry.speaker = this.userSession.speakers.getLabel(entry.speakerId)
+    }
+
+    this.queue = this.queue
+      .then(async () => {
+        if (startsNewConversation) {
+          await this.startConversation(entry.receivedAt)
+        }
+        if (!this.conversation) return
+
+        await this.store.appendTranscript(this.userSession.userId, {
+          id: entry.id,
+          conversationId: this.conversation.id,
+          utteranceId: entry.utteranceId,
+          speakerId: entry.speakerId,
+          speaker: entry.speaker,
+          text: entry.text,
+          startedAt: entry.startedAt,
+          endedAt: entry.endedAt,
+          receivedAt: entry.receivedAt,
+        })
+      })
+      .catch((error) => {
+        this.logger.error({error}, "Failed to archive transcript")
+      })
+  }
+
+  private async startConversation(startedAt: number): Promise<void> {
+    const language = this.userSession.settings.get("language")
+    this.conversation = await this.store.createConversation(this.userSession.userId, {
+      id: randomUUID(),
+      startedAt,
+      language,
+    })
+    this.logger.info({conversationId: this.conversation.id}, "Started new archived conversation")
+
+    // Persist speakers named before the first final arrived
+    for (const [speakerId, name] of Object.entries(this.userSession.speakers.getAll().names)) {
+      await this.store.setSpeakerName(this.userSession.userId, this.conversation.id, speakerId, name, name)
+    }
+  }
+
+  /**
+   * Record a speaker rename against the current conversation
+   */
+  renameSpeaker(speakerId: string, name: string | null, label: string): void {
+    this.queue = this.queue
+      .then(async () => {
+        if (!this.conversation) return
+        await this.store.setSpeakerName(this.userSession.userId, this.conversation.id, speakerId, name, label)
+      })
+      .catch((error) => {
+        this.logger.error({error}, "Failed to archive speaker name")
+      })
+  }
+
+  /**
+   * ID of the conversation currently being recorded, if any.
+   */
+  getCurrentConversationId(): string | null {
+    return this.conversation?.id ?? null
+  }
+
+  /**
+   * Resolves once all pending writes have reached the store.
+   */
+  flush(): Promise<void> {
+    return this.queue
+  }
+
+  dispose(): void {
+    // Pending writes still complete; the conversation's endedAt is already
+    // up to date because the store tracks it on every append.
+    this.conversation = null
+    this.conversationOpen = false
+  }
+}
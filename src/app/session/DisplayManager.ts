@@ -3,22 +3,64 @@ import { ViewType } from "@mentra/sdk";
 import {
   CaptionsFormatter,
   G1_PROFILE_LEGACY,
-  G1_PROFILE,
+  type FormatResult,
+  type LayoutMode,
+  type DisplayProfile,
   type TranscriptHistoryEntry,
 } from "../utils/CaptionsFormatter";
+import {
+  AUTO_DISPLAY_PROFILE,
+  selectDisplayProfile,
+  type DeviceInfo,
+} from "../utils/DisplayProfiles";
+import { InterimStabilizer } from "../utils/InterimStabilizer";
 import { UserSession } from "./UserSession";
 
+// How long a keyword alert card covers the captions
+const ALERT_DURATION_MS = 3000;
+// How long the name-called banner holds the captions
+const NAME_ALERT_DURATION_MS = 5000;
+const NAME_ALERT_TITLE = "Someone said your name";
+
+// Punctuation a caption line shouldn't start with
+// Western: . , ; : ! ?  Chinese: 。 ， ； ： ！ ？
+// Arabic/Persian/Urdu: ، ؛ ؟ ۔  Hebrew: ׃
+const LEADING_PUNCTUATION = /^[.,;:!?。，；：！？\u060C\u061B\u061F\u06D4\u05C3]+/;
+// Optional right-to-left mark, then an optional speaker label like [1]: or [Alice]:
+const LINE_PREFIX = /^(\u200F)?(\[[^\]]+\]:\s*)?/;
+
 export class DisplayManager {
   private formatter: CaptionsFormatter;
   private inactivityTimer: NodeJS.Timeout | null = null;
   private readonly userSession: UserSession;
   private readonly logger: UserSession["logger"];
   private lastSpeakerId: string | undefined = undefined; // Track last speaker for change detection
+  private pendingSpeakerChange: boolean = false; // Speaker change not yet passed to the formatter
+
+  // Holds back unstable interim words and rate-limits interim repaints
+  private readonly stabilizer = new InterimStabilizer();
+  private stabilizerTimer: NodeJS.Timeout | null = null;
+
+  // Connected glasses and the profile picked for them (or pinned in settings)
+  private device: DeviceInfo = { modelName: null, clientVersion: null };
+  private profileOverride: string = AUTO_DISPLAY_PROFILE;
+  private profile: DisplayProfile = G1_PROFILE_LEGACY;
 
   // Current display settings
+  private displayWidthSetting: number = 2;
+  private numberOfLinesSetting: number = G1_PROFILE_LEGACY.maxLines;
   private currentDisplayWidthPx: number = G1_PROFILE_LEGACY.displayWidthPx;
   private currentMaxLines: number = G1_PROFILE_LEGACY.maxLines;
   private currentWordBreaking: boolean = true;
+  private currentLayoutMode: LayoutMode = "rolling";
+
+  // Caption timing (updated by SettingsManager)
+  private clearTimeoutMs: number = 40000; // 0 = never clear
+  private finalHoldMs: number = 20000;
+  private fadeAfterSilence: boolean = true;
+
+  // Set while a keyword alert card is on the glasses
+  private alertTimer: NodeJS.Timeout | null = null;
 
   constructor(userSession: UserSession) {
     this.userSession = userSession;
@@ -26,11 +68,24 @@ export class DisplayManager {
 
     // Initialize with defaults (will be updated by SettingsManager)
     // Using character breaking mode for 100% line utilization
-    this.formatter = new CaptionsFormatter(G1_PROFILE_LEGACY, {
+    this.formatter = this.createFormatter();
+  }
+
+  /**
+   * Create a formatter for the current display settings
+   * breakMode: 'character' = break mid-word with hyphens for 100% utilization
+   * breakMode: 'word' = break at word boundaries only (no hyphens mid-word)
+   * Chinese, Japanese and Korean text always breaks between words (no hyphens)
+   */
+  private createFormatter(): CaptionsFormatter {
+    return new CaptionsFormatter(this.profile, {
       maxFinalTranscripts: 30,
       breakMode: this.currentWordBreaking ? "character" : "word",
       displayWidthPx: this.currentDisplayWidthPx,
       maxLines: this.currentMaxLines,
+      layoutMode: this.currentLayoutMode,
+      speakerLabel: (speakerId) =>
+        this.userSession.speakers.getName(speakerId) ?? speakerId,
     });
   }
 
@@ -40,15 +95,69 @@ export class DisplayManager {
    * @param displayWidth - Display width setting: 0=Narrow (50%), 1=Medium (75%), 2=Wide (100%)
    * @param numberOfLines - Maximum number of lines to display (2-5)
    * @param wordBreaking - Whether to break words with hyphens (true) or only at word boundaries (false)
+   * @param layoutMode - How captions are laid out (rolling, utterance, paged, split)
+   * @param profileId - Display profile to use, or "auto" to pick it from the device
    */
   updateSettings(
     displayWidth: number,
     numberOfLines: number,
     wordBreaking: boolean = true,
+    layoutMode: LayoutMode = "rolling",
+    profileId: string = AUTO_DISPLAY_PROFILE,
   ): void {
+    this.displayWidthSetting = displayWidth;
+    this.numberOfLinesSetting = numberOfLines;
+    this.currentWordBreaking = wordBreaking;
+    this.currentLayoutMode = layoutMode;
+    this.profileOverride = profileId;
+    this.profile = selectDisplayProfile(this.device, this.profileOverride);
+
+    this.applyProfile();
+  }
+
+  /**
+   * Update what is known about the connected glasses and phone, switching
+   * display profile if the device calls for a different one
+   */
+  setDevice(device: DeviceInfo): void {
+    this.device = device;
+    const profile = selectDisplayProfile(device, this.profileOverride);
+    if (
+      profile.id === this.profile.id &&
+      profile.maxLines === this.profile.maxLines
+    ) {
+      return;
+    }
+
+    this.logger.info(
+      `Display profile for ${device.modelName ?? "unknown glasses"} (client ${
+        device.clientVersion ?? "unknown"
+      }): ${profile.id}`,
+    );
+    this.profile = profile;
+    this.applyProfile();
+
+    // Open webviews show which profile is in use
+    this.userSession.settings.broadcastSettingsUpdate();
+  }
+
+  /**
+   * The profile captions are currently formatted with
+   */
+  getProfile(): DisplayProfile {
+    return this.profile;
+  }
+
+  /**
+   * Recompute the layout for the current profile and settings, then rebuild
+   * the formatter keeping its history
+   */
+  private applyProfile(): void {
+    const displayWidth = this.displayWidthSetting;
+
     // Convert width setting to pixels as percentage of max display width
-    // 0 = Narrow (50%), 1 = Medium (75%), 2 = Wide (100%)
-    const maxWidthPx = G1_PROFILE_LEGACY.displayWidthPx;
+    // 0 = Narrow (70%), 1 = Medium (85%), 2 = Wide (100%)
+    const maxWidthPx = this.profile.displayWidthPx;
     let widthPercent: number;
     switch (displayWidth) {
       case 0: // Narrow
@@ -63,30 +172,30 @@ export class DisplayManager {
         break;
     }
     this.currentDisplayWidthPx = Math.round(maxWidthPx * widthPercent);
-    this.currentMaxLines = Math.min(Math.max(2, numberOfLines), 5); // Clamp between 2-5
-    this.currentWordBreaking = wordBreaking;
+    // Clamp between 2 and what the glasses can show
+    this.currentMaxLines = Math.min(
+      Math.max(2, this.numberOfLinesSetting),
+      this.profile.maxLines,
+    );
 
     this.logger.info(
-      `Settings update: displayWidth=${displayWidth} (${widthPercent * 100}% = ${
+      `Settings update: profile=${this.profile.id}, displayWidth=${displayWidth} (${widthPercent * 100}% = ${
         this.currentDisplayWidthPx
-      }px), lines=${this.currentMaxLines}, wordBreaking=${this.currentWordBreaking}`,
+      }px), lines=${this.currentMaxLines}, wordBreaking=${this.currentWordBreaking}, layout=${this.currentLayoutMode}`,
     );
 
     // Get previous transcript history to preserve it
     const previousHistory = this.formatter.getFinalTranscriptHistory();
 
     // Create new formatter with updated settings
-    // breakMode: 'character' = break mid-word with hyphens for 100% utilization
-    // breakMode: 'word' = break at word boundaries only (no hyphens mid-word)
-    this.formatter = new CaptionsFormatter(G1_PROFILE_LEGACY, {
-      maxFinalTranscripts: 30,
-      breakMode: this.currentWordBreaking ? "character" : "word",
-      displayWidthPx: this.currentDisplayWidthPx,
-      maxLines: this.currentMaxLines,
-    });
+    this.formatter = this.createFormatter();
 
     // Restore transcript history (with speaker info preserved)
     for (const entry of previousHistory) {
+      if (entry.sound) {
+        this.formatter.processSoundEvent(entry.text.slice(1, -1));
+        continue;
+      }
       this.formatter.processTranscription(
         entry.text,
         true,
@@ -103,11 +212,45 @@ export class DisplayManager {
     this.refreshDisplay();
   }
 
+  /**
+   * Update caption timing
+   *
+   * @param clearTimeoutSeconds - Silence before history and glasses are cleared (0 = never)
+   * @param finalHoldSeconds - How long a final caption stays on the glasses
+   * @param fadeAfterSilence - Whether finals disappear after the hold time (false = stay until replaced)
+   */
+  updateTiming(
+    clearTimeoutSeconds: number,
+    finalHoldSeconds: number,
+    fadeAfterSilence: boolean,
+  ): void {
+    this.clearTimeoutMs = clearTimeoutSeconds * 1000;
+    this.finalHoldMs = finalHoldSeconds * 1000;
+    this.fadeAfterSilence = fadeAfterSilence;
+
+    this.logger.info(
+      `Timing update: clearTimeout=${clearTimeoutSeconds}s, finalHold=${finalHoldSeconds}s, fadeAfterSilence=${fadeAfterSilence}`,
+    );
+
+    // Re-arm the inactivity timer with the new timeout if captions are showing
+    if (this.inactivityTimer) {
+      this.resetInactivityTimer();
+    }
+  }
+
+  /**
+   * Display duration for a caption: finals fade after the hold time unless
+   * the user wants them to stay up; interims stay until replaced.
+   */
+  private getDurationMs(isFinal: boolean): number | undefined {
+    return isFinal && this.fadeAfterSilence ? this.finalHoldMs : undefined;
+  }
+
   /**
    * Refresh the display with current transcript history using current settings
-   * Called after settings change to show instant preview
+   * Called after settings change (and speaker renames) to show instant preview
    */
-  private refreshDisplay(): void {
+  refreshDisplay(): void {
     const history = this.formatter.getFinalTranscriptHistory();
 
     if (history.length === 0) {
@@ -125,32 +268,11 @@ export class DisplayManager {
     );
 
     if (result.displayText.trim()) {
-      const cleaned = this.cleanTranscriptText(result.displayText);
-      const lines = cleaned.split("\n");
-
       this.logger.info(
-        `Refreshing display with new settings: ${lines.length} lines`,
+        `Refreshing display with new settings: ${result.lines.length} lines`,
       );
 
-      // Send to glasses
-      try {
-        this.userSession.appSession.layouts.showTextWall(cleaned, {
-          view: ViewType.MAIN,
-          durationMs: 20000,
-        });
-      } catch (err) {
-        this.logger.warn(
-          { err },
-          "Failed to refresh display - connection may be closed",
-        );
-      }
-
-      // Broadcast to webview preview
-      this.userSession.transcripts.broadcastDisplayPreview(
-        cleaned,
-        lines,
-        true,
-      );
+      this.showOnGlasses(result, true);
     }
   }
 
@@ -170,6 +292,7 @@ export class DisplayManager {
         `Speaker changed: ${this.lastSpeakerId || "none"} -> ${speakerId}`,
       );
       this.lastSpeakerId = speakerId;
+      this.pendingSpeakerChange = true;
     }
 
     this.logger.info(
@@ -178,7 +301,80 @@ export class DisplayManager {
       }, changed: ${speakerChanged})`,
     );
 
-    // Process using the new formatter
+    this.resetInactivityTimer();
+
+    const stabilized = this.stabilizer.process(text, isFinal);
+
+    if (isFinal) {
+      this.cancelStabilizerFlush();
+    }
+
+    if (stabilized === null) {
+      // Nothing new is stable yet, or the last repaint was too recent
+      this.scheduleStabilizerFlush();
+      return;
+    }
+
+    this.display(stabilized, isFinal, speakerId);
+  }
+
+  /**
+   * Show a short alert card on the glasses, e.g. for a keyword
+   *
+   * Captions keep going to the formatter and the webview preview while the
+   * card is up; the glasses catch up once it's gone.
+   */
+  showAlert(
+    title: string,
+    text: string,
+    durationMs: number = ALERT_DURATION_MS,
+  ): void {
+    this.logger.info(`Showing alert: ${title}`);
+
+    try {
+      this.userSession.appSession.layouts.showReferenceCard(title, text, {
+        view: ViewType.MAIN,
+        durationMs,
+      });
+    } catch (err) {
+      this.logger.warn(
+        { err },
+        "Failed to show alert on glasses - connection may be closed",
+      );
+      return;
+    }
+
+    if (this.alertTimer) clearTimeout(this.alertTimer);
+    this.alertTimer = setTimeout(() => {
+      this.alertTimer = null;
+      this.refreshDisplay();
+    }, durationMs);
+  }
+
+  /**
+   * "Someone said your name" banner, holding the rolling captions a little
+   * longer than a keyword alert
+   */
+  showNameAlert(text: string): void {
+    this.showAlert(NAME_ALERT_TITLE, text, NAME_ALERT_DURATION_MS);
+  }
+
+  /**
+   * Show a non-speech sound as an inline tag ("[door knock]") in the captions
+   */
+  showSoundEvent(label: string): void {
+    this.resetInactivityTimer();
+    const result = this.formatter.processSoundEvent(label);
+    this.showOnGlasses(result, true);
+  }
+
+  /**
+   * Format text and show it on the glasses
+   */
+  private display(text: string, isFinal: boolean, speakerId?: string): void {
+    const speakerChanged = this.pendingSpeakerChange;
+    this.pendingSpeakerChange = false;
+
     const result = this.formatter.processTranscription(
       text,
       isFinal,
@@ -189,31 +385,88 @@ export class DisplayManager {
     this.logger.info(
       `Formatted for display: "${result.displayText.substring(0, 100)}..."`,
     );
-    this.showOnGlasses(result.displayText, isFinal);
-    this.resetInactivityTimer();
+    this.showOnGlasses(result, isFinal);
   }
 
-  private showOnGlasses(text: string, isFinal: boolean): void {
-    const cleaned = this.cleanTranscriptText(text);
-    const lines = cleaned.split("\n");
+  /**
+   * Repaint with interim text held back by the rate limit once it passes
+   */
+  private scheduleStabilizerFlush(): void {
+    if (this.stabilizerTimer || !this.stabilizer.hasPending()) return;
+
+    this.stabilizerTimer = setTimeout(() => {
+      this.stabilizerTimer = null;
+      const text = this.stabilizer.flush();
+      if (text !== null) {
+        this.display(text, false, this.lastSpeakerId);
+      }
+    }, this.stabilizer.msUntilRepaint());
+  }
 
-    this.logger.info(
-      `Showing on glasses: "${cleaned.substring(0, 100)}..." (final: ${isFinal}, duration: ${
-        isFinal ? "20s" : "indefinite"
-      })`,
-    );
+  private cancelStabilizerFlush(): void {
+    if (this.stabilizerTimer) {
+      clearTimeout(this.stabilizerTimer);
+      this.stabilizerTimer = null;
+    }
+  }
 
-    // Send to glasses
-    try {
-      this.userSession.appSession.layouts.showTextWall(cleaned, {
-        view: ViewType.MAIN,
-        durationMs: isFinal ? 20000 : undefined,
-      });
-    } catch (err) {
-      this.logger.warn(
-        { err },
-        "Failed to show on glasses - connection may be closed",
+  private showOnGlasses(result: FormatResult, isFinal: boolean): void {
+    const durationMs = this.getDurationMs(isFinal);
+    let cleaned: string;
+    let lines: string[];
+    let splitAt: number | null = null;
+
+    // Split layout sends each speaker to its own half of a double text wall
+    if (result.layout === "double_text_wall") {
+      const top = this.cleanTranscriptText(result.topText ?? "");
+      const bottom = this.cleanTranscriptText(result.bottomText ?? "");
+      const topLines = top ? top.split("\n") : [];
+      const bottomLines = bottom ? bottom.split("\n") : [];
+      cleaned = [top, bottom].filter(Boolean).join("\n");
+      lines = [...topLines, ...bottomLines];
+      splitAt = topLines.length;
+
+      this.logger.info(
+        `Showing split on glasses: top="${top.substring(0, 50)}..." bottom="${bottom.substring(0, 50)}..." (final: ${isFinal})`,
+      );
+
+      try {
+        if (!this.alertTimer) {
+          this.userSession.appSession.layouts.showDoubleTextWall(top, bottom, {
+            view: ViewType.MAIN,
+            durationMs,
+          });
+        }
+      } catch (err) {
+        this.logger.warn(
+          { err },
+          "Failed to show on glasses - connection may be closed",
+        );
+      }
+    } else {
+      cleaned = this.cleanTranscriptText(result.displayText);
+      lines = cleaned.split("\n");
+
+      this.logger.info(
+        `Showing on glasses: "${cleaned.substring(0, 100)}..." (final: ${isFinal}, duration: ${
+          durationMs ? `${durationMs / 1000}s` : "indefinite"
+        })`,
       );
+
+      // Send to glasses (unless an alert card is covering them)
+      try {
+        if (!this.alertTimer) {
+          this.userSession.appSession.layouts.showTextWall(cleaned, {
+            view: ViewType.MAIN,
+            durationMs,
+          });
+        }
+      } catch (err) {
+        this.logger.warn(
+          { err },
+          "Failed to show on glasses - connection may be closed",
+        );
+      }
     }
 
     // Broadcast to webview preview
@@ -221,44 +474,49 @@ export class DisplayManager {
       cleaned,
       lines,
       isFinal,
+      splitAt,
     );
   }
 
   private cleanTranscriptText(text: string): string {
-    // Remove leading punctuation marks (both Western and Chinese)
-    // Western: . , ; : ! ?
-    // Chinese: 。 ， ； ： ！ ？
-    // But preserve speaker labels like [1]: at the start of lines
+    // Remove leading punctuation marks (Western, Chinese, Arabic and Hebrew)
+    // But preserve speaker labels like [1]: or [Alice]: at the start of lines,
+    // and the right-to-left mark in front of RTL lines
     return text
       .split("\n")
       .map((line) => {
-        // Check if line starts with speaker label [N]:
-        const speakerLabelMatch = line.match(/^\[\d+\]:\s*/);
-        if (speakerLabelMatch) {
-          // Preserve the label, clean the rest
-          const label = speakerLabelMatch[0];
-          const rest = line.substring(label.length);
-          return label + rest.replace(/^[.,;:!?。，；：！？]+/, "").trim();
-        }
-        // No speaker label, clean normally
-        return line.replace(/^[.,;:!?。，；：！？]+/, "").trim();
+        const [prefix] = line.match(LINE_PREFIX)!;
+        const rest = line
+          .substring(prefix.length)
+          .replace(LEADING_PUNCTUATION, "")
+          .trim();
+        return prefix + rest;
       })
       .join("\n");
   }
 
+
   private resetInactivityTimer(): void {
     if (this.inactivityTimer) {
       clearTimeout(this.inactivityTimer);
+      this.inactivityTimer = null;
     }
 
-    // Clear transcript processor history after 40 seconds of inactivity
+    // Clearing disabled - captions stay until replaced
+    if (this.clearTimeoutMs <= 0) return;
+
+    // Clear transcript processor history after the configured silence
     this.inactivityTimer = setTimeout(() => {
+      this.inactivityTimer = null;
       this.logger.info(
         "Clearing transcript formatter history due to inactivity",
       );
 
       this.formatter.clear();
+      this.stabilizer.reset();
+      this.cancelStabilizerFlush();
       this.lastSpeakerId = undefined; // Reset speaker tracking
+      this.pendingSpeakerChange = false;
 
       // Show empty state to clear the glasses display
       try {
@@ -272,7 +530,7 @@ export class DisplayManager {
           "Failed to clear glasses display - connection may be closed",
         );
       }
-    }, 40000);
+    }, this.clearTimeoutMs);
   }
 
   /**
@@ -286,5 +544,10 @@ export class DisplayManager {
     if (this.inactivityTimer) {
       clearTimeout(this.inactivityTimer);
     }
+    if (this.alertTimer) {
+      clearTimeout(this.alertTimer);
+      this.alertTimer = null;
+    }
+    this.cancelStabilizerFlush();
   }
 }
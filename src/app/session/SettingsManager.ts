@@ -1,155 +1,463 @@
+import { randomUUID } from "crypto";
 import { UserSession } from "./UserSession";
+import { getTranslator } from "../translation";
+import { getSoundDetector } from "../sounds";
+import { listTransliterators } from "../transliteration";
+import { listDisplayProfiles } from "../utils/DisplayProfiles";
+import {
+  PROFILE_SETTING_KEYS,
+  SETTINGS_SCHEMA,
+  SETTINGS_SCHEMA_VERSION,
+  RETIRED_SETTING_KEYS,
+  SETTING_KEYS,
+  type ProfileSettingKey,
+  type SettingKey,
+  type StoredSettings,
+  decodeSetting,
+  defaultSettings,
+  encodeSetting,
+  migrateSettingValues,
+  migrateSettings,
+  validateSettingsPatch,
+  withoutNonProfileSettings,
+} from "../utils/SettingsSchema";
+
+export interface CaptionSettings extends StoredSettings {
+  translationAvailable: boolean;
+  soundEventsAvailable: boolean;
+  // Profiles the user can pin, and the one captions currently use
+  displayProfiles: { id: string; name: string }[];
+  activeDisplayProfile: string;
+  transliterationOptions: { id: string; language: string; name: string }[];
+  activeLocale: string | null;
+  activeProfileId: string | null;
+  // Bumped on every change so open webviews can detect conflicting edits
+  version: number;
+}
 
-interface CaptionSettings {
-  language: string;
-  languageHints: string[];
-  displayLines: number;
-  displayWidth: number;
-  wordBreaking: boolean;
+/**
+ * Display and language settings a profile bundles (see PROFILE_SETTING_KEYS)
+ */
+export type ProfileSettings = Pick<StoredSettings, ProfileSettingKey>;
+
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  // Built-in presets only set display options and keep the current languages
+  builtIn: boolean;
+  settings: Partial<ProfileSettings>;
 }
 
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
+export const BUILT_IN_PROFILES: SettingsProfile[] = [
+  {
+    id: "lecture",
+    name: "Lecture",
+    builtIn: true,
+    // One speaker talking for a long time: a full screen that stays up
+    settings: {
+      displayLines: 5,
+      displayWidth: 2,
+      layoutMode: "rolling",
+      clearTimeoutSeconds: 120,
+      finalHoldSeconds: 60,
+      fadeAfterSilence: false,
+    },
+  },
+  {
+    id: "dinner-table",
+    name: "Dinner table",
+    builtIn: true,
+    // Short back-and-forth: a compact view of the current utterance
+    settings: {
+      displayLines: 3,
+      displayWidth: 1,
+      layoutMode: "utterance",
+      clearTimeoutSeconds: 20,
+      finalHoldSeconds: 10,
+      fadeAfterSilence: true,
+    },
+  },
+  {
+    id: "meeting",
+    name: "Meeting",
+    builtIn: true,
+    // Several speakers taking turns: a wide rolling history
+    settings: {
+      displayLines: 4,
+      displayWidth: 2,
+      layoutMode: "rolling",
+      clearTimeoutSeconds: 120,
+      finalHoldSeconds: 20,
+      fadeAfterSilence: true,
+    },
+  },
+];
+
 export class SettingsManager {
-  private readonly storage: UserSession["appSession"]["simpleStorage"];
   private readonly logger: UserSession["logger"];
   private readonly userSession: UserSession;
   private readonly disposables: Array<() => void> = [];
 
+  // In-memory copy of the stored settings, loaded once per AppSession
+  private values: StoredSettings = defaultSettings();
+  private version = 0;
+  // Serializes updates so a version check and its write can't interleave
+  private updating: Promise<unknown> = Promise.resolve();
+
   constructor(userSession: UserSession) {
     this.userSession = userSession;
-    this.storage = userSession.appSession.simpleStorage;
     this.logger = userSession.logger.child({ service: "SettingsManager" });
   }
 
+  // Read through the UserSession - the AppSession is replaced on reconnect
+  private get storage(): UserSession["appSession"]["simpleStorage"] {
+    return this.userSession.appSession.simpleStorage;
+  }
+
   // SDK settings handlers removed - we only use SimpleStorage now
   // Settings changes come from REST API calls (webview)
 
   async initialize(): Promise<void> {
     // Load settings from SimpleStorage or use defaults
-    const language = await this.getLanguage();
-    const displayLines = await this.getDisplayLines();
-    const displayWidth = await this.getDisplayWidth();
+    await this.load();
 
     this.logger.info(
-      `Settings initialized: language=${language}, lines=${displayLines}, width=${displayWidth}`,
+      `Settings initialized (v${this.version}): language=${this.values.language}, lines=${this.values.displayLines}, width=${this.values.displayWidth}`,
     );
 
     // Apply settings to processor
-    await this.applyToProcessor();
+    this.applyToProcessor();
   }
 
-  async getLanguage(): Promise<string> {
-    const stored = await this.storage.get("language");
-    return stored || "auto";
+  /**
+   * Read every setting into memory, migrating values stored by older versions first
+   */
+  private async load(): Promise<void> {
+    const stored: Record<string, string | undefined> = {};
+    for (const key of [...SETTING_KEYS, ...RETIRED_SETTING_KEYS]) {
+      stored[key] = (await this.storage.get(key)) ?? undefined;
+    }
+
+    const schemaVersion =
+      parseInt((await this.storage.get("settingsSchemaVersion")) ?? "", 10) ||
+      0;
+    if (schemaVersion < SETTINGS_SCHEMA_VERSION) {
+      const changes = migrateSettings(stored, schemaVersion);
+      for (const [key, value] of Object.entries(changes)) {
+        await this.storage.set(key, value);
+        stored[key] = value;
+      }
+      const profiles = await this.getCustomProfiles();
+      if (profiles.length > 0) {
+        await this.saveCustomProfiles(
+          profiles.map((profile) => ({
+            ...profile,
+            settings: migrateSettingValues(profile.settings, schemaVersion),
+          })),
+        );
+      }
+      await this.storage.set(
+        "settingsSchemaVersion",
+        SETTINGS_SCHEMA_VERSION.toString(),
+      );
+      this.logger.info(
+        `Settings migrated from schema ${schemaVersion} to ${SETTINGS_SCHEMA_VERSION}: ${
+          Object.keys(changes).join(", ") || "no changes"
+        }`,
+      );
+    }
+
+    this.values = Object.fromEntries(
+      SETTING_KEYS.map((key) => [key, decodeSetting(key, stored[key])]),
+    ) as unknown as StoredSettings;
+    this.version =
+      parseInt((await this.storage.get("settingsVersion")) ?? "", 10) || 0;
   }
 
-  async setLanguage(language: string): Promise<void> {
-    await this.storage.set("language", language);
-    this.logger.info(`Language set to: ${language}`);
+  get<K extends SettingKey>(key: K): StoredSettings[K] {
+    return this.values[key];
+  }
 
-    // Update processor with new language settings
-    await this.applyToProcessor();
+  getVersion(): number {
+    return this.version;
+  }
 
-    // Broadcast settings change to all connected SSE clients
-    this.broadcastSettingsUpdate();
+  /**
+   * Change some settings at once. Every value is validated before any is
+   * stored, the version is bumped once, and the display and transcription
+   * subscription are refreshed once for the whole update.
+   *
+   * @param expectedVersion - Version the caller's changes are based on; the
+   *   update is rejected if the settings have changed since
+   * @returns false if expectedVersion is out of date
+   * @throws Error if a value is invalid
+   */
+  update(
+    patch: Partial<StoredSettings>,
+    expectedVersion?: number,
+  ): Promise<boolean> {
+    const result = this.updating.then(() =>
+      this.applyUpdate(patch, expectedVersion),
+    );
+    this.updating = result.catch(() => {});
+    return result;
   }
 
-  async getLanguageHints(): Promise<string[]> {
-    const stored = await this.storage.get("languageHints");
-    if (!stored) return [];
-    try {
-      return JSON.parse(stored);
-    } catch {
-      return [];
+  private async applyUpdate(
+    patch: Partial<StoredSettings>,
+    expectedVersion?: number,
+  ): Promise<boolean> {
+    if (expectedVersion !== undefined && expectedVersion !== this.version) {
+      return false;
     }
-  }
 
-  async setLanguageHints(hints: string[]): Promise<void> {
-    await this.storage.set("languageHints", JSON.stringify(hints));
-    this.logger.info(`Language hints set to: ${hints.join(", ")}`);
+    const validated = validateSettingsPatch(patch);
+    if ("errors" in validated) {
+      throw new Error(
+        Object.entries(validated.errors)
+          .map(([key, error]) => `${key} ${error}`)
+          .join("; "),
+      );
+    }
+    if (validated.patch.translationLanguage && !getTranslator()) {
+      throw new Error("Translation is not configured on this server");
+    }
+
+    const changed = (Object.keys(validated.patch) as SettingKey[]).filter(
+      (key) =>
+        JSON.stringify(validated.patch[key]) !==
+        JSON.stringify(this.values[key]),
+    );
+    if (changed.length === 0) return true;
+
+    for (const key of changed) {
+      await this.storage.set(key, encodeSetting(key, validated.patch[key]!));
+    }
+    this.values = { ...this.values, ...validated.patch };
+    this.version++;
+    await this.storage.set("settingsVersion", this.version.toString());
+
+    this.logger.info(
+      `Settings updated (v${this.version}): ${changed
+        .map((key) => `${key}=${JSON.stringify(this.values[key])}`)
+        .join(", ")}`,
+    );
+
+    // Refresh each affected part once
+    const effects = new Set(changed.map((key) => SETTINGS_SCHEMA[key].effect));
+    if (effects.has("display")) {
+      this.applyToProcessor();
+    } else if (effects.has("timing")) {
+      this.applyTimingToDisplay();
+    }
+    if (effects.has("transcription")) {
+      await this.userSession.resubscribe();
+    }
 
     // Broadcast settings change to all connected SSE clients
     this.broadcastSettingsUpdate();
+    return true;
   }
 
-  async getDisplayLines(): Promise<number> {
-    const stored = await this.storage.get("displayLines");
-    if (!stored) return 3;
-    const parsed = parseInt(stored, 10);
-    return isNaN(parsed) ? 3 : parsed;
+  async getAll(): Promise<CaptionSettings> {
+    return {
+      ...this.values,
+      translationAvailable: getTranslator() !== null,
+      soundEventsAvailable: getSoundDetector() !== null,
+      displayProfiles: listDisplayProfiles().map(({ id, name }) => ({
+        id,
+        name,
+      })),
+      activeDisplayProfile: this.userSession.display.getProfile().id,
+      transliterationOptions: listTransliterators().map(
+        ({ id, language, name }) => ({ id, language, name }),
+      ),
+      activeLocale: this.userSession.getActiveLocale(),
+      activeProfileId: await this.getActiveProfileId(),
+      version: this.version,
+    };
   }
 
-  async setDisplayLines(lines: number): Promise<void> {
-    if (lines < 2 || lines > 5) {
-      throw new Error("Lines must be between 2 and 5");
-    }
-    await this.storage.set("displayLines", lines.toString());
-    this.logger.info(`Display lines set to: ${lines}`);
+  /**
+   * Copy of every stored setting (without the values reported by the server)
+   */
+  getStored(): StoredSettings {
+    return structuredClone(this.values);
+  }
 
-    // Update processor with new settings
-    await this.applyToProcessor();
+  /**
+   * Current values of every setting a profile can hold
+   */
+  getProfileSettings(): ProfileSettings {
+    return Object.fromEntries(
+      PROFILE_SETTING_KEYS.map((key) => [key, this.values[key]]),
+    ) as ProfileSettings;
+  }
+
+  /**
+   * Built-in presets followed by the user's own profiles
+   */
+  async getProfiles(): Promise<SettingsProfile[]> {
+    return [...BUILT_IN_PROFILES, ...(await this.getCustomProfiles())];
+  }
+
+  /**
+   * The profile whose settings all match the current ones, if any
+   */
+  async getActiveProfileId(): Promise<string | null> {
+    const current = this.getProfileSettings();
+    const profiles = await this.getProfiles();
+    const active = profiles.find((profile) =>
+      PROFILE_SETTING_KEYS.every(
+        (key) =>
+          profile.settings[key] === undefined ||
+          JSON.stringify(profile.settings[key]) ===
+            JSON.stringify(current[key]),
+      ),
+    );
+    return active?.id ?? null;
+  }
+
+  /**
+   * Save a new profile. Settings not given are taken from the current ones,
+   * so an empty body snapshots the current setup.
+   */
+  async createProfile(
+    name: string,
+    settings: Partial<ProfileSettings> = {},
+  ): Promise<SettingsProfile> {
+    const profile: SettingsProfile = {
+      id: randomUUID(),
+      name,
+      builtIn: false,
+      settings: { ...this.getProfileSettings(), ...settings },
+    };
+    await this.saveCustomProfiles([
+      ...(await this.getCustomProfiles()),
+      profile,
+    ]);
+    this.logger.info(`Settings profile created: ${name}`);
 
-    // Broadcast settings change to all connected SSE clients
     this.broadcastSettingsUpdate();
+    return profile;
   }
 
-  async getDisplayWidth(): Promise<number> {
-    const stored = await this.storage.get("displayWidth");
-    // Default to 1 (Medium) - values are 0=Narrow, 1=Medium, 2=Wide
-    if (!stored) return 1;
-    const parsed = parseInt(stored, 10);
-    // Validate it's a valid enum value (0, 1, or 2)
-    if (isNaN(parsed) || parsed < 0 || parsed > 2) return 1;
-    return parsed;
+  /**
+   * Rename a profile or change some of its settings.
+   * Returns null if there is no such profile; built-in presets can't be changed.
+   */
+  async updateProfile(
+    id: string,
+    changes: { name?: string; settings?: Partial<ProfileSettings> },
+  ): Promise<SettingsProfile | null> {
+    if (BUILT_IN_PROFILES.some((profile) => profile.id === id)) {
+      throw new Error("Built-in profiles can't be changed");
+    }
+    const profiles = await this.getCustomProfiles();
+    const existing = profiles.find((profile) => profile.id === id);
+    if (!existing) return null;
+
+    const updated: SettingsProfile = {
+      ...existing,
+      name: changes.name ?? existing.name,
+      settings: { ...existing.settings, ...changes.settings },
+    };
+    await this.saveCustomProfiles(
+      profiles.map((profile) => (profile.id === id ? updated : profile)),
+    );
+    this.logger.info(`Settings profile updated: ${updated.name}`);
+
+    this.broadcastSettingsUpdate();
+    return updated;
   }
 
-  async setDisplayWidth(width: number): Promise<void> {
-    // Validate width is 0, 1, or 2
-    if (width < 0 || width > 2) {
-      throw new Error("Width must be 0 (Narrow), 1 (Medium), or 2 (Wide)");
+  /**
+   * Delete a profile. Returns false if there is no such profile; built-in
+   * presets can't be deleted.
+   */
+  async deleteProfile(id: string): Promise<boolean> {
+    if (BUILT_IN_PROFILES.some((profile) => profile.id === id)) {
+      throw new Error("Built-in profiles can't be deleted");
     }
-    await this.storage.set("displayWidth", width.toString());
-    this.logger.info(`Display width set to: ${width}`);
+    const profiles = await this.getCustomProfiles();
+    if (!profiles.some((profile) => profile.id === id)) return false;
 
-    // Update processor with new settings
-    await this.applyToProcessor();
+    await this.saveCustomProfiles(
+      profiles.filter((profile) => profile.id !== id),
+    );
+    this.logger.info(`Settings profile deleted: ${id}`);
 
-    // Broadcast settings change to all connected SSE clients
     this.broadcastSettingsUpdate();
+    return true;
   }
 
-  async getWordBreaking(): Promise<boolean> {
-    const stored = await this.storage.get("wordBreaking");
-    // Default to true (character-level breaking with hyphens for max utilization)
-    if (!stored) return true;
-    return stored === "true";
-  }
+  /**
+   * Switch to a profile with a single settings update.
+   * Returns null if there is no such profile.
+   */
+  async applyProfile(id: string): Promise<SettingsProfile | null> {
+    const profile = (await this.getProfiles()).find((p) => p.id === id);
+    if (!profile) return null;
 
-  async setWordBreaking(enabled: boolean): Promise<void> {
-    await this.storage.set("wordBreaking", enabled.toString());
-    this.logger.info(`Word breaking set to: ${enabled}`);
+    await this.update(profile.settings);
+    this.logger.info(`Settings profile applied: ${profile.name}`);
+    return profile;
+  }
 
-    // Update processor with new settings
-    await this.applyToProcessor();
+  /**
+   * Add imported profiles. A profile with the same name as one of the user's
+   * own profiles replaces it.
+   */
+  async importProfiles(
+    imported: Array<Pick<SettingsProfile, "name" | "settings">>,
+  ): Promise<void> {
+    const profiles = await this.getCustomProfiles();
+    for (const { name, settings } of imported) {
+      const existing = profiles.findIndex((profile) => profile.name === name);
+      const profile: SettingsProfile = {
+        id: existing >= 0 ? profiles[existing].id : randomUUID(),
+        name,
+        builtIn: false,
+        settings,
+      };
+      if (existing >= 0) {
+        profiles[existing] = profile;
+      } else {
+        profiles.push(profile);
+      }
+    }
+    await this.saveCustomProfiles(profiles);
+    this.logger.info(`Imported ${imported.length} settings profiles`);
 
-    // Broadcast settings change to all connected SSE clients
     this.broadcastSettingsUpdate();
   }
 
-  async getAll(): Promise<CaptionSettings> {
-    return {
-      language: await this.getLanguage(),
-      languageHints: await this.getLanguageHints(),
-      displayLines: await this.getDisplayLines(),
-      displayWidth: await this.getDisplayWidth(),
-      wordBreaking: await this.getWordBreaking(),
-    };
+  async getCustomProfiles(): Promise<SettingsProfile[]> {
+    const stored = await this.storage.get("settingsProfiles");
+    if (!stored) return [];
+    try {
+      const parsed: SettingsProfile[] = JSON.parse(stored);
+      if (!Array.isArray(parsed)) return [];
+      return parsed.map((profile) => ({
+        ...profile,
+        settings: withoutNonProfileSettings(profile.settings),
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  private async saveCustomProfiles(profiles: SettingsProfile[]): Promise<void> {
+    await this.storage.set("settingsProfiles", JSON.stringify(profiles));
   }
 
   /**
    * Broadcast settings update to all connected SSE clients
    * This ensures all open webviews stay in sync
    */
-  private broadcastSettingsUpdate(): void {
+  broadcastSettingsUpdate(): void {
     // Use the transcripts manager's SSE clients to broadcast
     // We'll send a special "settings_update" message type
     this.getAll()
@@ -161,24 +469,39 @@ export class SettingsManager {
       });
   }
 
-  private async applyToProcessor(): Promise<void> {
-    const language = await this.getLanguage();
-    const displayLines = await this.getDisplayLines();
-    const displayWidth = await this.getDisplayWidth();
-    const wordBreaking = await this.getWordBreaking();
+  private applyToProcessor(): void {
+    const {
+      displayLines,
+      displayWidth,
+      wordBreaking,
+      layoutMode,
+      displayProfile,
+    } = this.values;
 
     // Pass raw width enum (0=Narrow 50%, 1=Medium 75%, 2=Wide 100%) to DisplayManager
     // DisplayManager handles the percentage conversion internally
 
     this.logger.info(
-      `Applying settings to processor: language=${language}, lines=${displayLines}, displayWidth=${displayWidth}, wordBreaking=${wordBreaking}`,
+      `Applying settings to processor: lines=${displayLines}, displayWidth=${displayWidth}, wordBreaking=${wordBreaking}, layoutMode=${layoutMode}, displayProfile=${displayProfile}`,
     );
 
-    // Update DisplayManager with raw enum value and word breaking setting
+    // Update DisplayManager with raw enum value, word breaking and layout settings
     this.userSession.display.updateSettings(
       displayWidth,
       displayLines,
       wordBreaking,
+      layoutMode,
+      displayProfile,
+    );
+
+    this.applyTimingToDisplay();
+  }
+
+  private applyTimingToDisplay(): void {
+    this.userSession.display.updateTiming(
+      this.values.clearTimeoutSeconds,
+      this.values.finalHoldSeconds,
+      this.values.fadeAfterSilence,
     );
   }
 
@@ -0,0 +1,159 @@
+import {UserSession} from "./UserSession"
+import {DEFAULT_SPEAKER_ID} from "../storage"
+
+// SimpleStorage key for names remembered across conversations
+const PROFILES_STORAGE_KEY = "speakerProfiles"
+
+/**
+ * Label for a speaker that hasn't been named (e.g. "1" -> "Speaker 1")
+ */
+export function defaultSpeakerLabel(speakerId: string | null | undefined): string {
+  return `Speaker ${speakerId || DEFAULT_SPEAKER_ID}`
+}
+
+export interface SpeakerNames {
+  /** Names assigned in the current conversation, keyed by speaker ID */
+  names: Record<string, string>
+  /** Names remembered across conversations, keyed by speaker ID */
+  profiles: Record<string, string>
+}
+
+/**
+ * SpeakersManager - user-assigned names for diarization speaker IDs
+ *
+ * Names are kept per conversation (persisted alongside the archived
+ * conversation) and can optionally be remembered as profiles in SimpleStorage,
+ * which then apply to every new conversation until overridden.
+ */
+export class SpeakersManager {
+  readonly userSession: UserSession
+  readonly logger: UserSession["logger"]
+
+  private conversationNames: Map<string, string> = new Map()
+  private profiles: Record<string, string> = {}
+  // Last language detected for each speaker in this conversation (base codes)
+  private languages: Map<string, string> = new Map()
+
+  constructor(userSession: UserSession) {
+    this.userSession = userSession
+    this.logger = userSession.logger.child({service: "SpeakersManager"})
+  }
+
+  /**
+   * Load remembered speaker profiles from SimpleStorage
+   */
+  async initialize(): Promise<void> {
+    try {
+      const stored = await this.userSession.appSession.simpleStorage.get(PROFILES_STORAGE_KEY)
+      this.profiles = stored ? JSON.parse(stored) : {}
+    } catch (error) {
+      this.logger.error({error}, "Failed to load speaker profiles")
+      this.profiles = {}
+    }
+  }
+
+  /**
+   * Name for a speaker, or null if the user hasn't named them
+   */
+  getName(speakerId: string | null | undefined): string | null {
+    const id = speakerId || DEFAULT_SPEAKER_ID
+    return this.conversationNames.get(id) ?? this.profiles[id] ?? null
+  }
+
+  /**
+   * Label shown in the webview, SSE payloads and archive ("Alice" or "Speaker 2")
+   */
+  getLabel(speakerId: string | null | undefined): string {
+    return this.getName(speakerId) ?? defaultSpeakerLabel(speakerId)
+  }
+
+  getAll(): SpeakerNames {
+    return {
+      names: Object.fromEntries(this.conversationNames),
+      profiles: {...this.profiles},
+    }
+  }
+
+  /**
+   * Language a speaker was last heard speaking, or null if none was detected yet
+   */
+  getLanguage(speakerId: string | null | undefined): string | null {
+    return this.languages.get(speakerId || DEFAULT_SPEAKER_ID) ?? null
+  }
+
+  /**
+   * Remember the language detected for a speaker's utterance
+   */
+  setLanguage(speakerId: string | null | undefined, language: string): void {
+    this.languages.set(speakerId || DEFAULT_SPEAKER_ID, language.split("-")[0].toLowerCase())
+  }
+
+  /**
+   * Replace the conversation names (when ArchiveManager resumes a conversation)
+   */
+  loadConversation(names: Record<string, string>): void {
+    this.conversationNames = new Map(Object.entries(names))
+  }
+
+  /**
+   * Forget conversation names when a new conversation starts. Profiles still apply.
+   */
+  resetConversation(): void {
+    this.conversationNames.clear()
+    this.languages.clear()
+  }
+
+  /**
+   * Remember imported speaker names, replacing any remembered name for the same ID
+   */
+  async importProfiles(names: Record<string, string>): Promise<void> {
+    const before = new Map(Object.keys(names).map((id) => [id, this.getLabel(id)]))
+    this.profiles = {...this.profiles, ...names}
+    await this.userSession.appSession.simpleStorage.set(PROFILES_STORAGE_KEY, JSON.stringify(this.profiles))
+    this.logger.info({speakerIds: Object.keys(names)}, "Imported speaker names")
+
+    // Relabel speakers in the current conversation that now have another name
+    let relabelled = false
+    for (const [speakerId, label] of before) {
+      if (this.getLabel(speakerId) === label) continue
+      this.userSession.archive.renameSpeaker(speakerId, this.getName(speakerId), this.getLabel(speakerId))
+      this.userSession.transcripts.relabelSpeaker(speakerId, this.getLabel(speakerId))
+      relabelled = true
+    }
+    if (relabelled) this.userSession.display.refreshDisplay()
+  }
+
+  /**
+   * Rename a speaker in the current conversation
+   *
+   * @param speakerId - Diarization speaker ID ("1", "2", ...)
+   * @param name - New name, or null to go back to the default label
+   * @param remember - Also save (or with null, forget) the name for future conversations
+   */
+  async rename(speakerId: string, name: string | null, remember: boolean = false): Promise<string> {
+    if (name) {
+      this.conversationNames.set(speakerId, name)
+    } else {
+      this.conversationNames.delete(speakerId)
+    }
+
+    if (remember) {
+      if (name) {
+        this.profiles[speakerId] = name
+      } else {
+        delete this.profiles[speakerId]
+      }
+      await this.userSession.appSession.simpleStorage.set(PROFILES_STORAGE_KEY, JSON.stringify(this.profiles))
+    }
+
+    const label = this.getLabel(speakerId)
+    this.logger.info({speakerId, label, remember}, `Speaker ${speakerId} renamed`)
+
+    // Relabel the archive, the live transcript list, the webview and the glasses
+    this.userSession.archive.renameSpeaker(speakerId, name, label)
+    this.userSession.transcripts.relabelSpeaker(speakerId, label)
+    this.userSession.display.refreshDisplay()
+
+    return label
+  }
+}
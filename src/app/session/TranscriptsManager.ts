@@ -2,30 +2,63 @@ import {randomUUID} from "crypto"
 
 import {TranscriptionData} from "@mentra/sdk"
 
+import type {CaptionSettings} from "./SettingsManager"
 import {UserSession} from "./UserSession"
-import {convertToPinyin} from "../utils/ChineseUtils"
+import {DEFAULT_SPEAKER_ID} from "../storage"
+import {getTranslator} from "../translation"
+import {SOUND_LABELS, type SoundCategory, type SoundEvent} from "../sounds"
+import {transliterate} from "../transliteration"
+import {displayLanguage, prepareDisplayText} from "../utils/DisplayText"
+import {KeywordAlerter, findKeywords, markKeywords} from "../utils/KeywordAlerts"
+import {maskProfanity} from "../utils/ProfanityFilter"
 
 export interface TranscriptEntry {
   id: string
   utteranceId: string | null
+  speakerId: string | null
   speaker: string
   text: string
+  /**
+   * Text translated into the translation target language, when translation
+   * is on. Display-only: the archive keeps the original text, so restored,
+   * exported and searched transcripts have no translation.
+   */
+  translatedText: string | null
+  /** Text in the transliteration chosen for its language (e.g. Pinyin), if any */
+  transliteration: string | null
+  /**
+   * Language of the utterance, e.g. "es": detected by the provider (auto and
+   * conversation mode), or else the language the speaker was last detected in
+   */
+  detectedLanguage: string | null
+  /** Alert keywords said in the text, as the user registered them */
+  keywords: string[]
+  /** One of the wearer's names was said (name alert mode) */
+  nameCalled: boolean
+  /** Set for non-speech sound entries, whose text is the tag ("[door knock]") */
+  soundEvent: SoundCategory | null
   timestamp: string | null
+  /** Epoch ms when the utterance started, from TranscriptionData.startTime */
+  startedAt: number | null
+  /** Epoch ms when the utterance ended, from TranscriptionData.endTime */
+  endedAt: number | null
   isFinal: boolean
   receivedAt: number
 }
 
+// startTime/endTime above this are already epoch ms; below it they are stream offsets
+const EPOCH_MS_THRESHOLD = 1e12
+
+// Any of the wearer's names counts as the same alert
+const NAME_ALERT_KEY = "name"
+
+// Speaker shown for sound event entries
+const SOUND_SPEAKER_LABEL = "Sound"
+
 interface SSEClient {
   send(data: any): void
 }
 
-interface CaptionSettings {
-  language: string
-  languageHints: string[]
-  displayLines: number
-  displayWidth: number
-}
-
 export class TranscriptsManager {
   readonly userSession: UserSession
   readonly logger: UserSession["logger"]
@@ -34,6 +67,17 @@ export class TranscriptsManager {
   private maxTranscripts = 100
   private sseClients: Set<SSEClient> = new Set()
 
+  // Wall-clock epoch of offset 0 in the transcription stream (for relative startTime/endTime)
+  private streamEpoch: number | null = null
+  private lastStreamEndTime = 0
+
+  // Incremented per translated transcription so late interim translations can be dropped
+  private translationSeq = 0
+
+  // Debounce alerts across the interims and final of an utterance
+  private readonly keywordAlerter = new KeywordAlerter()
+  private readonly nameAlerter = new KeywordAlerter()
+
   constructor(userSession: UserSession) {
     this.userSession = userSession
     this.logger = userSession.logger.child({service: "TranscriptsManager"})
@@ -45,7 +89,10 @@ export class TranscriptsManager {
    * Handle incoming transcription data from UserSession
    * This is the single entry point for all transcription processing
    */
-  public async handleTranscription(transcriptData: TranscriptionData): Promise<void> {
+  public async handleTranscription(data: TranscriptionData): Promise<void> {
+    // Correct the text with the user's replacement rules before anything stores or shows it
+    const transcriptData = {...data, text: this.userSession.vocabulary.apply(data.text)}
+
     this.logger.info(
       {
         text: transcriptData.text,
@@ -59,6 +106,21 @@ export class TranscriptsManager {
     // 1. Create entry and update transcript list
     const entry = this.createEntry(transcriptData)
 
+    // In auto and conversation mode the text is processed in the language of the utterance
+    const activeLanguage = this.userSession.settings.get("language")
+    const multilingual = this.userSession.settings.get("multilingual")
+    const language = displayLanguage(multilingual ? "auto" : activeLanguage, entry.detectedLanguage)
+
+    // Mask profanity before the text is stored, broadcast or shown
+    entry.text = this.filterText(entry.text, language)
+    entry.transliteration = this.transliterate(entry.text, language)
+
+    // Interims are matched too, so an alert can fire before the utterance ends
+    const alertKeywords = this.userSession.settings.get("alertKeywords")
+    entry.keywords = findKeywords(entry.text, alertKeywords)
+    const wearerNames = this.userSession.settings.get("nameAlert") ? this.userSession.settings.get("wearerNames") : []
+    entry.nameCalled = findKeywords(entry.text, wearerNames).length > 0
+
     if (transcriptData.utteranceId) {
       // New utteranceId-based tracking
       this.updateByUtteranceId(entry)
@@ -74,21 +136,93 @@ export class TranscriptsManager {
     // 2. Broadcast transcript update to webview (transcript list)
     this.broadcast(entry)
 
-    // 3. Process text for display (handle Pinyin conversion, etc.)
-    let displayText = transcriptData.text
-    const activeLanguage = await this.userSession.settings.getLanguage()
-    if (activeLanguage === "Chinese (Pinyin)") {
-      displayText = convertToPinyin(displayText)
-      this.logger.debug("Converting Chinese to Pinyin for display")
+    // 3. Persist finals to the transcript archive
+    this.userSession.archive.record(entry)
+
+    // 4. Process text for display (translation or transliteration)
+    let displayText = entry.text
+
+    // Conversation mode shows every speaker in the viewer's primary language
+    // unless a translation language is chosen explicitly
+    const translationLanguage =
+      this.userSession.settings.get("translationLanguage") ||
+      (multilingual ? displayLanguage(activeLanguage, null) : null)
+    if (translationLanguage) {
+      const translated = await this.translate(entry, language ?? "auto", translationLanguage)
+      // A newer transcription arrived while translating this interim
+      if (translated === null) return
+      displayText = translated
+    } else {
+      displayText = prepareDisplayText(
+        displayText,
+        entry.transliteration,
+        this.userSession.settings.get("glassesTransliteration"),
+      )
     }
 
-    // 4. Update glasses display via DisplayManager
+    // Keywords stand out on the glasses, including in the translation
+    displayText = markKeywords(displayText, [...alertKeywords, ...wearerNames])
+
+    // 5. Update glasses display via DisplayManager
     // Pass speakerId for future diarization speaker labels feature
     this.userSession.display.processAndDisplay(
       displayText,
       transcriptData.isFinal,
       transcriptData.speakerId,
     )
+
+    // 6. Alert card for the wearer's name or newly said keywords (the name wins)
+    const nameAlert = this.nameAlerter.check(entry.nameCalled ? [NAME_ALERT_KEY] : [], entry.utteranceId)
+    const alerts = this.keywordAlerter.check(entry.keywords, entry.utteranceId)
+    if (nameAlert.length > 0) {
+      this.logger.info({utteranceId: entry.utteranceId}, "Wearer's name was said")
+      this.userSession.display.showNameAlert(displayText)
+    } else if (alerts.length > 0 && this.userSession.settings.get("keywordNotifications")) {
+      this.userSession.display.showAlert(alerts.join(", "), displayText)
+    }
+  }
+
+  /**
+   * Handle a non-speech sound from the sound event detector
+   *
+   * Sounds the user has turned off are dropped. Others are added to the
+   * transcript list as a tag entry and shown inline on the glasses; they
+   * aren't archived.
+   */
+  public handleSoundEvent(event: SoundEvent): void {
+    if (!this.userSession.settings.get("soundEventCategories").includes(event.category)) {
+      return
+    }
+
+    const label = event.label?.trim() || SOUND_LABELS[event.category]
+    const receivedAt = Date.now()
+    const entry: TranscriptEntry = {
+      id: randomUUID(),
+      utteranceId: null,
+      speakerId: null,
+      speaker: SOUND_SPEAKER_LABEL,
+      text: `[${label}]`,
+      translatedText: null,
+      transliteration: null,
+      detectedLanguage: null,
+      keywords: [],
+      nameCalled: false,
+      soundEvent: event.category,
+      timestamp: this.formatTimestamp(new Date(receivedAt)),
+      startedAt: null,
+      endedAt: null,
+      isFinal: true,
+      receivedAt,
+    }
+
+    this.logger.info({category: event.category, confidence: event.confidence}, `Sound event: ${label}`)
+
+    this.transcripts.push(entry)
+    if (this.transcripts.length > this.maxTranscripts) {
+      this.transcripts = this.transcripts.slice(-this.maxTranscripts)
+    }
+    this.broadcast(entry)
+    this.userSession.display.showSoundEvent(label)
   }
 
   private createEntry(data: TranscriptionData): TranscriptEntry {
@@ -97,27 +231,133 @@ export class TranscriptsManager {
 
     // Use speakerId from diarization if available, otherwise default
     const speaker = this.formatSpeakerId(data.speakerId)
+    const receivedAt = Date.now()
+    const {startedAt, endedAt} = this.resolveUtteranceTimes(data, receivedAt)
 
     return {
       id,
       utteranceId: data.utteranceId || null,
+      speakerId: data.speakerId || null,
       speaker,
       text: data.text,
-      timestamp: data.isFinal ? this.formatTimestamp(new Date()) : null,
+      translatedText: null,
+      transliteration: null,
+      detectedLanguage: this.resolveUtteranceLanguage(data),
+      keywords: [],
+      nameCalled: false,
+      soundEvent: null,
+      timestamp: data.isFinal ? this.formatTimestamp(new Date(receivedAt)) : null,
+      startedAt,
+      endedAt,
       isFinal: data.isFinal,
-      receivedAt: Date.now(),
+      receivedAt,
+    }
+  }
+
+  /**
+   * Translate an entry for the glasses and send the translation to the webview
+   *
+   * @returns The translated text, the original text if it can't be translated,
+   * or null if a newer transcription arrived while translating this interim
+   */
+  private async translate(entry: TranscriptEntry, sourceLanguage: string, targetLanguage: string): Promise<string | null> {
+    const seq = ++this.translationSeq
+    const translator = getTranslator()
+
+    if (!translator || !entry.text.trim() || sourceLanguage === targetLanguage.split("-")[0]) {
+      return entry.text
+    }
+
+    let translated: string
+    try {
+      translated = await translator.translate({text: entry.text, sourceLanguage, targetLanguage})
+    } catch (error) {
+      this.logger.warn({error, provider: translator.name}, "Translation failed - showing original text")
+      return entry.text
+    }
+
+    // Finals are always shown; interims are superseded by anything newer
+    if (!entry.isFinal && seq !== this.translationSeq) {
+      return null
+    }
+
+    entry.translatedText = this.filterText(translated, targetLanguage.split("-")[0])
+    this.broadcastTranslation(entry)
+    return entry.translatedText
+  }
+
+  /**
+   * Text in the transliteration the user chose for its language
+   *
+   * @param language - Base language code of the text, or null when it isn't known
+   * @returns The transliteration, or null when none applies
+   */
+  public transliterate(text: string, language: string | null): string | null {
+    return transliterate(text, language, this.userSession.settings.get("transliterators"))
+  }
+
+  /**
+   * Mask profanity and the user's denied terms when the filter is on
+   */
+  private filterText(text: string, language: string | null): string {
+    const settings = this.userSession.settings
+    if (!settings.get("profanityFilter")) return text
+
+    return maskProfanity(text, language, {
+      style: settings.get("profanityMaskStyle"),
+      allowList: settings.get("profanityAllowList"),
+      denyList: settings.get("profanityDenyList"),
+    })
+  }
+
+  /**
+   * Language of an utterance: the detected language (remembered for the
+   * speaker), or the speaker's last detected language when the provider
+   * didn't report one
+   */
+  private resolveUtteranceLanguage(data: TranscriptionData): string | null {
+    if (data.detectedLanguage) {
+      this.userSession.speakers.setLanguage(data.speakerId, data.detectedLanguage)
+      return data.detectedLanguage
     }
+    return this.userSession.speakers.getLanguage(data.speakerId)
+  }
+
+  /**
+   * Convert TranscriptionData startTime/endTime into epoch ms
+   *
+   * Providers report either epoch timestamps or offsets from the start of the
+   * transcription stream. Offsets are anchored to wall-clock time on the first
+   * event, and re-anchored if the stream restarts (offsets go backwards).
+   */
+  private resolveUtteranceTimes(
+    data: TranscriptionData,
+    receivedAt: number,
+  ): {startedAt: number | null; endedAt: number | null} {
+    const {startTime, endTime} = data
+    if (typeof startTime !== "number" || typeof endTime !== "number" || endTime <= 0) {
+      return {startedAt: null, endedAt: null}
+    }
+
+    if (endTime > EPOCH_MS_THRESHOLD) {
+      return {startedAt: startTime, endedAt: endTime}
+    }
+
+    if (this.streamEpoch === null || endTime < this.lastStreamEndTime || this.streamEpoch + endTime > receivedAt) {
+      this.streamEpoch = receivedAt - endTime
+    }
+    this.lastStreamEndTime = endTime
+
+    return {startedAt: this.streamEpoch + startTime, endedAt: this.streamEpoch + endTime}
   }
 
   /**
    * Format speaker ID from Soniox diarization (e.g., "1" -> "Speaker 1")
+   * Names the user assigned in the webview take precedence
    */
   private formatSpeakerId(speakerId: string | undefined): string {
-    if (!speakerId) {
-      return "Speaker 1" // Default when no speaker info
-    }
-    // Soniox returns "1", "2", etc. - format as "Speaker 1", "Speaker 2"
-    return `Speaker ${speakerId}`
+    // Soniox returns "1", "2", etc. - "Speaker 1" is the default when no speaker info
+    return this.userSession.speakers.getLabel(speakerId)
   }
 
   /**
@@ -129,6 +369,13 @@ export class TranscriptsManager {
 
     if (existingIndex >= 0) {
       // Replace existing entry (interim->interim or interim->final)
+      // Keep the earliest known start time - later interims may only report the revised tail
+      const existing = this.transcripts[existingIndex]
+      if (existing.startedAt !== null && (entry.startedAt === null || existing.startedAt < entry.startedAt)) {
+        entry.startedAt = existing.startedAt
+      }
+      // Not every interim repeats the detected language
+      entry.detectedLanguage ??= existing.detectedLanguage
       this.transcripts[existingIndex] = entry
       this.logger.debug(
         {
@@ -194,7 +441,7 @@ export class TranscriptsManager {
     this.logger.debug(`Legacy: Added final transcript: ${entry.text}`)
   }
 
-  private formatTimestamp(date: Date): string {
+  public formatTimestamp(date: Date): string {
     const hours = date.getHours()
     const minutes = date.getMinutes()
     const ampm = hours >= 12 ? "PM" : "AM"
@@ -208,9 +455,18 @@ export class TranscriptsManager {
       type: entry.isFinal ? "final" : "interim",
       id: entry.id,
       utteranceId: entry.utteranceId,
+      speakerId: entry.speakerId,
       speaker: entry.speaker,
       text: entry.text,
+      translatedText: entry.translatedText,
+      transliteration: entry.transliteration,
+      detectedLanguage: entry.detectedLanguage,
+      keywords: entry.keywords,
+      nameCalled: entry.nameCalled,
+      soundEvent: entry.soundEvent,
       timestamp: entry.timestamp,
+      startedAt: entry.startedAt,
+      endedAt: entry.endedAt,
     }
 
     this.logger.info(
@@ -236,10 +492,67 @@ export class TranscriptsManager {
     }
   }
 
+  /**
+   * Send a finished translation to the webview (matched by transcript ID)
+   */
+  private broadcastTranslation(entry: TranscriptEntry): void {
+    const message = {
+      type: "translation",
+      id: entry.id,
+      translatedText: entry.translatedText,
+    }
+
+    for (const client of this.sseClients) {
+      try {
+        client.send(message)
+      } catch (error) {
+        this.logger.error(`Failed to send translation to SSE client: ${error}`)
+      }
+    }
+  }
+
   public getAll(): TranscriptEntry[] {
     return this.transcripts
   }
 
+  /**
+   * Seed the transcript list with previously archived entries
+   * Called by ArchiveManager when resuming a recent conversation
+   */
+  public restore(entries: TranscriptEntry[]): void {
+    const restoredIds = new Set(entries.map((e) => e.id))
+    const live = this.transcripts.filter((t) => !restoredIds.has(t.id))
+    this.transcripts = [...entries, ...live].slice(-this.maxTranscripts)
+  }
+
+  /**
+   * Apply a renamed speaker's label to the live list and tell the webview
+   * Called by SpeakersManager after a rename
+   */
+  public relabelSpeaker(speakerId: string, label: string): void {
+    for (const entry of this.transcripts) {
+      if ((entry.speakerId ?? DEFAULT_SPEAKER_ID) === speakerId) {
+        entry.speaker = label
+      }
+    }
+
+    const message = {
+      type: "speakers_update",
+      speakerId,
+      speaker: label,
+    }
+
+    this.logger.info(`Broadcasting speaker rename to ${this.sseClients.size} clients`)
+
+    for (const client of this.sseClients) {
+      try {
+        client.send(message)
+      } catch (error) {
+        this.logger.error(`Failed to send speaker update to SSE client: ${error}`)
+      }
+    }
+  }
+
   public addSSEClient(client: SSEClient): void {
     this.sseClients.add(client)
     this.logger.info(`SSE client connected. Total clients: ${this.sseClients.size}`)
@@ -258,12 +571,19 @@ export class TranscriptsManager {
    * Broadcast display preview to all connected SSE clients
    * Called by DisplayManager when showing content on glasses
    */
-  public broadcastDisplayPreview(text: string, lines: string[], isFinal: boolean): void {
+  public broadcastDisplayPreview(
+    text: string,
+    lines: string[],
+    isFinal: boolean,
+    splitAt: number | null = null,
+  ): void {
     const message = {
       type: "display_preview",
       text,
       lines,
       isFinal,
+      // Split layout: index of the first bottom-half line
+      splitAt,
       timestamp: Date.now(),
     }
 
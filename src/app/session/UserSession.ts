@@ -2,18 +2,39 @@ import {AppSession, TranscriptionData} from "@mentra/sdk"
 import {TranscriptsManager} from "./TranscriptsManager"
 import {SettingsManager} from "./SettingsManager"
 import {DisplayManager} from "./DisplayManager"
-import {languageToLocale} from "../utils/languageLocale"
+import {ArchiveManager} from "./ArchiveManager"
+import {SpeakersManager} from "./SpeakersManager"
+import {VocabularyManager} from "./VocabularyManager"
+import {conversationLanguages, resolveLocale} from "../utils/languageLocale"
+import type {DeviceInfo} from "../utils/DisplayProfiles"
+import {getSoundDetector} from "../sounds"
+
+// How long a stopped session is kept for an SDK reconnect before it's disposed
+export const RECONNECT_GRACE_PERIOD_MS = 60 * 1000
 
 export class UserSession {
   static readonly userSessions: Map<string, UserSession> = new Map<string, UserSession>()
+  // Stopped sessions waiting out the reconnect grace period (not served by the API)
+  static readonly suspendedSessions: Map<string, UserSession> = new Map<string, UserSession>()
   readonly userId: string
-  readonly appSession: AppSession
+  // Replaced when the SDK reconnects and the session is resumed
+  appSession: AppSession
   readonly logger: AppSession["logger"]
   readonly transcripts: TranscriptsManager
   readonly settings: SettingsManager
   readonly display: DisplayManager
+  readonly archive: ArchiveManager
+  readonly speakers: SpeakersManager
+  readonly vocabulary: VocabularyManager
 
   private transcriptionCleanup: (() => void) | null = null
+  private soundEventsCleanup: (() => void) | null = null
+  private deviceCleanup: (() => void) | null = null
+  // Locale the transcription subscription is currently using
+  private activeLocale: string | null = null
+  // Serializes resubscribes so overlapping setting changes don't leak subscriptions
+  private resubscribing: Promise<void> = Promise.resolve()
+  private gracePeriodTimer: ReturnType<typeof setTimeout> | null = null
 
   constructor(appSession: AppSession) {
     this.appSession = appSession
@@ -22,6 +43,9 @@ export class UserSession {
     this.transcripts = new TranscriptsManager(this)
     this.settings = new SettingsManager(this)
     this.display = new DisplayManager(this)
+    this.archive = new ArchiveManager(this)
+    this.speakers = new SpeakersManager(this)
+    this.vocabulary = new VocabularyManager(this)
     UserSession.userSessions.set(this.userId, this)
   }
 
@@ -34,69 +58,274 @@ export class UserSession {
       // Initialize settings first (loads from cloud)
       await this.settings.initialize()
 
-      // Get language configuration from settings
-      const language = await this.settings.getLanguage()
-      const languageHints = await this.settings.getLanguageHints()
-      const locale = languageToLocale(language)
+      // Load remembered speaker names before any transcripts are labelled
+      await this.speakers.initialize()
+
+      // Load replacement rules before any transcripts are processed
+      await this.vocabulary.initialize()
+
+      // Restore transcripts from a recent conversation (e.g. after a reconnect)
+      await this.archive.initialize()
+
+      // Pick the display profile for the connected glasses
+      this.watchDevice()
 
       // Get display settings and update DisplayManager
       // DisplayManager expects raw enum values: 0=Narrow, 1=Medium, 2=Wide
-      const displayWidth = await this.settings.getDisplayWidth()
-      const displayLines = await this.settings.getDisplayLines()
-      this.display.updateSettings(displayWidth, displayLines)
-
-      // Subscribe to transcription events with language and hints
-      // If "auto" mode, use "en-US" as fallback for SDK
-      const subscriptionLocale = language === "auto" ? "en-US" : locale
-
-      this.transcriptionCleanup = this.appSession.events.onTranscriptionForLanguage(
-        subscriptionLocale,
-        (data: TranscriptionData) => {
-          // Route all transcriptions through TranscriptsManager
-          this.transcripts.handleTranscription(data)
-        },
-        {
-          hints: languageHints,
-        },
-      )
+      const displayWidth = this.settings.get("displayWidth")
+      const displayLines = this.settings.get("displayLines")
+      const wordBreaking = this.settings.get("wordBreaking")
+      const layoutMode = this.settings.get("layoutMode")
+      const displayProfile = this.settings.get("displayProfile")
+      this.display.updateSettings(displayWidth, displayLines, wordBreaking, layoutMode, displayProfile)
 
-      this.logger.info(
-        {
-          language,
-          locale: subscriptionLocale,
-          hints: languageHints,
-          displayLines,
-          displayWidth,
-        },
-        `UserSession initialized with language ${language}`,
-      )
+      await this.subscribeTranscription()
+      this.startSoundEvents()
     } catch (error) {
       this.logger.error({error}, "Error initializing UserSession, using fallback subscription")
+      this.subscribeFallback()
+    }
+  }
 
-      // Fallback: subscribe with default language (en-US) and no hints
-      this.transcriptionCleanup = this.appSession.events.onTranscriptionForLanguage(
-        "en-US",
-        (data: TranscriptionData) => {
-          this.transcripts.handleTranscription(data)
-        },
-      )
+  /**
+   * Subscribe to transcription with the language and hints from settings
+   */
+  private async subscribeTranscription(): Promise<void> {
+    // Get language configuration from settings
+    const language = this.settings.get("language")
+    const multilingual = this.settings.get("multilingual")
+    const languageHints = multilingual
+      ? conversationLanguages(language, this.settings.get("languageHints"))
+      : this.settings.get("languageHints")
+
+    // Subscribe to transcription events with language and hints
+    // "auto" lets the provider identify the language of each utterance;
+    // conversation mode does the same across every declared language
+    const subscriptionLocale = language === "auto" || multilingual ? "auto" : resolveLocale(language)
+
+    this.transcriptionCleanup = this.appSession.events.onTranscriptionForLanguage(
+      subscriptionLocale,
+      (data: TranscriptionData) => {
+        // Route all transcriptions through TranscriptsManager
+        this.transcripts.handleTranscription(data)
+      },
+      {
+        hints: languageHints,
+      },
+    )
+    this.activeLocale = subscriptionLocale
+
+    this.logger.info(
+      {
+        language,
+        multilingual,
+        locale: subscriptionLocale,
+        hints: languageHints,
+      },
+      `Subscribed to transcription with language ${language}`,
+    )
+  }
+
+  /**
+   * Fallback: subscribe with default language (en-US) and no hints
+   */
+  private subscribeFallback(): void {
+    this.transcriptionCleanup = this.appSession.events.onTranscriptionForLanguage(
+      "en-US",
+      (data: TranscriptionData) => {
+        this.transcripts.handleTranscription(data)
+      },
+    )
+    this.activeLocale = "en-US"
+  }
+
+  /**
+   * Caption non-speech sounds when a sound event detector is configured
+   */
+  private startSoundEvents(): void {
+    const detector = getSoundDetector()
+    if (!detector) return
+
+    this.soundEventsCleanup = detector.start(this.appSession, (event) => {
+      this.transcripts.handleSoundEvent(event)
+    })
+    this.logger.info({detector: detector.name}, "Listening for sound events")
+  }
+
+  private stopSoundEvents(): void {
+    if (this.soundEventsCleanup) {
+      this.soundEventsCleanup()
+      this.soundEventsCleanup = null
     }
   }
 
-  dispose() {
-    // Clean up transcription subscription
+  /**
+   * Follow the connected glasses so captions use the right display profile
+   */
+  private watchDevice(): void {
+    const capabilities = this.appSession.capabilities
+    this.display.setDevice(this.getDeviceInfo(capabilities?.modelName ?? null, capabilities))
+
+    this.deviceCleanup = this.appSession.events.onCapabilitiesUpdate((update) => {
+      this.display.setDevice(this.getDeviceInfo(update.modelName, update.capabilities))
+    })
+  }
+
+  private getDeviceInfo(modelName: string | null, capabilities: AppSession["capabilities"]): DeviceInfo {
+    const state = this.appSession.device.state.getSnapshot()
+    return {
+      modelName: modelName ?? state.modelName ?? null,
+      maxTextLines: capabilities?.display?.maxTextLines ?? null,
+      clientVersion: state.appVersion ?? null,
+    }
+  }
+
+  private unwatchDevice(): void {
+    if (this.deviceCleanup) {
+      this.deviceCleanup()
+      this.deviceCleanup = null
+    }
+  }
+
+  private unsubscribeTranscription(): void {
     if (this.transcriptionCleanup) {
       this.transcriptionCleanup()
       this.transcriptionCleanup = null
     }
+    this.activeLocale = null
+  }
+
+  /**
+   * Re-subscribe to transcription with the current language and hints
+   *
+   * Called by SettingsManager when the language or hints change. Only the
+   * subscription is replaced; transcript history, the display and SSE clients
+   * are untouched.
+   */
+  resubscribe(): Promise<void> {
+    this.resubscribing = this.resubscribing.then(async () => {
+      // Suspended sessions pick up the new settings when they resume
+      if (UserSession.userSessions.get(this.userId) !== this) return
+
+      this.unsubscribeTranscription()
+      try {
+        await this.subscribeTranscription()
+      } catch (error) {
+        this.logger.error({error}, "Error re-subscribing to transcription, using fallback subscription")
+        this.subscribeFallback()
+      }
+    })
+    return this.resubscribing
+  }
+
+  /**
+   * Locale of the live transcription subscription, or null when not subscribed
+   */
+  getActiveLocale(): string | null {
+    return this.activeLocale
+  }
+
+  /**
+   * Keep the session after onStop in case the SDK reconnects
+   *
+   * Transcription is unsubscribed and the session stops being served by the
+   * API, but transcripts, speaker names and SSE clients are kept. If onSession
+   * fires for the same user within the grace period the session is resumed,
+   * otherwise it's disposed.
+   */
+  suspend(gracePeriodMs: number = RECONNECT_GRACE_PERIOD_MS): void {
+    this.unsubscribeTranscription()
+    this.stopSoundEvents()
+    this.unwatchDevice()
+    this.display.dispose()
+
+    if (UserSession.userSessions.get(this.userId) === this) {
+      UserSession.userSessions.delete(this.userId)
+    }
+    UserSession.suspendedSessions.set(this.userId, this)
+
+    if (this.gracePeriodTimer) clearTimeout(this.gracePeriodTimer)
+    this.gracePeriodTimer = setTimeout(() => {
+      this.gracePeriodTimer = null
+      this.logger.info("Reconnect grace period expired, disposing UserSession")
+      this.dispose()
+    }, gracePeriodMs)
+
+    this.logger.info({gracePeriodMs}, "UserSession suspended, waiting for reconnect")
+  }
+
+  /**
+   * Pick the session back up with the AppSession from a new onSession
+   *
+   * Settings are re-read from the new AppSession and re-applied, and
+   * transcription is subscribed again. Transcript history and SSE clients
+   * carry over untouched.
+   */
+  async resume(appSession: AppSession): Promise<void> {
+    if (this.gracePeriodTimer) {
+      clearTimeout(this.gracePeriodTimer)
+      this.gracePeriodTimer = null
+    }
+    if (UserSession.suspendedSessions.get(this.userId) === this) {
+      UserSession.suspendedSessions.delete(this.userId)
+    }
+
+    this.unsubscribeTranscription()
+    this.stopSoundEvents()
+    this.unwatchDevice()
+    this.appSession = appSession
+    UserSession.userSessions.set(this.userId, this)
+
+    try {
+      await this.settings.initialize()
+      await this.speakers.initialize()
+      await this.vocabulary.initialize()
+      this.watchDevice()
+      await this.subscribeTranscription()
+      this.startSoundEvents()
+      this.logger.info(
+        {restoredTranscripts: this.transcripts.getAll().length},
+        "UserSession resumed after reconnect",
+      )
+    } catch (error) {
+      this.logger.error({error}, "Error resuming UserSession, using fallback subscription")
+      this.subscribeFallback()
+    }
+  }
+
+  dispose() {
+    // Clean up transcription subscription and sound detection
+    this.unsubscribeTranscription()
+    this.stopSoundEvents()
+    this.unwatchDevice()
+
+    if (this.gracePeriodTimer) {
+      clearTimeout(this.gracePeriodTimer)
+      this.gracePeriodTimer = null
+    }
 
     this.transcripts.dispose()
     this.settings.dispose()
     this.display.dispose()
-    UserSession.userSessions.delete(this.userId)
+    this.archive.dispose()
+
+    // A newer session for the same user may already have taken our place
+    if (UserSession.userSessions.get(this.userId) === this) {
+      UserSession.userSessions.delete(this.userId)
+    }
+    if (UserSession.suspendedSessions.get(this.userId) === this) {
+      UserSession.suspendedSessions.delete(this.userId)
+    }
   }
 
   public static getUserSession(userId: string): UserSession | undefined {
     return UserSession.userSessions.get(userId)
   }
+
+  /**
+   * A stopped session still within its reconnect grace period
+   */
+  public static getSuspendedSession(userId: string): UserSession | undefined {
+    return UserSession.suspendedSessions.get(userId)
+  }
 }
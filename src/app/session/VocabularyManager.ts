@@ -0,0 +1,134 @@
+import {randomUUID} from "crypto"
+import {UserSession} from "./UserSession"
+import {
+  applyReplacementRules,
+  compileReplacementRules,
+  MAX_REPLACEMENT_RULES,
+  type CompiledReplacementRule,
+  type ReplacementRule,
+  type ReplacementRuleInput,
+} from "../utils/ReplacementRules"
+
+// SimpleStorage key for the user's replacement rules
+const RULES_STORAGE_KEY = "replacementRules"
+
+/**
+ * VocabularyManager - the user's find→replace rules for transcription text
+ *
+ * Rules are stored in SimpleStorage and applied to every transcription before
+ * it is archived, sent to the webview or shown on the glasses.
+ *
+ * The recognizer can't be primed with these terms: the SDK's transcription
+ * hints are language codes ("es", "fr"), so correcting the text afterwards is
+ * the only place they take effect.
+ */
+export class VocabularyManager {
+  readonly userSession: UserSession
+  readonly logger: UserSession["logger"]
+
+  private rules: ReplacementRule[] = []
+  private compiled: CompiledReplacementRule[] = []
+
+  constructor(userSession: UserSession) {
+    this.userSession = userSession
+    this.logger = userSession.logger.child({service: "VocabularyManager"})
+  }
+
+  /**
+   * Load the rules from SimpleStorage
+   */
+  async initialize(): Promise<void> {
+    try {
+      const stored = await this.userSession.appSession.simpleStorage.get(RULES_STORAGE_KEY)
+      const parsed = stored ? JSON.parse(stored) : []
+      this.setRules(Array.isArray(parsed) ? parsed : [])
+    } catch (error) {
+      this.logger.error({error}, "Failed to load replacement rules")
+      this.setRules([])
+    }
+  }
+
+  getRules(): ReplacementRule[] {
+    return this.rules.map((rule) => ({...rule}))
+  }
+
+  /**
+   * Apply every rule, in order, to transcription text
+   */
+  apply(text: string): string {
+    return this.compiled.length > 0 ? applyReplacementRules(text, this.compiled) : text
+  }
+
+  async addRule(input: ReplacementRuleInput): Promise<ReplacementRule> {
+    const rule = {id: randomUUID(), ...input}
+    await this.save([...this.rules, rule])
+    this.logger.info({find: rule.find}, "Replacement rule added")
+    return rule
+  }
+
+  /**
+   * Replace a rule's contents, keeping its position. Returns null if there is no such rule.
+   */
+  async updateRule(id: string, input: ReplacementRuleInput): Promise<ReplacementRule | null> {
+    if (!this.rules.some((rule) => rule.id === id)) return null
+
+    const updated = {id, ...input}
+    await this.save(this.rules.map((rule) => (rule.id === id ? updated : rule)))
+    this.logger.info({find: updated.find}, "Replacement rule updated")
+    return updated
+  }
+
+  /**
+   * Returns false if there is no such rule
+   */
+  async deleteRule(id: string): Promise<boolean> {
+    if (!this.rules.some((rule) => rule.id === id)) return false
+
+    await this.save(this.rules.filter((rule) => rule.id !== id))
+    this.logger.info({id}, "Replacement rule deleted")
+    return true
+  }
+
+  /**
+   * Add imported rules. A rule with the same find text as an existing one replaces it.
+   * Throws if that would leave more than MAX_REPLACEMENT_RULES rules.
+   */
+  async importRules(imported: ReplacementRuleInput[]): Promise<void> {
+    const rules = this.mergeRules(imported)
+    if (rules.length > MAX_REPLACEMENT_RULES) {
+      throw new Error(`At most ${MAX_REPLACEMENT_RULES} rules are allowed`)
+    }
+    await this.save(rules)
+    this.logger.info(`Imported ${imported.length} replacement rules`)
+  }
+
+  /**
+   * Number of rules there would be after importing these
+   */
+  countAfterImport(imported: ReplacementRuleInput[]): number {
+    return this.mergeRules(imported).length
+  }
+
+  private mergeRules(imported: ReplacementRuleInput[]): ReplacementRule[] {
+    const rules = [...this.rules]
+    for (const input of imported) {
+      const existing = rules.findIndex((rule) => rule.find === input.find && rule.regex === input.regex)
+      if (existing >= 0) {
+        rules[existing] = {id: rules[existing].id, ...input}
+      } else {
+        rules.push({id: randomUUID(), ...input})
+      }
+    }
+    return rules
+  }
+
+  private async save(rules: ReplacementRule[]): Promise<void> {
+    await this.userSession.appSession.simpleStorage.set(RULES_STORAGE_KEY, JSON.stringify(rules))
+    this.setRules(rules)
+  }
+
+  private setRules(rules: ReplacementRule[]): void {
+    this.rules = rules
+    this.compiled = compileReplacementRules(rules)
+  }
+}
@@ -0,0 +1,33 @@
+import type {AppSession} from "@mentra/sdk"
+
+import type {SoundEvent, SoundEventDetector} from "./SoundEventDetector"
+
+/**
+ * Stand-in detector for tests and local development.
+ *
+ * Detects nothing by itself; `emit` delivers an event to every session that
+ * is currently listening.
+ */
+export class FakeSoundEventDetector implements SoundEventDetector {
+  readonly name = "fake"
+
+  private readonly listeners = new Set<(event: SoundEvent) => void>()
+
+  start(_appSession: AppSession, onEvent: (event: SoundEvent) => void): () => void {
+    this.listeners.add(onEvent)
+    return () => {
+      this.listeners.delete(onEvent)
+    }
+  }
+
+  emit(event: SoundEvent): void {
+    for (const listener of this.listeners) {
+      listener(event)
+    }
+  }
+
+  /** Number of sessions currently listening */
+  get listenerCount(): number {
+    return this.listeners.size
+  }
+}
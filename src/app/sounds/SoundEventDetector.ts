@@ -0,0 +1,56 @@
+/**
+ * SoundEventDetector
+ *
+ * Detects non-speech sounds (doorbells, alarms, laughter...) so they can be
+ * captioned alongside speech. Detectors implement this interface; the active
+ * detector is selected in `./index.ts`.
+ */
+
+import type {AppSession} from "@mentra/sdk"
+
+export const SOUND_CATEGORIES = [
+  "doorbell",
+  "knock",
+  "alarm",
+  "phone",
+  "baby",
+  "dog",
+  "laughter",
+  "applause",
+  "music",
+] as const
+
+export type SoundCategory = (typeof SOUND_CATEGORIES)[number]
+
+/** Caption tag text per category, shown as "[door knock]" */
+export const SOUND_LABELS: Record<SoundCategory, string> = {
+  doorbell: "doorbell",
+  knock: "door knock",
+  alarm: "alarm",
+  phone: "phone ringing",
+  baby: "baby crying",
+  dog: "dog barking",
+  laughter: "laughter",
+  applause: "applause",
+  music: "music",
+}
+
+export interface SoundEvent {
+  category: SoundCategory
+  /** More specific tag text from the detector ("smoke alarm"); defaults to the category's label */
+  label?: string
+  /** Detector confidence, 0-1 */
+  confidence: number
+}
+
+export interface SoundEventDetector {
+  /** Detector name, for logs */
+  readonly name: string
+
+  /**
+   * Start detecting sounds in a session's audio
+   *
+   * @returns Stops detection for the session
+   */
+  start(appSession: AppSession, onEvent: (event: SoundEvent) => void): () => void
+}
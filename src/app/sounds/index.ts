@@ -0,0 +1,43 @@
+import {FakeSoundEventDetector} from "./FakeSoundEventDetector"
+import type {SoundEventDetector} from "./SoundEventDetector"
+
+export * from "./SoundEventDetector"
+export {FakeSoundEventDetector} from "./FakeSoundEventDetector"
+
+let detector: SoundEventDetector | null | undefined = undefined
+
+/**
+ * Create the sound event detector selected by the environment.
+ *
+ * SOUND_DETECTOR - "none" (default) or "fake"
+ */
+function createSoundDetector(): SoundEventDetector | null {
+  const provider = process.env.SOUND_DETECTOR || "none"
+
+  switch (provider) {
+    case "none":
+      return null
+    case "fake":
+      return new FakeSoundEventDetector()
+    default:
+      throw new Error(`Unknown SOUND_DETECTOR provider: ${provider}`)
+  }
+}
+
+/**
+ * Shared detector, created on first use. Null when sound events aren't configured.
+ */
+export function getSoundDetector(): SoundEventDetector | null {
+  if (detector === undefined) {
+    detector = createSoundDetector()
+  }
+  return detector
+}
+
+/**
+ * Replace the shared detector (e.g. with a FakeSoundEventDetector in tests).
+ * Pass undefined to go back to the environment's provider.
+ */
+export function setSoundDetector(next: SoundEventDetector | null | undefined): void {
+  detector = next
+}
@@ -0,0 +1,149 @@
+import type {
+  ArchivedTranscript,
+  ConversationRecord,
+  ListConversationsOptions,
+  NewConversation,
+  TranscriptSearchHit,
+  TranscriptSearchOptions,
+  TranscriptStore,
+} from "./TranscriptStore"
+import {DEFAULT_SPEAKER_ID} from "./TranscriptStore"
+import {matchesAllTerms} from "../utils/TranscriptSearch"
+
+interface StoredConversation {
+  userId: string
+  startedAt: number
+  endedAt: number
+  language: string
+  transcripts: Map<string, ArchivedTranscript>
+  speakerNames: Map<string, string>
+}
+
+/**
+ * In-process transcript store. Nothing survives a server restart, so this is
+ * meant for tests and local development without a data directory.
+ */
+export class MemoryTranscriptStore implements TranscriptStore {
+  private conversations: Map<string, StoredConversation> = new Map()
+
+  async createConversation(userId: string, conversation: NewConversation): Promise<ConversationRecord> {
+    const stored: StoredConversation = {
+      userId,
+      startedAt: conversation.startedAt,
+      endedAt: conversation.startedAt,
+      language: conversation.language,
+      transcripts: new Map(),
+      speakerNames: new Map(),
+    }
+    this.conversations.set(conversation.id, stored)
+    return toConversationRecord(conversation.id, stored)
+  }
+
+  async appendTranscript(userId: string, transcript: ArchivedTranscript): Promise<void> {
+    const conversation = this.conversations.get(transcript.conversationId)
+    if (!conversation || conversation.userId !== userId) {
+      throw new Error(`Conversation ${transcript.conversationId} not found for user`)
+    }
+    conversation.transcripts.set(transcript.id, {...transcript})
+    conversation.endedAt = Math.max(conversation.endedAt, transcript.receivedAt)
+  }
+
+  async listConversations(userId: string, options: ListConversationsOptions = {}): Promise<ConversationRecord[]> {
+    const before = options.before ?? Number.MAX_SAFE_INTEGER
+    const records = Array.from(this.conversations.entries())
+      .filter(([, c]) => c.userId === userId && c.startedAt < before)
+      .map(([id, c]) => toConversationRecord(id, c))
+      .sort((a, b) => b.startedAt - a.startedAt)
+
+    return options.limit !== undefined ? records.slice(0, options.limit) : records
+  }
+
+  async getConversation(userId: string, conversationId: string): Promise<ConversationRecord | null> {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation || conversation.userId !== userId) return null
+    return toConversationRecord(conversationId, conversation)
+  }
+
+  async getTranscripts(userId: string, conversationId: string): Promise<ArchivedTranscript[]> {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation || conversation.userId !== userId) return []
+    return sortedTranscripts(conversation).map((t) => ({...t}))
+  }
+
+  async searchTranscripts(userId: string, options: TranscriptSearchOptions): Promise<TranscriptSearchHit[]> {
+    const speaker = options.speaker?.toLowerCase()
+    const hits: TranscriptSearchHit[] = []
+
+    for (const conversation of this.conversations.values()) {
+      if (conversation.userId !== userId) continue
+      if (options.language && conversation.language !== options.language) continue
+
+      for (const t of conversation.transcripts.values()) {
+        const time = t.startedAt ?? t.receivedAt
+        if (options.from !== undefined && time < options.from) continue
+        if (options.to !== undefined && time > options.to) continue
+        if (speaker && t.speaker.toLowerCase() !== speaker && t.speakerId !== options.speaker) continue
+        if (!matchesAllTerms(t.text, options.terms)) continue
+
+        hits.push({...t, conversationStartedAt: conversation.startedAt, language: conversation.language})
+      }
+    }
+
+    hits.sort((a, b) => (b.startedAt ?? b.receivedAt) - (a.startedAt ?? a.receivedAt))
+    return options.limit !== undefined ? hits.slice(0, options.limit) : hits
+  }
+
+  async getSpeakerNames(userId: string, conversationId: string): Promise<Record<string, string>> {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation || conversation.userId !== userId) return {}
+    return Object.fromEntries(conversation.speakerNames)
+  }
+
+  async setSpeakerName(
+    userId: string,
+    conversationId: string,
+    speakerId: string,
+    name: string | null,
+    label: string,
+  ): Promise<void> {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation || conversation.userId !== userId) {
+      throw new Error(`Conversation ${conversationId} not found for user`)
+    }
+
+    if (name) {
+      conversation.speakerNames.set(speakerId, name)
+    } else {
+      conversation.speakerNames.delete(speakerId)
+    }
+
+    for (const t of conversation.transcripts.values()) {
+      if ((t.speakerId ?? DEFAULT_SPEAKER_ID) === speakerId) {
+        t.speaker = label
+      }
+    }
+  }
+
+  close(): void {
+    this.conversations.clear()
+  }
+}
+
+function sortedTranscripts(conversation: StoredConversation): ArchivedTranscript[] {
+  return Array.from(conversation.transcripts.values()).sort(
+    (a, b) => (a.startedAt ?? a.receivedAt) - (b.startedAt ?? b.receivedAt),
+  )
+}
+
+function toConversationRecord(id: string, conversation: StoredConversation): ConversationRecord {
+  const transcripts = sortedTranscripts(conversation)
+  return {
+    id,
+    userId: conversation.userId,
+    startedAt: conversation.startedAt,
+    endedAt: conversation.endedAt,
+    language: conversation.language,
+    speakers: Array.from(new Set(transcripts.map((t) => t.speaker))),
+    transcriptCount: transcripts.length,
+  }
+}
@@ -0,0 +1,314 @@
+import {mkdirSync} from "fs"
+import path from "path"
+
+import {Database} from "bun:sqlite"
+
+import type {
+  ArchivedTranscript,
+  ConversationRecord,
+  ListConversationsOptions,
+  NewConversation,
+  TranscriptSearchHit,
+  TranscriptSearchOptions,
+  TranscriptStore,
+} from "./TranscriptStore"
+import {DEFAULT_SPEAKER_ID} from "./TranscriptStore"
+import {matchesAllTerms} from "../utils/TranscriptSearch"
+
+interface ConversationRow {
+  id: string
+  user_id: string
+  started_at: number
+  ended_at: number
+  language: string
+  speakers: string | null
+  transcript_count: number
+}
+
+interface TranscriptRow {
+  id: string
+  conversation_id: string
+  utterance_id: string | null
+  speaker_id: string | null
+  speaker: string
+  text: string
+  started_at: number | null
+  ended_at: number | null
+  received_at: number
+}
+
+interface SearchRow extends TranscriptRow {
+  conversation_started_at: number
+  language: string
+}
+
+const CONVERSATION_COLUMNS = `
+  c.id, c.user_id, c.started_at, c.ended_at, c.language,
+  (SELECT GROUP_CONCAT(speaker, char(31)) FROM (
+    SELECT DISTINCT speaker FROM transcripts t WHERE t.conversation_id = c.id
+  )) AS speakers,
+  (SELECT COUNT(*) FROM transcripts t WHERE t.conversation_id = c.id) AS transcript_count
+`
+
+/**
+ * SQLite-backed transcript store using Bun's built-in driver.
+ * A single database file holds every user's conversations.
+ */
+export class SqliteTranscriptStore implements TranscriptStore {
+  private readonly db: Database
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      mkdirSync(path.dirname(filename), {recursive: true})
+    }
+    this.db = new Database(filename, {create: true})
+    this.db.run("PRAGMA journal_mode = WAL")
+    this.db.run("PRAGMA foreign_keys = ON")
+    this.migrate()
+  }
+
+  private migrate(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER NOT NULL,
+        language TEXT NOT NULL
+      )
+    `)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS transcripts (
+        id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        utterance_id TEXT,
+        speaker_id TEXT,
+        speaker TEXT NOT NULL,
+        text TEXT NOT NULL,
+        received_at INTEGER NOT NULL,
+        PRIMARY KEY (conversation_id, id)
+      )
+    `)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS speaker_names (
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        speaker_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        PRIMARY KEY (conversation_id, speaker_id)
+      )
+    `)
+    // Columns added after the initial schema
+    this.ensureColumn("transcripts", "started_at", "INTEGER")
+    this.ensureColumn("transcripts", "ended_at", "INTEGER")
+
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations(user_id, started_at)")
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_transcripts_time ON transcripts(conversation_id, received_at)")
+  }
+
+  private ensureColumn(table: string, column: string, type: string): void {
+    const columns = this.db.query(`PRAGMA table_info(${table})`).all() as Array<{name: string}>
+    if (!columns.some((c) => c.name === column)) {
+      this.db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`)
+    }
+  }
+
+  async createConversation(userId: string, conversation: NewConversation): Promise<ConversationRecord> {
+    this.db
+      .query("INSERT INTO conversations (id, user_id, started_at, ended_at, language) VALUES (?, ?, ?, ?, ?)")
+      .run(conversation.id, userId, conversation.startedAt, conversation.startedAt, conversation.language)
+
+    return {
+      id: conversation.id,
+      userId,
+      startedAt: conversation.startedAt,
+      endedAt: conversation.startedAt,
+      language: conversation.language,
+      speakers: [],
+      transcriptCount: 0,
+    }
+  }
+
+  async appendTranscript(userId: string, transcript: ArchivedTranscript): Promise<void> {
+    const append = this.db.transaction(() => {
+      const updated = this.db
+        .query("UPDATE conversations SET ended_at = MAX(ended_at, ?) WHERE id = ? AND user_id = ?")
+        .run(transcript.receivedAt, transcript.conversationId, userId)
+
+      if (updated.changes === 0) {
+        throw new Error(`Conversation ${transcript.conversationId} not found for user`)
+      }
+
+      this.db
+        .query(
+          `INSERT OR REPLACE INTO transcripts
+            (id, conversation_id, utterance_id, speaker_id, speaker, text, started_at, ended_at, received_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          transcript.id,
+          transcript.conversationId,
+          transcript.utteranceId,
+          transcript.speakerId,
+          transcript.speaker,
+          transcript.text,
+          transcript.startedAt,
+          transcript.endedAt,
+          transcript.receivedAt,
+        )
+    })
+
+    append()
+  }
+
+  async listConversations(userId: string, options: ListConversationsOptions = {}): Promise<ConversationRecord[]> {
+    const rows = this.db
+      .query(
+        `SELECT ${CONVERSATION_COLUMNS} FROM conversations c
+         WHERE c.user_id = ? AND c.started_at < ?
+         ORDER BY c.started_at DESC
+         LIMIT ?`,
+      )
+      .all(userId, options.before ?? Number.MAX_SAFE_INTEGER, options.limit ?? -1) as ConversationRow[]
+
+    return rows.map(toConversationRecord)
+  }
+
+  async getConversation(userId: string, conversationId: string): Promise<ConversationRecord | null> {
+    const row = this.db
+      .query(`SELECT ${CONVERSATION_COLUMNS} FROM conversations c WHERE c.id = ? AND c.user_id = ?`)
+      .get(conversationId, userId) as ConversationRow | null
+
+    return row ? toConversationRecord(row) : null
+  }
+
+  async getTranscripts(userId: string, conversationId: string): Promise<ArchivedTranscript[]> {
+    const rows = this.db
+      .query(
+        `SELECT t.* FROM transcripts t
+         JOIN conversations c ON c.id = t.conversation_id
+         WHERE t.conversation_id = ? AND c.user_id = ?
+         ORDER BY COALESCE(t.started_at, t.received_at) ASC`,
+      )
+      .all(conversationId, userId) as TranscriptRow[]
+
+    return rows.map(toArchivedTranscript)
+  }
+
+  async searchTranscripts(userId: string, options: TranscriptSearchOptions): Promise<TranscriptSearchHit[]> {
+    if (options.terms.length === 0) return []
+
+    const conditions = ["c.user_id = ?"]
+    const params: Array<string | number> = [userId]
+
+    // Text and speaker are matched below: SQLite's LIKE and NOCASE only fold ASCII case
+    if (options.from !== undefined) {
+      conditions.push("COALESCE(t.started_at, t.received_at) >= ?")
+      params.push(options.from)
+    }
+    if (options.to !== undefined) {
+      conditions.push("COALESCE(t.started_at, t.received_at) <= ?")
+      params.push(options.to)
+    }
+    if (options.language) {
+      conditions.push("c.language = ?")
+      params.push(options.language)
+    }
+
+    const rows = this.db
+      .query(
+        `SELECT t.*, c.started_at AS conversation_started_at, c.language FROM transcripts t
+         JOIN conversations c ON c.id = t.conversation_id
+         WHERE ${conditions.join(" AND ")}
+         ORDER BY COALESCE(t.started_at, t.received_at) DESC`,
+      )
+      .all(...params) as SearchRow[]
+
+    const speaker = options.speaker?.toLowerCase()
+
+    return rows
+      .filter((row) => !speaker || row.speaker.toLowerCase() === speaker || row.speaker_id === options.speaker)
+      .filter((row) => matchesAllTerms(row.text, options.terms))
+      .slice(0, options.limit ?? rows.length)
+      .map((row) => ({
+        ...toArchivedTranscript(row),
+        conversationStartedAt: row.conversation_started_at,
+        language: row.language,
+      }))
+  }
+
+  async getSpeakerNames(userId: string, conversationId: string): Promise<Record<string, string>> {
+    const rows = this.db
+      .query(
+        `SELECT s.speaker_id, s.name FROM speaker_names s
+         JOIN conversations c ON c.id = s.conversation_id
+         WHERE s.conversation_id = ? AND c.user_id = ?`,
+      )
+      .all(conversationId, userId) as Array<{speaker_id: string; name: string}>
+
+    return Object.fromEntries(rows.map((row) => [row.speaker_id, row.name]))
+  }
+
+  async setSpeakerName(
+    userId: string,
+    conversationId: string,
+    speakerId: string,
+    name: string | null,
+    label: string,
+  ): Promise<void> {
+    const rename = this.db.transaction(() => {
+      const owned = this.db
+        .query("SELECT 1 FROM conversations WHERE id = ? AND user_id = ?")
+        .get(conversationId, userId)
+
+      if (!owned) {
+        throw new Error(`Conversation ${conversationId} not found for user`)
+      }
+
+      if (name) {
+        this.db
+          .query("INSERT OR REPLACE INTO speaker_names (conversation_id, speaker_id, name) VALUES (?, ?, ?)")
+          .run(conversationId, speakerId, name)
+      } else {
+        this.db
+          .query("DELETE FROM speaker_names WHERE conversation_id = ? AND speaker_id = ?")
+          .run(conversationId, speakerId)
+      }
+
+      this.db
+        .query("UPDATE transcripts SET speaker = ? WHERE conversation_id = ? AND COALESCE(speaker_id, ?) = ?")
+        .run(label, conversationId, DEFAULT_SPEAKER_ID, speakerId)
+    })
+
+    rename()
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
+
+function toConversationRecord(row: ConversationRow): ConversationRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    language: row.language,
+    speakers: row.speakers ? row.speakers.split("\u001f") : [],
+    transcriptCount: row.transcript_count,
+  }
+}
+
+function toArchivedTranscript(row: TranscriptRow): ArchivedTranscript {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    utteranceId: row.utterance_id,
+    speakerId: row.speaker_id,
+    speaker: row.speaker,
+    text: row.text,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    receivedAt: row.received_at,
+  }
+}
@@ -0,0 +1,212 @@
+import {afterEach, beforeEach, describe, expect, test} from "bun:test"
+import {mkdtempSync, rmSync} from "fs"
+import {tmpdir} from "os"
+import path from "path"
+
+import {Database} from "bun:sqlite"
+
+import {MemoryTranscriptStore} from "./MemoryTranscriptStore"
+import {SqliteTranscriptStore} from "./SqliteTranscriptStore"
+import type {ArchivedTranscript, TranscriptStore} from "./TranscriptStore"
+
+const USER_ID = "user@example.com"
+const OTHER_USER_ID = "other@example.com"
+
+function transcript(
+  conversationId: string,
+  id: string,
+  text: string,
+  receivedAt: number,
+  extra: Partial<ArchivedTranscript> = {},
+): ArchivedTranscript {
+  return {
+    id,
+    conversationId,
+    utteranceId: id,
+    speakerId: "1",
+    speaker: "Speaker 1",
+    text,
+    startedAt: null,
+    endedAt: null,
+    receivedAt,
+    ...extra,
+  }
+}
+
+const BACKENDS: Array<[string, () => TranscriptStore]> = [
+  ["MemoryTranscriptStore", () => new MemoryTranscriptStore()],
+  ["SqliteTranscriptStore", () => new SqliteTranscriptStore(":memory:")],
+]
+
+describe.each(BACKENDS)("%s", (_name, createStore) => {
+  let store: TranscriptStore
+
+  beforeEach(() => {
+    store = createStore()
+  })
+
+  afterEach(() => {
+    store.close()
+  })
+
+  test("should append transcripts and keep the conversation's end time current", async () => {
+    await store.createConversation(USER_ID, {id: "c1", startedAt: 1000, language: "en"})
+    await store.appendTranscript(USER_ID, transcript("c1", "t2", "Second", 3000, {speakerId: "2", speaker: "Speaker 2"}))
+    await store.appendTranscript(USER_ID, transcript("c1", "t1", "First", 2000))
+
+    const conversation = await store.getConversation(USER_ID, "c1")
+    expect(conversation).toMatchObject({startedAt: 1000, endedAt: 3000, language: "en", transcriptCount: 2})
+    expect([...conversation!.speakers].sort()).toEqual(["Speaker 1", "Speaker 2"])
+    expect((await store.getTranscripts(USER_ID, "c1")).map((t) => t.text)).toEqual(["First", "Second"])
+  })
+
+  test("should replace a transcript appended again with the same id", async () => {
+    await store.createConversation(USER_ID, {id: "c1", startedAt: 1000, language: "en"})
+    await store.appendTranscript(USER_ID, transcript("c1", "t1", "Helo", 2000))
+    await store.appendTranscript(USER_ID, transcript("c1", "t1", "Hello", 2000))
+
+    expect((await store.getTranscripts(USER_ID, "c1")).map((t) => t.text)).toEqual(["Hello"])
+  })
+
+  test("should order transcripts by utterance start time when known", async () => {
+    await store.createConversation(USER_ID, {id: "c1", startedAt: 1000, language: "en"})
+    await store.appendTranscript(USER_ID, transcript("c1", "late", "Received first", 5000, {startedAt: 4000}))
+    await store.appendTranscript(USER_ID, transcript("c1", "early", "Started first", 6000, {startedAt: 3000}))
+
+    expect((await store.getTranscripts(USER_ID, "c1")).map((t) => t.id)).toEqual(["early", "late"])
+  })
+
+  test("should list a user's conversations newest first, with limit and before", async () => {
+    await store.createConversation(USER_ID, {id: "c1", startedAt: 1000, language: "en"})
+    await store.createConversation(USER_ID, {id: "c2", startedAt: 2000, language: "en"})
+    await store.createConversation(USER_ID, {id: "c3", startedAt: 3000, language: "fr"})
+    await store.createConversation(OTHER_USER_ID, {id: "c4", startedAt: 4000, language: "en"})
+
+    expect((await store.listConversations(USER_ID)).map((c) => c.id)).toEqual(["c3", "c2", "c1"])
+    expect((await store.listConversations(USER_ID, {limit: 2})).map((c) => c.id)).toEqual(["c3", "c2"])
+    expect((await store.listConversations(USER_ID, {before: 3000})).map((c) => c.id)).toEqual(["c2", "c1"])
+  })
+
+  test("should keep other users' conversations out of reach", async () => {
+    await store.createConversation(OTHER_USER_ID, {id: "c1", startedAt: 1000, language: "en"})
+    await store.appendTranscript(OTHER_USER_ID, transcript("c1", "t1", "Private", 2000))
+
+    expect(await store.getConversation(USER_ID, "c1")).toBeNull()
+    expect(await store.getTranscripts(USER_ID, "c1")).toEqual([])
+    expect(await store.searchTranscripts(USER_ID, {terms: ["private"]})).toEqual([])
+    await expect(store.appendTranscript(USER_ID, transcript("c1", "t2", "Intruder", 3000))).rejects.toThrow()
+    await expect(store.setSpeakerName(USER_ID, "c1", "1", "Mallory", "Mallory")).rejects.toThrow()
+  })
+
+  test("should search with every term, case-insensitively, newest first", async () => {
+    await store.createConversation(USER_ID, {id: "c1", startedAt: 1000, language: "en"})
+    await store.appendTranscript(USER_ID, transcript("c1", "t1", "The Budget meeting", 2000))
+    await store.appendTranscript(USER_ID, transcript("c1", "t2", "Budget review meeting", 3000))
+    await store.appendTranscript(USER_ID, transcript("c1", "t3", "Lunch plans", 4000))
+
+    const hits = await store.searchTranscripts(USER_ID, {terms: ["budget", "meeting"]})
+    expect(hits.map((hit) => hit.id)).toEqual(["t2", "t1"])
+    expect(hits[0]).toMatchObject({conversationStartedAt: 1000, language: "en"})
+    expect((await store.searchTranscripts(USER_ID, {terms: ["budget"], limit: 1})).map((hit) => hit.id)).toEqual(["t2"])
+  })
+
+  test("should treat % and _ in search terms literally", async () => {
+    await store.createConversation(USER_ID, {id: "c1", startedAt: 1000, language: "en"})
+    await store.appendTranscript(USER_ID, transcript("c1", "t1", "Growth was 50% this year", 2000))
+    await store.appendTranscript(USER_ID, transcript("c1", "t2", "Growth was 500 units", 3000))
+    await store.appendTranscript(USER_ID, transcript("c1", "t3", "snake_case names", 4000))
+
+    expect((await store.searchTranscripts(USER_ID, {terms: ["50%"]})).map((hit) => hit.id)).toEqual(["t1"])
+    expect((await store.searchTranscripts(USER_ID, {terms: ["e_c"]})).map((hit) => hit.id)).toEqual(["t3"])
+  })
+
+  test("should match text and speakers case-insensitively outside ASCII", async () => {
+    await store.createConversation(USER_ID, {id: "c1", startedAt: 1000, language: "ru"})
+    await store.appendTranscript(USER_ID, transcript("c1", "t1", "Привет Москва", 2000, {speaker: "Ольга"}))
+    await store.appendTranscript(USER_ID, transcript("c1", "t2", "Grüße aus MÜNCHEN", 3000))
+
+    expect((await store.searchTranscripts(USER_ID, {terms: ["москва"]})).map((hit) => hit.id)).toEqual(["t1"])
+    expect((await store.searchTranscripts(USER_ID, {terms: ["münchen"]})).map((hit) => hit.id)).toEqual(["t2"])
+    expect(
+      (await store.searchTranscripts(USER_ID, {terms: ["привет"], speaker: "ОЛЬГА"})).map((hit) => hit.id),
+    ).toEqual(["t1"])
+  })
+
+  test("should filter search by speaker, time and language", async () => {
+    await store.createConversation(USER_ID, {id: "c1", startedAt: 1000, language: "en"})
+    await store.createConversation(USER_ID, {id: "c2", startedAt: 10000, language: "fr"})
+    await store.appendTranscript(USER_ID, transcript("c1", "t1", "hello Alice", 2000))
+    await store.appendTranscript(USER_ID, transcript("c1", "t2", "hello Bob", 3000, {speakerId: "2", speaker: "Bob"}))
+    await store.appendTranscript(USER_ID, transcript("c2", "t3", "hello bonjour", 11000))
+
+    const ids = async (options: object) =>
+      (await store.searchTranscripts(USER_ID, {terms: ["hello"], ...options})).map((hit) => hit.id)
+
+    expect(await ids({speaker: "bob"})).toEqual(["t2"])
+    expect(await ids({speaker: "2"})).toEqual(["t2"])
+    expect(await ids({from: 2500, to: 3000})).toEqual(["t2"])
+    expect(await ids({language: "fr"})).toEqual(["t3"])
+    expect(await store.searchTranscripts(USER_ID, {terms: []})).toEqual([])
+  })
+
+  test("should name speakers and relabel their transcripts", async () => {
+    await store.createConversation(USER_ID, {id: "c1", startedAt: 1000, language: "en"})
+    await store.appendTranscript(USER_ID, transcript("c1", "t1", "Hi", 2000))
+    await store.appendTranscript(USER_ID, transcript("c1", "t2", "No diarization", 3000, {speakerId: null}))
+    await store.appendTranscript(USER_ID, transcript("c1", "t3", "Hey", 4000, {speakerId: "2", speaker: "Speaker 2"}))
+
+    await store.setSpeakerName(USER_ID, "c1", "1", "Alice", "Alice")
+    expect(await store.getSpeakerNames(USER_ID, "c1")).toEqual({"1": "Alice"})
+    // Transcripts without a speaker ID belong to the default speaker
+    expect((await store.getTranscripts(USER_ID, "c1")).map((t) => t.speaker)).toEqual(["Alice", "Alice", "Speaker 2"])
+
+    await store.setSpeakerName(USER_ID, "c1", "1", null, "Speaker 1")
+    expect(await store.getSpeakerNames(USER_ID, "c1")).toEqual({})
+    expect((await store.getTranscripts(USER_ID, "c1")).map((t) => t.speaker)).toEqual([
+      "Speaker 1",
+      "Speaker 1",
+      "Speaker 2",
+    ])
+  })
+})
+
+describe("SqliteTranscriptStore migrations", () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "transcripts-"))
+  })
+
+  afterEach(() => {
+    rmSync(directory, {recursive: true, force: true})
+  })
+
+  test("should add utterance time columns to a database from before they existed", async () => {
+    const filename = path.join(directory, "transcripts.sqlite")
+    const db = new Database(filename, {create: true})
+    db.run(`CREATE TABLE conversations (
+      id TEXT PRIMARY KEY, user_id TEXT NOT NULL, started_at INTEGER NOT NULL,
+      ended_at INTEGER NOT NULL, language TEXT NOT NULL)`)
+    db.run(`CREATE TABLE transcripts (
+      id TEXT NOT NULL, conversation_id TEXT NOT NULL, utterance_id TEXT, speaker_id TEXT,
+      speaker TEXT NOT NULL, text TEXT NOT NULL, received_at INTEGER NOT NULL,
+      PRIMARY KEY (conversation_id, id))`)
+    db.run("INSERT INTO conversations VALUES ('c1', ?, 1000, 2000, 'en')", [USER_ID])
+    db.run("INSERT INTO transcripts VALUES ('t1', 'c1', 't1', '1', 'Speaker 1', 'Old', 2000)")
+    db.close()
+
+    const store = new SqliteTranscriptStore(filename)
+    await store.appendTranscript(USER_ID, transcript("c1", "t2", "New", 3000, {startedAt: 2500, endedAt: 2900}))
+
+    expect(await store.getTranscripts(USER_ID, "c1")).toEqual([
+      transcript("c1", "t1", "Old", 2000),
+      transcript("c1", "t2", "New", 3000, {startedAt: 2500, endedAt: 2900}),
+    ])
+    store.close()
+
+    // Opening it again leaves the migrated schema alone
+    const reopened = new SqliteTranscriptStore(filename)
+    expect((await reopened.getTranscripts(USER_ID, "c1")).map((t) => t.text)).toEqual(["Old", "New"])
+    reopened.close()
+  })
+})
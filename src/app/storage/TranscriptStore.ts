@@ -0,0 +1,109 @@
+/**
+ * TranscriptStore
+ *
+ * Storage layer for finalized transcripts. Transcripts are grouped into
+ * conversations (a run of speech bounded by a start and end time) so that
+ * captions outlive the UserSession that produced them.
+ *
+ * Backends implement this interface; the active backend is selected in
+ * `./index.ts`.
+ */
+
+/**
+ * Transcripts without diarization are attributed to this speaker.
+ */
+export const DEFAULT_SPEAKER_ID = "1"
+
+/**
+ * A conversation - a contiguous run of captions for one user.
+ */
+export interface ConversationRecord {
+  id: string
+  userId: string
+  /** Epoch ms of the first transcript */
+  startedAt: number
+  /** Epoch ms of the most recent transcript (updated as transcripts arrive) */
+  endedAt: number
+  /** Language setting that was active when the conversation started */
+  language: string
+  /** Distinct speaker labels seen in the conversation */
+  speakers: string[]
+  transcriptCount: number
+}
+
+/**
+ * A finalized transcript persisted as part of a conversation.
+ */
+export interface ArchivedTranscript {
+  id: string
+  conversationId: string
+  utteranceId: string | null
+  speakerId: string | null
+  speaker: string
+  text: string
+  /** Epoch ms when the utterance started, if the provider reported it */
+  startedAt: number | null
+  /** Epoch ms when the utterance ended, if the provider reported it */
+  endedAt: number | null
+  receivedAt: number
+}
+
+export interface NewConversation {
+  id: string
+  startedAt: number
+  language: string
+}
+
+export interface ListConversationsOptions {
+  /** Maximum number of conversations to return (newest first) */
+  limit?: number
+  /** Only return conversations that started before this epoch ms */
+  before?: number
+}
+
+export interface TranscriptSearchOptions {
+  /** Lowercase search terms; every term must appear in the transcript text */
+  terms: string[]
+  /** Speaker label or diarization ID */
+  speaker?: string
+  /** Only transcripts at or after this epoch ms */
+  from?: number
+  /** Only transcripts at or before this epoch ms */
+  to?: number
+  /** Conversation language */
+  language?: string
+  /** Maximum number of hits (newest first) */
+  limit?: number
+}
+
+export interface TranscriptSearchHit extends ArchivedTranscript {
+  conversationStartedAt: number
+  language: string
+}
+
+export interface TranscriptStore {
+  createConversation(userId: string, conversation: NewConversation): Promise<ConversationRecord>
+  /**
+   * Append a transcript to a conversation. Appending an id that already
+   * exists replaces the stored text (e.g. a re-finalized utterance).
+   */
+  appendTranscript(userId: string, transcript: ArchivedTranscript): Promise<void>
+  listConversations(userId: string, options?: ListConversationsOptions): Promise<ConversationRecord[]>
+  getConversation(userId: string, conversationId: string): Promise<ConversationRecord | null>
+  getTranscripts(userId: string, conversationId: string): Promise<ArchivedTranscript[]>
+  searchTranscripts(userId: string, options: TranscriptSearchOptions): Promise<TranscriptSearchHit[]>
+  /** User-assigned speaker names for a conversation, keyed by speaker ID */
+  getSpeakerNames(userId: string, conversationId: string): Promise<Record<string, string>>
+  /**
+   * Name (or with null, un-name) a speaker in a conversation and relabel the
+   * speaker's stored transcripts with `label`.
+   */
+  setSpeakerName(
+    userId: string,
+    conversationId: string,
+    speakerId: string,
+    name: string | null,
+    label: string,
+  ): Promise<void>
+  close(): void
+}
@@ -0,0 +1,49 @@
+import path from "path"
+
+import {MemoryTranscriptStore} from "./MemoryTranscriptStore"
+import {SqliteTranscriptStore} from "./SqliteTranscriptStore"
+import type {TranscriptStore} from "./TranscriptStore"
+
+export * from "./TranscriptStore"
+export {MemoryTranscriptStore} from "./MemoryTranscriptStore"
+export {SqliteTranscriptStore} from "./SqliteTranscriptStore"
+
+let transcriptStore: TranscriptStore | null = null
+
+/**
+ * Create the transcript store selected by the environment.
+ *
+ * TRANSCRIPT_STORE    - "sqlite" (default) or "memory"
+ * TRANSCRIPT_DB_PATH  - SQLite file path (default: ./data/transcripts.sqlite)
+ */
+function createTranscriptStore(): TranscriptStore {
+  const backend = process.env.TRANSCRIPT_STORE || "sqlite"
+
+  switch (backend) {
+    case "memory":
+      return new MemoryTranscriptStore()
+    case "sqlite":
+      return new SqliteTranscriptStore(
+        process.env.TRANSCRIPT_DB_PATH || path.join(process.cwd(), "data", "transcripts.sqlite"),
+      )
+    default:
+      throw new Error(`Unknown TRANSCRIPT_STORE backend: ${backend}`)
+  }
+}
+
+/**
+ * Shared transcript store, created on first use.
+ */
+export function getTranscriptStore(): TranscriptStore {
+  if (!transcriptStore) {
+    transcriptStore = createTranscriptStore()
+  }
+  return transcriptStore
+}
+
+/**
+ * Replace the shared transcript store (e.g. with a MemoryTranscriptStore in tests).
+ */
+export function setTranscriptStore(store: TranscriptStore | null): void {
+  transcriptStore = store
+}
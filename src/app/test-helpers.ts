@@ -0,0 +1,133 @@
+import type {AppSession, TranscriptionData} from "@mentra/sdk"
+
+import {LiveCaptionsApp} from "./index"
+
+export const USER_ID = "user@example.com"
+
+type Logger = AppSession["logger"]
+
+/**
+ * Logger that drops everything, for handing to code under test
+ */
+export function createSilentLogger(): Logger {
+  const logger = {
+    info() {},
+    warn() {},
+    error() {},
+    debug() {},
+    child: () => logger,
+  }
+  return logger as unknown as Logger
+}
+
+/**
+ * The parts of the glasses' capabilities the app reads
+ */
+interface FakeCapabilities {
+  modelName: string
+  display: {maxTextLines: number}
+}
+
+type CapabilitiesHandler = (update: {capabilities: FakeCapabilities | null; modelName: string | null}) => void
+
+interface Subscription {
+  locale: string
+  hints: string[] | undefined
+  handler: (data: TranscriptionData) => void
+  active: boolean
+}
+
+/**
+ * Minimal stand-in for the SDK AppSession: in-memory SimpleStorage, recorded
+ * transcription subscriptions and no-op layouts.
+ */
+export class FakeAppSession {
+  readonly userId = USER_ID
+  readonly logger = createSilentLogger()
+  readonly storage = new Map<string, string>()
+  readonly subscriptions: Subscription[] = []
+
+  readonly simpleStorage = {
+    get: async (key: string) => this.storage.get(key),
+    set: async (key: string, value: string) => {
+      this.storage.set(key, value)
+    },
+  }
+
+  readonly events = {
+    onTranscriptionForLanguage: (
+      locale: string,
+      handler: (data: TranscriptionData) => void,
+      options?: {hints?: string[]},
+    ) => {
+      const subscription: Subscription = {locale, hints: options?.hints, handler, active: true}
+      this.subscriptions.push(subscription)
+      return () => {
+        subscription.active = false
+      }
+    },
+    onCapabilitiesUpdate: (handler: CapabilitiesHandler) => {
+      this.capabilityHandlers.add(handler)
+      return () => {
+        this.capabilityHandlers.delete(handler)
+      }
+    },
+  }
+
+  // Connected glasses, as reported by the SDK
+  capabilities: FakeCapabilities | null = null
+  readonly deviceState: {modelName?: string; appVersion?: string} = {}
+  readonly device = {state: {getSnapshot: () => this.deviceState}}
+  readonly capabilityHandlers = new Set<CapabilitiesHandler>()
+
+  // Text walls sent to the glasses, and how long each was asked to stay up
+  readonly shown: string[] = []
+  readonly durations: Array<number | undefined> = []
+  // Reference cards (keyword alerts) sent to the glasses
+  readonly cards: Array<{title: string; text: string}> = []
+
+  readonly layouts = {
+    showTextWall: (text: string, options?: {durationMs?: number}) => {
+      this.shown.push(text)
+      this.durations.push(options?.durationMs)
+    },
+    showDoubleTextWall() {},
+    showReferenceCard: (title: string, text: string) => {
+      this.cards.push({title, text})
+    },
+  }
+
+  /**
+   * Report newly connected glasses
+   */
+  connectGlasses(modelName: string, maxTextLines: number): void {
+    this.capabilities = {modelName, display: {maxTextLines}}
+    for (const handler of this.capabilityHandlers) {
+      handler({capabilities: this.capabilities, modelName})
+    }
+  }
+
+  get activeSubscriptions(): Subscription[] {
+    return this.subscriptions.filter((s) => s.active)
+  }
+
+  /**
+   * Deliver a transcription to every active subscription and let the pipeline settle
+   */
+  async emit(text: string, isFinal: boolean, utteranceId: string, extra: Partial<TranscriptionData> = {}): Promise<void> {
+    for (const subscription of this.activeSubscriptions) {
+      subscription.handler({text, isFinal, utteranceId, ...extra} as TranscriptionData)
+    }
+    await Bun.sleep(10)
+  }
+}
+
+export class TestApp extends LiveCaptionsApp {
+  connect(session: FakeAppSession, sessionId: string): Promise<void> {
+    return this.onSession(session as unknown as AppSession, sessionId, USER_ID)
+  }
+
+  disconnect(sessionId: string): Promise<void> {
+    return this.onStop(sessionId, USER_ID, "User session ended")
+  }
+}
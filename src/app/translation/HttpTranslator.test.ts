@@ -0,0 +1,67 @@
+import {afterEach, beforeEach, describe, expect, test} from "bun:test"
+import type {Server} from "bun"
+
+import {HttpTranslator} from "./HttpTranslator"
+
+describe("HttpTranslator", () => {
+  let server: Server<undefined>
+  let respond: (body: unknown) => Response | Promise<Response>
+  let requests: unknown[]
+
+  beforeEach(() => {
+    requests = []
+    respond = () => Response.json({translatedText: "Hola"})
+    server = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body = await req.json()
+        requests.push(body)
+        return respond(body)
+      },
+    })
+  })
+
+  afterEach(() => {
+    server.stop(true)
+  })
+
+  const translator = (options: {apiKey?: string; timeoutMs?: number} = {}) =>
+    new HttpTranslator({url: `http://localhost:${server.port}/translate`, ...options})
+
+  test("should post the text and return the translation", async () => {
+    expect(await translator().translate({text: "Hello", sourceLanguage: "en", targetLanguage: "es"})).toBe("Hola")
+    expect(requests).toEqual([{q: "Hello", source: "en", target: "es", format: "text"}])
+  })
+
+  test("should send the API key when one is set", async () => {
+    await translator({apiKey: "secret"}).translate({text: "Hello", sourceLanguage: "auto", targetLanguage: "es"})
+    expect(requests).toEqual([{q: "Hello", source: "auto", target: "es", format: "text", api_key: "secret"}])
+  })
+
+  test("should reject on an HTTP error", async () => {
+    respond = () => Response.json({error: "Too many requests"}, {status: 429, statusText: "Too Many Requests"})
+
+    await expect(
+      translator().translate({text: "Hello", sourceLanguage: "en", targetLanguage: "es"}),
+    ).rejects.toThrow("Translation request failed: 429 Too Many Requests")
+  })
+
+  test("should reject a response without a translation", async () => {
+    respond = () => Response.json({translated: "Hola"})
+
+    await expect(
+      translator().translate({text: "Hello", sourceLanguage: "en", targetLanguage: "es"}),
+    ).rejects.toThrow("Translation response is missing translatedText")
+  })
+
+  test("should give up once the timeout passes", async () => {
+    respond = async () => {
+      await Bun.sleep(200)
+      return Response.json({translatedText: "Hola"})
+    }
+
+    await expect(
+      translator({timeoutMs: 20}).translate({text: "Hello", sourceLanguage: "en", targetLanguage: "es"}),
+    ).rejects.toThrow()
+  })
+})
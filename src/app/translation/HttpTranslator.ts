@@ -0,0 +1,54 @@
+import type {TranslateRequest, Translator} from "./Translator"
+
+const DEFAULT_TIMEOUT_MS = 5000
+
+export interface HttpTranslatorOptions {
+  /** Translate endpoint, e.g. https://libretranslate.example.com/translate */
+  url: string
+  apiKey?: string
+  timeoutMs?: number
+}
+
+/**
+ * Translator backed by a LibreTranslate-compatible HTTP API
+ * (POST {q, source, target, format} -> {translatedText}).
+ */
+export class HttpTranslator implements Translator {
+  readonly name = "http"
+
+  private readonly url: string
+  private readonly apiKey: string | undefined
+  private readonly timeoutMs: number
+
+  constructor(options: HttpTranslatorOptions) {
+    this.url = options.url
+    this.apiKey = options.apiKey
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  }
+
+  async translate({text, targetLanguage, sourceLanguage}: TranslateRequest): Promise<string> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {"Content-Type": "application/json"},
+      body: JSON.stringify({
+        q: text,
+        source: sourceLanguage,
+        target: targetLanguage,
+        format: "text",
+        ...(this.apiKey ? {api_key: this.apiKey} : {}),
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Translation request failed: ${response.status} ${response.statusText}`)
+    }
+
+    const body = (await response.json()) as {translatedText?: unknown}
+    if (typeof body.translatedText !== "string") {
+      throw new Error("Translation response is missing translatedText")
+    }
+
+    return body.translatedText
+  }
+}
@@ -0,0 +1,27 @@
+import type {TranslateRequest, Translator} from "./Translator"
+
+/**
+ * In-process stand-in translator for tests and local development.
+ *
+ * Looks text up in a fixed dictionary per target language, and otherwise
+ * returns the text tagged with the target language ("[es] hello").
+ * Every request is kept in `requests` so tests can assert on them.
+ */
+export class MemoryTranslator implements Translator {
+  readonly name = "memory"
+  readonly requests: TranslateRequest[] = []
+
+  private readonly dictionary: Record<string, Record<string, string>>
+
+  /**
+   * @param dictionary - Translations keyed by target language, then source text
+   */
+  constructor(dictionary: Record<string, Record<string, string>> = {}) {
+    this.dictionary = dictionary
+  }
+
+  async translate(request: TranslateRequest): Promise<string> {
+    this.requests.push(request)
+    return this.dictionary[request.targetLanguage]?.[request.text] ?? `[${request.targetLanguage}] ${request.text}`
+  }
+}
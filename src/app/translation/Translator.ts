@@ -0,0 +1,24 @@
+/**
+ * Translator
+ *
+ * Translation provider for live translated captions. Providers implement this
+ * interface; the active provider is selected in `./index.ts`.
+ */
+
+export interface TranslateRequest {
+  text: string
+  /** Language code to translate into (e.g. "es") */
+  targetLanguage: string
+  /** Language code of the text, or "auto" to let the provider detect it */
+  sourceLanguage: string
+}
+
+export interface Translator {
+  /** Provider name, for logs */
+  readonly name: string
+
+  /**
+   * Translate text. Rejects if the provider fails; callers fall back to the original text.
+   */
+  translate(request: TranslateRequest): Promise<string>
+}
@@ -0,0 +1,55 @@
+import {HttpTranslator} from "./HttpTranslator"
+import {MemoryTranslator} from "./MemoryTranslator"
+import type {Translator} from "./Translator"
+
+export * from "./Translator"
+export {HttpTranslator} from "./HttpTranslator"
+export {MemoryTranslator} from "./MemoryTranslator"
+
+let translator: Translator | null | undefined = undefined
+
+/**
+ * Create the translator selected by the environment.
+ *
+ * TRANSLATOR           - "http" (default when TRANSLATION_URL is set), "memory" or "none"
+ * TRANSLATION_URL      - Translate endpoint of a LibreTranslate-compatible API
+ * TRANSLATION_API_KEY  - Optional API key sent with each request
+ */
+function createTranslator(): Translator | null {
+  const provider = process.env.TRANSLATOR || (process.env.TRANSLATION_URL ? "http" : "none")
+
+  switch (provider) {
+    case "none":
+      return null
+    case "memory":
+      return new MemoryTranslator()
+    case "http":
+      if (!process.env.TRANSLATION_URL) {
+        throw new Error("TRANSLATOR=http requires TRANSLATION_URL")
+      }
+      return new HttpTranslator({
+        url: process.env.TRANSLATION_URL,
+        apiKey: process.env.TRANSLATION_API_KEY,
+      })
+    default:
+      throw new Error(`Unknown TRANSLATOR provider: ${provider}`)
+  }
+}
+
+/**
+ * Shared translator, created on first use. Null when translation isn't configured.
+ */
+export function getTranslator(): Translator | null {
+  if (translator === undefined) {
+    translator = createTranslator()
+  }
+  return translator
+}
+
+/**
+ * Replace the shared translator (e.g. with a MemoryTranslator in tests).
+ * Pass undefined to go back to the environment's provider.
+ */
+export function setTranslator(next: Translator | null | undefined): void {
+  translator = next
+}
@@ -0,0 +1,31 @@
+/**
+ * Transliterator
+ *
+ * Writes caption text in another script: Chinese as Pinyin or Zhuyin,
+ * Japanese as romaji or a hiragana reading, Korean as Revised
+ * Romanization... A language can have several transliterators; the user
+ * picks at most one per language in settings. Transliterators are registered in `./index.ts`.
+ */
+
+/**
+ * What captions show when a transliterator applies: the text as spoken, the
+ * transliteration, or both stacked (original above the transliteration)
+ */
+export const TRANSLITERATION_MODES = ["original", "transliterated", "both"] as const
+
+export type TransliterationMode = (typeof TRANSLITERATION_MODES)[number]
+
+export interface Transliterator {
+  /** Unique id, stored in settings (e.g. "zh-pinyin") */
+  readonly id: string
+  /** Base language code of the text it handles (e.g. "zh") */
+  readonly language: string
+  /** Name of the scheme, shown in the webview (e.g. "Pinyin") */
+  readonly name: string
+
+  /**
+   * Transliterate text. Anything the scheme doesn't cover (other scripts,
+   * digits, most punctuation) is kept as it is.
+   */
+  transliterate(text: string): string
+}
@@ -0,0 +1,16 @@
+import type {Transliterator} from "./Transliterator"
+import {convertToPinyin, convertToZhuyin} from "../utils/ChineseUtils"
+
+export const pinyinTransliterator: Transliterator = {
+  id: "zh-pinyin",
+  language: "zh",
+  name: "Pinyin",
+  transliterate: convertToPinyin,
+}
+
+export const zhuyinTransliterator: Transliterator = {
+  id: "zh-zhuyin",
+  language: "zh",
+  name: "Zhuyin (Bopomofo)",
+  transliterate: convertToZhuyin,
+}
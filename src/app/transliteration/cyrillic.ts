@@ -0,0 +1,62 @@
+import type {Transliterator} from "./Transliterator"
+
+/**
+ * Cyrillic to Latin
+ *
+ * Russian uses a simplified BGN/PCGN romanization; Ukrainian and Bulgarian
+ * use their national romanizations and Serbian its own Latin alphabet.
+ * Letters are mapped one by one, keeping capitals (Щука = Shchuka, ЩИ = SHCHI).
+ */
+
+const RUSSIAN: Record<string, string> = {
+  а: "a", б: "b", в: "v", г: "g", д: "d", е: "e", ё: "yo", ж: "zh", з: "z", и: "i", й: "y",
+  к: "k", л: "l", м: "m", н: "n", о: "o", п: "p", р: "r", с: "s", т: "t", у: "u", ф: "f",
+  х: "kh", ц: "ts", ч: "ch", ш: "sh", щ: "shch", ъ: "", ы: "y", ь: "", э: "e", ю: "yu", я: "ya",
+}
+
+const UKRAINIAN: Record<string, string> = {
+  ...RUSSIAN,
+  г: "h", ґ: "g", є: "ye", и: "y", і: "i", ї: "yi",
+}
+
+const BULGARIAN: Record<string, string> = {
+  ...RUSSIAN,
+  х: "h", щ: "sht", ъ: "a", ь: "y",
+}
+
+const SERBIAN: Record<string, string> = {
+  а: "a", б: "b", в: "v", г: "g", д: "d", ђ: "đ", е: "e", ж: "ž", з: "z", и: "i", ј: "j",
+  к: "k", л: "l", љ: "lj", м: "m", н: "n", њ: "nj", о: "o", п: "p", р: "r", с: "s", т: "t",
+  ћ: "ć", у: "u", ф: "f", х: "h", ц: "c", ч: "č", џ: "dž", ш: "š",
+}
+
+function transliterateWith(table: Record<string, string>, text: string): string {
+  const chars = Array.from(text)
+  return chars
+    .map((char, i) => {
+      const lower = char.toLowerCase()
+      const latin = table[lower]
+      if (latin === undefined) return char
+      if (lower === char) return latin
+      // Capital letter: all caps inside an all-caps word, otherwise title case
+      const next = chars[i + 1] ?? ""
+      return next && next !== next.toLowerCase() ? latin.toUpperCase() : latin.charAt(0).toUpperCase() + latin.slice(1)
+    })
+    .join("")
+}
+
+function cyrillicTransliterator(language: string, table: Record<string, string>): Transliterator {
+  return {
+    id: `${language}-latin`,
+    language,
+    name: "Latin alphabet",
+    transliterate: (text) => transliterateWith(table, text),
+  }
+}
+
+export const cyrillicTransliterators: Transliterator[] = [
+  cyrillicTransliterator("ru", RUSSIAN),
+  cyrillicTransliterator("uk", UKRAINIAN),
+  cyrillicTransliterator("bg", BULGARIAN),
+  cyrillicTransliterator("sr", SERBIAN),
+]
@@ -0,0 +1,67 @@
+import {pinyinTransliterator, zhuyinTransliterator} from "./chinese"
+import {cyrillicTransliterators} from "./cyrillic"
+import {kanaTransliterator, romajiTransliterator} from "./japanese"
+import {revisedRomanizationTransliterator} from "./korean"
+import type {Transliterator} from "./Transliterator"
+
+export * from "./Transliterator"
+
+const registry = new Map<string, Transliterator>()
+
+/**
+ * Add (or replace) a transliterator
+ */
+export function registerTransliterator(transliterator: Transliterator): void {
+  registry.set(transliterator.id, transliterator)
+}
+
+for (const transliterator of [
+  pinyinTransliterator,
+  zhuyinTransliterator,
+  romajiTransliterator,
+  kanaTransliterator,
+  revisedRomanizationTransliterator,
+  ...cyrillicTransliterators,
+]) {
+  registerTransliterator(transliterator)
+}
+
+export function listTransliterators(): Transliterator[] {
+  return [...registry.values()]
+}
+
+export function getTransliterator(id: string): Transliterator | null {
+  return registry.get(id) ?? null
+}
+
+/**
+ * Error message for a list of transliterator ids that can't be selected
+ * together, or null if it is valid (known ids, at most one per language)
+ */
+export function validateTransliterators(value: unknown): string | null {
+  if (!Array.isArray(value) || !value.every((id) => typeof id === "string" && registry.has(id))) {
+    return `must be a list of: ${[...registry.keys()].join(", ")}`
+  }
+  const languages = value.map((id) => registry.get(id)!.language)
+  return new Set(languages).size === languages.length ? null : "must have at most one transliterator per language"
+}
+
+/**
+ * Transliterate text with the transliterator selected for its language
+ *
+ * @param language - Base language code of the text, or null when it isn't known
+ * @param selected - Transliterator ids from settings
+ * @returns The transliteration, or null when none is selected for the
+ *   language or it doesn't change the text
+ */
+export function transliterate(text: string, language: string | null, selected: string[]): string | null {
+  if (!language) return null
+
+  const transliterator = selected
+    .map((id) => registry.get(id))
+    .find((candidate) => candidate?.language === language)
+  if (!transliterator) return null
+
+  const transliterated = transliterator.transliterate(text)
+  return transliterated !== text ? transliterated : null
+}
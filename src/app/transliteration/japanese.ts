@@ -0,0 +1,254 @@
+import path from "path"
+
+import kuromoji, {type IpadicFeatures, type Tokenizer} from "kuromoji"
+
+import type {Transliterator} from "./Transliterator"
+import {segmentUnits} from "../utils/CjkLineBreaker"
+
+/**
+ * Japanese as romaji (modified Hepburn) or as a hiragana reading
+ *
+ * Kanji are read with kuromoji's IPADIC dictionary, which is loaded on first
+ * use. Until it has loaded, romaji only covers kana (kanji are kept as
+ * written) and the hiragana reading leaves the text as it is.
+ */
+
+const DICTIONARY_PATH = path.join(path.dirname(require.resolve("kuromoji")), "..", "dict")
+
+const KANA: Record<string, string> = {
+  あ: "a", い: "i", う: "u", え: "e", お: "o",
+  か: "ka", き: "ki", く: "ku", け: "ke", こ: "ko",
+  が: "ga", ぎ: "gi", ぐ: "gu", げ: "ge", ご: "go",
+  さ: "sa", し: "shi", す: "su", せ: "se", そ: "so",
+  ざ: "za", じ: "ji", ず: "zu", ぜ: "ze", ぞ: "zo",
+  た: "ta", ち: "chi", つ: "tsu", て: "te", と: "to",
+  だ: "da", ぢ: "ji", づ: "zu", で: "de", ど: "do",
+  な: "na", に: "ni", ぬ: "nu", ね: "ne", の: "no",
+  は: "ha", ひ: "hi", ふ: "fu", へ: "he", ほ: "ho",
+  ば: "ba", び: "bi", ぶ: "bu", べ: "be", ぼ: "bo",
+  ぱ: "pa", ぴ: "pi", ぷ: "pu", ぺ: "pe", ぽ: "po",
+  ま: "ma", み: "mi", む: "mu", め: "me", も: "mo",
+  や: "ya", ゆ: "yu", よ: "yo",
+  ら: "ra", り: "ri", る: "ru", れ: "re", ろ: "ro",
+  わ: "wa", ゐ: "i", ゑ: "e", を: "o", ん: "n", ゔ: "vu",
+  ぁ: "a", ぃ: "i", ぅ: "u", ぇ: "e", ぉ: "o", ゃ: "ya", ゅ: "yu", ょ: "yo", ゎ: "wa",
+}
+
+// Kana followed by a small vowel, mostly in loanwords (ファ = fa, ティ = ti)
+const SMALL_VOWEL_COMBINATIONS: Record<string, string> = {
+  ふぁ: "fa", ふぃ: "fi", ふぇ: "fe", ふぉ: "fo",
+  ゔぁ: "va", ゔぃ: "vi", ゔぇ: "ve", ゔぉ: "vo",
+  うぃ: "wi", うぇ: "we", うぉ: "wo",
+  しぇ: "she", ちぇ: "che", じぇ: "je",
+  てぃ: "ti", でぃ: "di", とぅ: "tu", どぅ: "du",
+  つぁ: "tsa", つぃ: "tsi", つぇ: "tse", つぉ: "tso",
+}
+
+const SMALL_Y: Record<string, string> = {ゃ: "a", ゅ: "u", ょ: "o"}
+
+const LONG_VOWELS: Record<string, string> = {a: "ā", i: "ī", u: "ū", e: "ē", o: "ō"}
+
+const PUNCTUATION: Record<string, string> = {
+  "。": ".", "、": ",", "！": "!", "？": "?", "「": "\"", "」": "\"", "・": " ", "〜": "~", "　": " ",
+}
+
+const KANA_CHAR = /[\p{Script=Hiragana}\p{Script=Katakana}]/u
+const JAPANESE_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u
+const HAN_CHAR = /\p{Script=Han}/u
+
+// Parts of speech whose endings (ます, た, て...) belong to the same word
+const INFLECTING = ["動詞", "形容詞", "助動詞"]
+
+// Opening brackets and quotes, which attach to the word after them
+const OPENING_PUNCTUATION = "「『（(［【"
+
+let tokenizer: Tokenizer<IpadicFeatures> | null = null
+let loading: Promise<void> | null = null
+
+/**
+ * Load the dictionary kanji readings come from. Transliterating starts it;
+ * await it where readings are needed at once.
+ */
+export function loadJapaneseDictionary(): Promise<void> {
+  loading ??= new Promise<void>((resolve, reject) => {
+    kuromoji.builder({dicPath: DICTIONARY_PATH}).build((error, built) => {
+      if (error) {
+        loading = null
+        reject(error)
+        return
+      }
+      tokenizer = built
+      resolve()
+    })
+  })
+  return loading
+}
+
+/**
+ * The dictionary's tokenizer, or null while it is loading
+ */
+function getTokenizer(): Tokenizer<IpadicFeatures> | null {
+  if (!tokenizer) {
+    loadJapaneseDictionary().catch((error) => console.error("Failed to load the Japanese dictionary:", error))
+  }
+  return tokenizer
+}
+
+/**
+ * Katakana reading of a token, or its text when the dictionary has none
+ * (Latin words, numbers)
+ */
+function readingOf(token: IpadicFeatures): string {
+  return token.reading && token.reading !== "*" ? token.reading : token.surface_form
+}
+
+/**
+ * Kana to romanize for a token: its reading, except particles, which follow
+ * how they are said (は is "wa"). Long vowels keep their kana spelling
+ * (とうきょう is "toukyou"), like romaji written from kana alone.
+ */
+function spokenKanaOf(token: IpadicFeatures): string {
+  if (token.pos === "助詞" && token.pronunciation && token.pronunciation !== "*") return token.pronunciation
+  return readingOf(token)
+}
+
+/**
+ * Katakana to hiragana, so one table covers both
+ */
+function toHiragana(text: string): string {
+  return text.replace(/[\u30A1-\u30F6]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60))
+}
+
+/**
+ * Romaji for a run of kana (and anything else, which is kept)
+ */
+function romanizeKana(text: string): string {
+  const chars = Array.from(toHiragana(text))
+  let result = ""
+  // Small tsu doubles the next consonant
+  let geminate = false
+  // Syllabic n is written n' before a vowel or y
+  let afterN = false
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i]
+    const next = chars[i + 1] ?? ""
+    let romaji: string | undefined
+
+    if (char === "っ") {
+      geminate = true
+      continue
+    }
+    if (char === "ー") {
+      const last = result.slice(-1)
+      if (LONG_VOWELS[last]) result = result.slice(0, -1) + LONG_VOWELS[last]
+      continue
+    }
+
+    const base = KANA[char]
+    if (SMALL_Y[next] && base && base.length > 1 && base.endsWith("i")) {
+      // Contracted sounds: きゃ = kya, しゃ = sha, ちょ = cho
+      const consonant = base.slice(0, -1)
+      romaji = (/^(sh|ch|j)$/.test(consonant) ? consonant : consonant + "y") + SMALL_Y[next]
+      i++
+    } else if (SMALL_VOWEL_COMBINATIONS[char + next]) {
+      romaji = SMALL_VOWEL_COMBINATIONS[char + next]
+      i++
+    } else {
+      romaji = base
+    }
+
+    if (romaji === undefined) {
+      result += PUNCTUATION[char] ?? char
+      geminate = afterN = false
+      continue
+    }
+
+    if (afterN && /^[aiueoy]/.test(romaji)) result += "'"
+    if (geminate && !/^[aiueo]/.test(romaji)) result += romaji.startsWith("ch") ? "t" : romaji[0]
+    result += romaji
+    geminate = false
+    afterN = char === "ん"
+  }
+
+  return result
+}
+
+/**
+ * Romaji for Japanese words, separated by spaces. Verb and adjective endings,
+ * suffixes and punctuation stay attached to the word before them.
+ */
+function romanizeWords(text: string, tokenizer: Tokenizer<IpadicFeatures>): string {
+  const words: string[] = []
+  let previous: IpadicFeatures | null = null
+
+  for (const token of tokenizer.tokenize(text)) {
+    const attaches =
+      previous !== null &&
+      (OPENING_PUNCTUATION.includes(previous.surface_form) ||
+        spokenKanaOf(previous).endsWith("ッ") ||
+        (token.pos === "記号" && !OPENING_PUNCTUATION.includes(token.surface_form)) ||
+        token.pos_detail_1 === "接尾" ||
+        (INFLECTING.includes(previous.pos) && (token.pos === "助動詞" || token.pos_detail_1 === "接続助詞")))
+
+    if (attaches) {
+      words[words.length - 1] += spokenKanaOf(token)
+    } else {
+      words.push(spokenKanaOf(token))
+    }
+    previous = token
+  }
+
+  // Whole words at once, so a small tsu before the next token still doubles it
+  return words.map(romanizeKana).join(" ")
+}
+
+/**
+ * Apply a conversion to the runs of Japanese text, keeping whitespace and
+ * text in other scripts
+ */
+function convertJapanese(text: string, convert: (chunk: string) => string): string {
+  return text
+    .split(/(\s+)/)
+    .map((chunk) => (JAPANESE_CHAR.test(chunk) ? convert(chunk) : chunk))
+    .join("")
+}
+
+export const romajiTransliterator: Transliterator = {
+  id: "ja-romaji",
+  language: "ja",
+  name: "Romaji",
+  transliterate: (text) => {
+    const tokenizer = getTokenizer()
+    if (tokenizer) return convertJapanese(text, (chunk) => romanizeWords(chunk, tokenizer))
+
+    // Without the dictionary: kana only, words split where the script changes
+    return text
+      .split(/(\s+)/)
+      .map((chunk) =>
+        KANA_CHAR.test(chunk)
+          ? segmentUnits(chunk)
+              .map((unit) => romanizeKana(unit.text))
+              .join(" ")
+          : chunk,
+      )
+      .join("")
+  },
+}
+
+export const kanaTransliterator: Transliterator = {
+  id: "ja-kana",
+  language: "ja",
+  name: "Hiragana reading",
+  transliterate: (text) => {
+    const tokenizer = getTokenizer()
+    if (!tokenizer) return text
+
+    return convertJapanese(text, (chunk) =>
+      tokenizer
+        .tokenize(chunk)
+        .map((token) => (HAN_CHAR.test(token.surface_form) ? toHiragana(readingOf(token)) : token.surface_form))
+        .join(""),
+    )
+  },
+}
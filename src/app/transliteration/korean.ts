@@ -0,0 +1,107 @@
+import type {Transliterator} from "./Transliterator"
+
+/**
+ * Korean to Revised Romanization
+ *
+ * Hangul syllables are split into their initial, vowel and final jamo. The
+ * common sound changes between syllables are applied, so words are written
+ * as they are said: a final consonant moves onto a following silent ㅇ
+ * (한국어 = hangugeo), finals before ㄴ/ㅁ become nasal (합니다 = hamnida)
+ * and ㄹ after another consonant is read as n or l (종로 = jongno, 신라 = silla).
+ */
+
+const HANGUL_START = 0xac00
+const HANGUL_END = 0xd7a3
+
+const INITIALS = ["g", "kk", "n", "d", "tt", "r", "m", "b", "pp", "s", "ss", "", "j", "jj", "ch", "k", "t", "p", "h"]
+const VOWELS = [
+  "a", "ae", "ya", "yae", "eo", "e", "yeo", "ye", "o", "wa", "wae",
+  "oe", "yo", "u", "wo", "we", "wi", "yu", "eu", "ui", "i",
+]
+// Finals at the end of a word or before a consonant
+const FINALS = [
+  "", "k", "k", "k", "n", "n", "n", "t", "l", "k", "m", "l", "l", "l",
+  "p", "l", "m", "p", "p", "t", "t", "ng", "t", "t", "k", "t", "p", "t",
+]
+// Finals carried over to a following syllable that starts with a silent ㅇ
+const LINKED_FINALS = [
+  "", "g", "kk", "gs", "n", "nj", "n", "d", "r", "lg", "lm", "lb", "ls", "lt",
+  "lp", "r", "m", "b", "bs", "s", "ss", "", "j", "ch", "k", "t", "p", "",
+]
+
+const SILENT_INITIAL = 11 // ㅇ
+const RIEUL_INITIAL = 5 // ㄹ
+const NG_FINAL = 21 // ㅇ
+const HIEUT_FINAL = 27 // ㅎ
+
+// A final ㅎ aspirates the consonant after it (좋다 = jota)
+const ASPIRATED: Record<string, string> = {g: "k", d: "t", j: "ch"}
+const NASALIZED: Record<string, string> = {k: "ng", t: "n", p: "m"}
+
+interface Syllable {
+  initial: number
+  vowel: number
+  final: number
+}
+
+function decompose(char: string | undefined): Syllable | null {
+  const code = char?.codePointAt(0)
+  if (code === undefined || code < HANGUL_START || code > HANGUL_END) return null
+  const index = code - HANGUL_START
+  return {initial: Math.floor(index / 588), vowel: Math.floor((index % 588) / 28), final: index % 28}
+}
+
+function romanizeHangul(text: string): string {
+  const chars = Array.from(text)
+  let result = ""
+  // Initial of the current syllable, when the previous syllable changed it
+  let initial: string | null = null
+
+  for (let i = 0; i < chars.length; i++) {
+    const syllable = decompose(chars[i])
+    if (!syllable) {
+      result += chars[i]
+      initial = null
+      continue
+    }
+
+    const next = decompose(chars[i + 1])
+    let final = FINALS[syllable.final]
+    let nextInitial: string | null = null
+
+    if (next && syllable.final !== 0) {
+      if (next.initial === SILENT_INITIAL && syllable.final !== NG_FINAL) {
+        final = ""
+        nextInitial = LINKED_FINALS[syllable.final]
+      } else {
+        nextInitial = INITIALS[next.initial]
+        if (syllable.final === HIEUT_FINAL && ASPIRATED[nextInitial]) {
+          final = ""
+          nextInitial = ASPIRATED[nextInitial]
+        } else if (next.initial === RIEUL_INITIAL) {
+          if (final === "l" || final === "n") {
+            final = "l"
+            nextInitial = "l"
+          } else {
+            nextInitial = "n"
+          }
+        }
+        if (nextInitial === "n" || nextInitial === "m") {
+          final = NASALIZED[final] ?? final
+        }
+      }
+    }
+
+    result += (initial ?? INITIALS[syllable.initial]) + VOWELS[syllable.vowel] + final
+    initial = nextInitial
+  }
+
+  return result
+}
+
+export const revisedRomanizationTransliterator: Transliterator = {
+  id: "ko-rr",
+  language: "ko",
+  name: "Revised Romanization",
+  transliterate: romanizeHangul,
+}
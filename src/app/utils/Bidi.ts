@@ -0,0 +1,42 @@
+/**
+ * Bidi
+ *
+ * Right-to-left text (Arabic, Hebrew, Persian, Urdu) in captions. Text stays
+ * in logical order; each line is given an explicit base direction so the
+ * renderer lays RTL lines out right to left, with the speaker label at the
+ * right, even when the line starts with a Latin name, a number or a label.
+ */
+
+// Right-to-left mark: zero-width, sets the direction of neutral text around it
+export const RLM = "\u200F";
+
+export type TextDirection = "ltr" | "rtl";
+
+// Hebrew, Arabic, Syriac, Thaana, NKo... and the RTL presentation forms
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFC]/;
+// First strongly directional character: RTL, or any other letter
+const STRONG_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFC]|\p{L}/u;
+// Speaker label at the start of a line, like [1]: or [Alice]:
+const SPEAKER_LABEL = /^\[[^\]]+\]:\s*/;
+
+export function hasRtl(text: string): boolean {
+  return RTL_CHAR.test(text);
+}
+
+/**
+ * Direction of a paragraph, from its first strongly directional character.
+ * The speaker label is skipped, since a Latin name says nothing about the
+ * language spoken.
+ */
+export function textDirection(text: string): TextDirection {
+  const content = text.replace(/^[\u200E\u200F]/, "").replace(SPEAKER_LABEL, "");
+  const strong = content.match(STRONG_CHAR);
+  return strong && RTL_CHAR.test(strong[0]) ? "rtl" : "ltr";
+}
+
+/**
+ * Prefix a line of an RTL paragraph with a right-to-left mark
+ */
+export function markRtl(line: string): string {
+  return line.startsWith(RLM) ? line : RLM + line;
+}
@@ -1,5 +1,6 @@
 import {describe, expect, test, beforeEach} from "bun:test"
 import {CaptionsFormatter} from "./CaptionsFormatter"
+import {listDisplayProfiles} from "./DisplayProfiles"
 
 describe("CaptionsFormatter", () => {
   let formatter: CaptionsFormatter
@@ -99,6 +100,17 @@ describe("CaptionsFormatter", () => {
       expect(result.displayText).toContain("[1]:")
       expect(result.displayText).toContain("[2]:")
     })
+
+    test("should use speakerLabel to resolve named speakers", () => {
+      const named = new CaptionsFormatter(undefined, {
+        speakerLabel: (speakerId) => (speakerId === "1" ? "Alice" : speakerId),
+      })
+      named.processTranscription("Hi", true, "1", true)
+      const result = named.processTranscription("Hello", false, "2", true)
+
+      expect(result.displayText).toContain("[Alice]: Hi")
+      expect(result.displayText).toContain("[2]: Hello")
+    })
   })
 
   describe("interim vs final processing", () => {
@@ -235,6 +247,27 @@ describe("CaptionsFormatter", () => {
     })
   })
 
+  describe("sound events", () => {
+    test("should show sound tags inline without a speaker label", () => {
+      formatter.processTranscription("Come in", true, "1", true)
+      const result = formatter.processSoundEvent("door knock")
+      expect(result.displayText).toBe("[1]: Come in [door knock]")
+
+      // The same speaker continues without a new label
+      const next = formatter.processTranscription("It's open", true, "1", false)
+      expect(next.displayText).toBe("[1]: Come in [door knock] It's open")
+    })
+
+    test("should put sound tags with the last speaker in split mode", () => {
+      const split = new CaptionsFormatter(undefined, {layoutMode: "split", maxLines: 4})
+      split.processTranscription("Hi there", true, "1", true)
+      split.processTranscription("Hello", true, "2", true)
+      const result = split.processSoundEvent("laughter")
+      expect(result.topText).toBe("[1]: Hi there")
+      expect(result.bottomText).toBe("[2]: Hello [laughter]")
+    })
+  })
+
   describe("clear functionality", () => {
     test("should clear all state", () => {
       formatter.processTranscription("Some text", true, "1", true)
@@ -374,4 +407,127 @@ describe("CaptionsFormatter", () => {
       expect(result.displayText).toContain("quick")
     })
   })
+
+  describe("layout modes", () => {
+    test("should default to rolling text wall", () => {
+      expect(formatter.getLayoutMode()).toBe("rolling")
+      expect(formatter.processTranscription("Hello", true).layout).toBe("text_wall")
+    })
+
+    test("utterance mode should show only the current utterance", () => {
+      const utterance = new CaptionsFormatter(undefined, {layoutMode: "utterance"})
+      utterance.processTranscription("First sentence", true, "1", true)
+
+      const interim = utterance.processTranscription("Second", false, "1", false)
+      expect(interim.displayText).toBe("[1]: Second")
+
+      const final = utterance.processTranscription("Second sentence", true, "1", false)
+      expect(final.displayText).toBe("[1]: Second sentence")
+    })
+
+    test("paged mode should clear the screen instead of scrolling", () => {
+      const paged = new CaptionsFormatter(undefined, {layoutMode: "paged", maxLines: 2, displayWidthPx: 200})
+      paged.processTranscription("alpha beta gamma", true)
+      const full = paged.processTranscription("delta epsilon zeta", true)
+      expect(full.lines.length).toBe(2)
+      expect(full.displayText).toContain("alpha")
+
+      const next = paged.processTranscription("eta theta iota", true)
+      expect(next.displayText).toBe("eta theta iota")
+    })
+
+    test("paged mode should keep adding to a page that isn't full", () => {
+      const paged = new CaptionsFormatter(undefined, {layoutMode: "paged", maxLines: 3})
+      paged.processTranscription("Hello", true)
+      const result = paged.processTranscription("world", true)
+      expect(result.displayText).toBe("Hello world")
+    })
+
+    test("split mode should give each speaker a half", () => {
+      const split = new CaptionsFormatter(undefined, {layoutMode: "split", maxLines: 4})
+      split.processTranscription("Hi there", true, "1", true)
+      const result = split.processTranscription("Hello", false, "2", true)
+
+      expect(result.layout).toBe("double_text_wall")
+      expect(result.topText).toBe("[1]: Hi there")
+      expect(result.bottomText).toBe("[2]: Hello")
+      expect(result.splitAt).toBe(1)
+    })
+
+    test("split mode should replace the quieter speaker when a third speaks", () => {
+      const split = new CaptionsFormatter(undefined, {layoutMode: "split", maxLines: 4})
+      split.processTranscription("One", true, "1", true)
+      split.processTranscription("Two", true, "2", true)
+      split.processTranscription("One again", true, "1", true)
+      const result = split.processTranscription("Three", true, "3", true)
+
+      expect(result.topText).toBe("[1]: One One again")
+      expect(result.bottomText).toBe("[3]: Three")
+    })
+  })
+
+  describe("right-to-left text", () => {
+    const RLM = "\u200F"
+
+    test("should mark RTL lines, label included, and leave LTR lines alone", () => {
+      formatter.processTranscription("Hello there", true, "1", true)
+      const result = formatter.processTranscription("שלום, מה שלומך?", true, "2", true)
+
+      expect(result.lines).toEqual(["[1]: Hello there", `${RLM}[2]: שלום, מה שלומך?`])
+    })
+
+    test("should take the direction from the text, not a Latin speaker name", () => {
+      const named = new CaptionsFormatter(undefined, {speakerLabel: () => "Alice"})
+      const result = named.processTranscription("مرحبا بكم", true, "1", true)
+      expect(result.lines).toEqual([`${RLM}[Alice]: مرحبا بكم`])
+    })
+
+    test("should wrap RTL paragraphs at word boundaries and mark every line", () => {
+      const narrow = new CaptionsFormatter(undefined, {breakMode: "character", displayWidthPx: 200})
+      const text = "هذا نص عربي طويل جدا يجب أن يلتف على عدة أسطر في النظارات 2024"
+      const result = narrow.processTranscription(text, true)
+
+      expect(result.lines.length).toBeGreaterThan(1)
+      for (const line of result.lines) {
+        expect(line.startsWith(RLM)).toBe(true)
+        expect(line.endsWith("-")).toBe(false)
+      }
+      // Lines are whole words, in logical order
+      expect(result.lines.map((line) => line.slice(1)).join(" ")).toBe(text)
+    })
+  })
+
+  describe("display profiles", () => {
+    const longText =
+      "The quick brown fox jumps over the lazy dog while the band keeps playing ".repeat(8) +
+      "and everyone at the back of the room is still trying to find a seat"
+
+    for (const profile of listDisplayProfiles()) {
+      test(`${profile.id} should fill its own width and line count`, () => {
+        const profiled = new CaptionsFormatter(profile, {breakMode: "word"})
+        const result = profiled.processTranscription(longText, true)
+        const measurer = profiled.getMeasurer()
+
+        expect(profiled.getDisplayWidthPx()).toBe(profile.displayWidthPx)
+        expect(result.lines).toHaveLength(profile.maxLines)
+        for (const line of result.lines) {
+          expect(measurer.measureText(line)).toBeLessThanOrEqual(profile.displayWidthPx)
+        }
+        // The newest words are always on screen
+        expect(result.lines[result.lines.length - 1]).toContain("seat")
+      })
+    }
+
+    test("wider profiles should fit more on a line", () => {
+      const [narrowest, ...others] = listDisplayProfiles().sort((a, b) => a.displayWidthPx - b.displayWidthPx)
+      const firstLine = (profile: typeof narrowest) =>
+        new CaptionsFormatter(profile, {breakMode: "word"}).processTranscription(longText, true).lines[0]
+
+      for (const profile of others) {
+        if (profile.displayWidthPx > narrowest.displayWidthPx) {
+          expect(firstLine(profile).length).toBeGreaterThanOrEqual(firstLine(narrowest).length)
+        }
+      }
+    })
+  })
 })
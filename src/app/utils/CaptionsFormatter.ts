@@ -16,13 +16,28 @@ import {
   DisplayHelpers,
   G1_PROFILE,
   G1_PROFILE_LEGACY,
+  type BreakMode,
   type DisplayProfile,
   type WrapOptions,
   type WrapResult,
 } from "@mentra/sdk/display-utils";
+import { hasRtl, markRtl, textDirection } from "./Bidi";
+import { hasCjk, wrapCjk } from "./CjkLineBreaker";
 
 // Re-export profiles for convenience
 export { G1_PROFILE, G1_PROFILE_LEGACY };
+export type { DisplayProfile };
+
+/**
+ * How captions are laid out on the glasses.
+ * - rolling: history scrolls up as new text arrives
+ * - utterance: only the current (or last finished) utterance
+ * - paged: fill the screen, then clear it and start a new page
+ * - split: one speaker per half, sent as a double text wall
+ */
+export type LayoutMode = "rolling" | "utterance" | "paged" | "split";
+
+export const LAYOUT_MODES: LayoutMode[] = ["rolling", "utterance", "paged", "split"];
 
 /**
  * Entry in the transcript history that preserves speaker information.
@@ -31,22 +46,34 @@ export interface TranscriptHistoryEntry {
   text: string;
   speakerId?: string;
   hadSpeakerChange: boolean;
+  /** A non-speech sound tag like "[door knock]", shown inline and never labelled */
+  sound?: boolean;
 }
 
+export type CaptionBreakMode = BreakMode | "cjk";
+
 /**
  * Options for the CaptionsFormatter.
  */
 export interface CaptionsFormatterOptions {
   /** Maximum number of final transcripts to keep in history */
   maxFinalTranscripts?: number;
-  /** Break mode for text wrapping */
-  breakMode?: "character" | "word" | "strict-word";
+  /**
+   * Break mode for text wrapping. "cjk" breaks between words found by
+   * segmentation, never hyphenates and applies kinsoku; paragraphs with
+   * Chinese, Japanese or Korean text are wrapped that way in every mode.
+   */
+  breakMode?: CaptionBreakMode;
   /** Whether to use character-level breaking for 100% utilization */
   useCharacterBreaking?: boolean;
   /** Override display width in pixels (defaults to profile's displayWidthPx) */
   displayWidthPx?: number;
   /** Override max lines (defaults to profile's maxLines) */
   maxLines?: number;
+  /** Resolve the text inside a [label]: for a speaker ID (defaults to the ID itself) */
+  speakerLabel?: (speakerId: string) => string;
+  /** How lines are laid out on the display (defaults to "rolling") */
+  layoutMode?: LayoutMode;
 }
 
 /**
@@ -61,6 +88,14 @@ export interface FormatResult {
   truncated: boolean;
   /** Per-line metrics */
   lineMetrics: WrapResult["lineMetrics"];
+  /** "double_text_wall" in split mode, where `lines` holds the top lines then the bottom lines */
+  layout: "text_wall" | "double_text_wall";
+  /** Split mode: text for the top half */
+  topText?: string;
+  /** Split mode: text for the bottom half */
+  bottomText?: string;
+  /** Split mode: number of top-half lines at the start of `lines` */
+  splitAt?: number;
 }
 
 /**
@@ -69,11 +104,15 @@ export interface FormatResult {
  * Responsibilities:
  * - Managing transcript history with speaker information
  * - Adding speaker labels [N]: when speaker changes
+ * - Inline sound event tags like [door knock]
  * - Wrapping and formatting text using display-utils
+ * - Laying lines out per LayoutMode (rolling, utterance, paged, split)
  *
  * Profile Selection:
  * - Use `G1_PROFILE` for NEW mobile clients (no double-wrapping)
  * - Use `G1_PROFILE_LEGACY` for OLD mobile clients that re-wrap text
+ * - Other glasses: see DisplayProfiles, which picks the profile for the
+ *   connected device and client version
  *
  * @example
  * ```typescript
@@ -101,6 +140,12 @@ export class CaptionsFormatter {
   // Display settings (can override profile defaults)
   private readonly displayWidthPx: number;
   private readonly maxLines: number;
+  private readonly speakerLabel: (speakerId: string) => string;
+  private readonly layoutMode: LayoutMode;
+  private readonly breakMode: CaptionBreakMode;
+
+  // Paged mode: index of the first history entry on the current page
+  private pageStart: number = 0;
 
   constructor(
     profile: DisplayProfile = G1_PROFILE,
@@ -112,16 +157,19 @@ export class CaptionsFormatter {
     // Allow overriding display dimensions (for user settings like narrow/medium/wide)
     this.displayWidthPx = options.displayWidthPx ?? profile.displayWidthPx;
     this.maxLines = options.maxLines ?? profile.maxLines;
+    this.speakerLabel = options.speakerLabel ?? ((speakerId) => speakerId);
+    this.layoutMode = options.layoutMode ?? "rolling";
 
     // Determine break mode
-    const breakMode =
+    this.breakMode =
       options.breakMode ??
       (options.useCharacterBreaking !== false ? "character" : "word");
 
     // Create display utilities
     this.measurer = new TextMeasurer(profile);
     this.wrapper = new TextWrapper(this.measurer, {
-      breakMode,
+      // Non-CJK text in CJK mode breaks at spaces
+      breakMode: this.breakMode === "cjk" ? "word" : this.breakMode,
       hyphenChar: "-",
       minCharsBeforeHyphen: 3,
     });
@@ -152,6 +200,25 @@ export class CaptionsFormatter {
     }
   }
 
+  /**
+   * Add a non-speech sound to the history as an inline tag ("[door knock]").
+   *
+   * @param label - Tag text without brackets
+   * @returns Formatted lines for display
+   */
+  processSoundEvent(label: string): FormatResult {
+    const text = label.trim();
+    if (text) {
+      this.finalTranscriptHistory.push({
+        text: `[${text}]`,
+        hadSpeakerChange: false,
+        sound: true,
+      });
+      this.trimHistory();
+    }
+    return this.render("", undefined, false);
+  }
+
   /**
    * Process an interim (non-final) transcription.
    */
@@ -169,14 +236,12 @@ export class CaptionsFormatter {
       this.partialHadSpeakerChange = true;
     }
 
-    // Build display text from history + partial
-    const displayText = this.buildDisplayText(
+    // Build display from history + partial
+    return this.render(
       text,
       this.partialSpeakerId,
       this.partialHadSpeakerChange,
     );
-
-    return this.wrapAndFormat(displayText);
   }
 
   /**
@@ -200,72 +265,316 @@ export class CaptionsFormatter {
       this.addToHistory(text, finalSpeakerId, finalSpeakerChanged);
     }
 
-    // Build display text from history only (no partial)
-    const displayText = this.buildDisplayText("", undefined, false);
+    // Build display from history only (no partial)
+    return this.render("", undefined, false);
+  }
+
+  /**
+   * Lay out history + partial text according to the layout mode.
+   */
+  private render(
+    partialText: string,
+    partialSpeakerId?: string,
+    partialSpeakerChanged?: boolean,
+  ): FormatResult {
+    switch (this.layoutMode) {
+      case "utterance":
+        return this.renderUtterance(partialText, partialSpeakerId);
+      case "paged":
+        return this.renderPaged(
+          partialText,
+          partialSpeakerId,
+          partialSpeakerChanged,
+        );
+      case "split":
+        return this.renderSplit(partialText, partialSpeakerId);
+      case "rolling":
+      default:
+        return this.wrapAndFormat(
+          this.buildDisplayText(
+            this.finalTranscriptHistory,
+            partialText,
+            partialSpeakerId,
+            partialSpeakerChanged,
+          ),
+        );
+    }
+  }
+
+  /**
+   * Utterance mode: only the in-progress utterance, or the last final one.
+   * The utterance is always labelled when its speaker is known.
+   */
+  private renderUtterance(
+    partialText: string,
+    partialSpeakerId?: string,
+  ): FormatResult {
+    const last =
+      this.finalTranscriptHistory[this.finalTranscriptHistory.length - 1];
+    const entry: TranscriptHistoryEntry | undefined = partialText
+      ? {
+          text: partialText,
+          speakerId: partialSpeakerId,
+          hadSpeakerChange: true,
+        }
+      : last && { ...last, hadSpeakerChange: true };
+
+    return this.wrapAndFormat(
+      entry ? this.buildDisplayText([entry], "") : "",
+    );
+  }
+
+  /**
+   * Paged mode: text fills the screen top-down. When the next utterance
+   * doesn't fit, the screen clears and a new page starts with it.
+   */
+  private renderPaged(
+    partialText: string,
+    partialSpeakerId?: string,
+    partialSpeakerChanged?: boolean,
+  ): FormatResult {
+    const build = () =>
+      this.buildDisplayText(
+        this.finalTranscriptHistory.slice(this.pageStart),
+        partialText,
+        partialSpeakerId,
+        partialSpeakerChanged,
+      );
+
+    let result = this.wrapAll(build());
+
+    if (result.lines.length > this.maxLines) {
+      // Page is full: start a new one with the newest utterance
+      this.pageStart = partialText
+        ? this.finalTranscriptHistory.length
+        : Math.max(this.finalTranscriptHistory.length - 1, 0);
+      result = this.wrapAll(build());
+    }
+
+    // An utterance longer than a page shows its latest (partially filled) page
+    const pageIndex = Math.floor(
+      Math.max(result.lines.length - 1, 0) / this.maxLines,
+    );
+    const from = pageIndex * this.maxLines;
+    const lines = result.lines.slice(from, from + this.maxLines);
+
+    return {
+      lines,
+      displayText: lines.join("\n"),
+      truncated: pageIndex > 0,
+      lineMetrics: result.lineMetrics.slice(from, from + this.maxLines),
+      layout: "text_wall",
+    };
+  }
+
+  /**
+   * Split mode: the two most recent speakers get half the lines each.
+   * The first two speakers take the top and bottom halves in order; a new
+   * speaker replaces whichever half has been quiet longest.
+   */
+  private renderSplit(
+    partialText: string,
+    partialSpeakerId?: string,
+  ): FormatResult {
+    const entries = [...this.finalTranscriptHistory];
+    if (partialText) {
+      entries.push({
+        text: partialText,
+        speakerId: partialSpeakerId,
+        hadSpeakerChange: false,
+      });
+    }
+
+    const slots: string[] = [];
+    const lastActive = [-1, -1];
+    entries.forEach((entry, index) => {
+      // Sounds go with whoever spoke last
+      if (entry.sound) {
+        const slot = lastActive[1] > lastActive[0] ? 1 : 0;
+        entry = { ...entry, speakerId: slots[slot] || undefined };
+        entries[index] = entry;
+        if (slots[slot] === undefined) slots[slot] = "";
+        return;
+      }
+      const key = entry.speakerId ?? "";
+      let slot = slots.indexOf(key);
+      if (slot < 0) {
+        slot =
+          slots.length < 2
+            ? slots.length
+            : lastActive[0] <= lastActive[1]
+              ? 0
+              : 1;
+        slots[slot] = key;
+      }
+      lastActive[slot] = index;
+    });
+
+    const halfLines = Math.max(1, Math.floor(this.maxLines / 2));
+    const renderHalf = (key: string | undefined) => {
+      if (key === undefined) {
+        return {
+          lines: [] as string[],
+          lineMetrics: [] as WrapResult["lineMetrics"],
+          truncated: false,
+        };
+      }
+
+      const text = entries
+        .filter((entry) => (entry.speakerId ?? "") === key)
+        .map((entry) => entry.text)
+        .join(" ");
+      const result = this.wrapAll(
+        key ? `[${this.speakerLabel(key)}]: ${text}` : text,
+      );
+      return {
+        lines: result.lines.slice(-halfLines),
+        lineMetrics: result.lineMetrics.slice(-halfLines),
+        truncated: result.lines.length > halfLines,
+      };
+    };
+
+    const top = renderHalf(slots[0]);
+    const bottom = renderHalf(slots[1]);
+    const lines = [...top.lines, ...bottom.lines];
 
-    return this.wrapAndFormat(displayText);
+    return {
+      lines,
+      displayText: lines.join("\n"),
+      truncated: top.truncated || bottom.truncated,
+      lineMetrics: [...top.lineMetrics, ...bottom.lineMetrics],
+      layout: "double_text_wall",
+      topText: top.lines.join("\n"),
+      bottomText: bottom.lines.join("\n"),
+      splitAt: top.lines.length,
+    };
   }
 
   /**
-   * Build display text from history and optional partial text.
-   * Adds speaker labels [N]: when speaker changes, always on a new line.
+   * Build display text from history entries and optional partial text.
+   * Adds speaker labels [N]: (or [Name]: when the speaker was named) when
+   * speaker changes, always on a new line. Stacked text (an original with its
+   * transliteration below) also keeps lines of its own.
    */
   private buildDisplayText(
+    entries: TranscriptHistoryEntry[],
     partialText: string,
     partialSpeakerId?: string,
     partialSpeakerChanged?: boolean,
   ): string {
     let result = "";
+    let previousStacked = false;
 
-    // Add history entries with speaker labels
-    for (const entry of this.finalTranscriptHistory) {
-      if (entry.hadSpeakerChange && entry.speakerId) {
+    const append = (text: string, speakerId?: string) => {
+      const stacked = text.includes("\n");
+      if (speakerId) {
         // Speaker change: add newline before label (if not at start)
         if (result.length > 0) {
           result += "\n";
         }
-        result += `[${entry.speakerId}]: ${entry.text}`;
+        result += `[${this.speakerLabel(speakerId)}]: ${text}`;
       } else {
         // Same speaker: append with space
         if (result.length > 0) {
-          result += " ";
+          result += stacked || previousStacked ? "\n" : " ";
         }
-        result += entry.text;
+        result += text;
       }
+      previousStacked = stacked;
+    };
+
+    // Add history entries with speaker labels
+    for (const entry of entries) {
+      append(
+        entry.text,
+        entry.hadSpeakerChange && !entry.sound ? entry.speakerId : undefined,
+      );
     }
 
     // Add partial text if present
     if (partialText) {
-      if (partialSpeakerChanged && partialSpeakerId) {
-        // Speaker change: add newline before label (if not at start)
-        if (result.length > 0) {
-          result += "\n";
-        }
-        result += `[${partialSpeakerId}]: ${partialText}`;
-      } else {
-        // Same speaker: append with space
-        if (result.length > 0) {
-          result += " ";
-        }
-        result += partialText;
-      }
+      append(
+        partialText,
+        partialSpeakerChanged ? partialSpeakerId : undefined,
+      );
     }
 
     return result;
   }
 
   /**
-   * Wrap text and format for display.
+   * Wrap text WITHOUT a maxLines constraint so we get ALL lines.
+   *
+   * Each paragraph (one per speaker turn) is wrapped on its own:
+   * - right-to-left script: at word boundaries only (Arabic and Hebrew
+   *   aren't hyphenated), and every line is marked RTL so the label and
+   *   line stay right-aligned
+   * - Chinese, Japanese or Korean (or any text in "cjk" mode): by
+   *   CjkLineBreaker, between words and without hyphens
+   * - anything else: with the configured break mode
    */
-  private wrapAndFormat(displayText: string): FormatResult {
-    // Wrap WITHOUT maxLines constraint so we get ALL lines
-    // Then we'll take the LAST N lines (most recent) for display
-    const result = this.wrapper.wrap(displayText, {
+  private wrapAll(displayText: string): WrapResult {
+    const options = {
       maxWidthPx: this.displayWidthPx, // Use instance setting, not profile
       maxLines: Infinity, // Don't truncate during wrapping
       maxBytes: Infinity, // Don't truncate during wrapping
+    };
+    if (
+      this.breakMode !== "cjk" &&
+      !hasRtl(displayText) &&
+      !hasCjk(displayText)
+    ) {
+      return this.wrapper.wrap(displayText, options);
+    }
+
+    const measure = (text: string) => this.measurer.measureText(text);
+    const lines: string[] = [];
+    const lineMetrics: WrapResult["lineMetrics"] = [];
+    displayText.split("\n").forEach((paragraph, index) => {
+      const rtl = textDirection(paragraph) === "rtl";
+      const wrapped =
+        !rtl && (this.breakMode === "cjk" || hasCjk(paragraph))
+          ? null
+          : this.wrapper.wrap(
+              paragraph,
+              rtl ? { ...options, breakMode: "word" } : options,
+            );
+      const paragraphLines =
+        wrapped?.lines ?? wrapCjk(paragraph, this.displayWidthPx, measure);
+
+      paragraphLines.forEach((line, i) => {
+        const text = rtl ? markRtl(line) : line;
+        const widthPx = measure(line);
+        lines.push(text);
+        lineMetrics.push({
+          text,
+          widthPx,
+          bytes: this.measurer.getByteSize(text),
+          utilizationPercent: Math.round((widthPx / this.displayWidthPx) * 100),
+          endsWithHyphen: wrapped?.lineMetrics[i].endsWithHyphen ?? false,
+          fromExplicitNewline: index > 0 && i === 0,
+        });
+      });
     });
 
+    return {
+      lines,
+      truncated: false,
+      maxLineWidthPx: Math.max(0, ...lineMetrics.map((m) => m.widthPx)),
+      totalBytes: Buffer.byteLength(lines.join("\n")),
+      lineMetrics,
+      originalText: displayText,
+      breakMode: this.wrapper.getOptions().breakMode,
+    };
+  }
+
+  /**
+   * Wrap text and format for display.
+   */
+  private wrapAndFormat(displayText: string): FormatResult {
+    // Take the LAST N lines (most recent) of the full wrap for display
+    const result = this.wrapAll(displayText);
+
     // Keep most recent lines (from the END) if we have too many
     let lines = result.lines;
     if (lines.length > this.maxLines) {
@@ -280,6 +589,7 @@ export class CaptionsFormatter {
       displayText: lines.join("\n"),
       truncated: wasTruncated,
       lineMetrics: result.lineMetrics.slice(-this.maxLines),
+      layout: "text_wall",
     };
   }
 
@@ -299,9 +609,13 @@ export class CaptionsFormatter {
       hadSpeakerChange: speakerChanged ?? false,
     });
 
-    // Trim history if needed
+    this.trimHistory();
+  }
+
+  private trimHistory(): void {
     while (this.finalTranscriptHistory.length > this.maxFinalTranscripts) {
       this.finalTranscriptHistory.shift();
+      this.pageStart = Math.max(this.pageStart - 1, 0);
     }
   }
 
@@ -327,6 +641,7 @@ export class CaptionsFormatter {
     this.finalTranscriptHistory = [];
     this.partialSpeakerId = undefined;
     this.partialHadSpeakerChange = false;
+    this.pageStart = 0;
   }
 
   /**
@@ -334,9 +649,7 @@ export class CaptionsFormatter {
    */
   setMaxFinalTranscripts(max: number): void {
     this.maxFinalTranscripts = max;
-    while (this.finalTranscriptHistory.length > this.maxFinalTranscripts) {
-      this.finalTranscriptHistory.shift();
-    }
+    this.trimHistory();
   }
 
   /**
@@ -381,6 +694,13 @@ export class CaptionsFormatter {
     return this.maxLines;
   }
 
+  /**
+   * Get the layout mode.
+   */
+  getLayoutMode(): LayoutMode {
+    return this.layoutMode;
+  }
+
   /**
    * Get the display width in pixels.
    */
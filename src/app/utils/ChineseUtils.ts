@@ -13,26 +13,10 @@ export function isChinese(text: string): boolean {
 }
 
 /**
- * Finds the last valid word boundary before or at the given position in Chinese text
- * Returns the position where the text should be split
+ * Splits Chinese text into words (other text is kept as jieba returns it)
  */
-export function findChineseWordBoundary(text: string, position: number): number {
-  if (!isChinese(text)) return position
-
-  // Get all words up to the position
-  const words = jieba.cut(text)
-  let currentLength = 0
-
-  for (const word of words) {
-    if (currentLength + word.length > position) {
-      // If this word would exceed the position, return the previous position
-      return currentLength
-    }
-    currentLength += word.length
-  }
-
-  // If we didn't find a boundary, return the original position
-  return position
+export function segmentChinese(text: string): string[] {
+  return jieba.cut(text)
 }
 
 /**
@@ -70,3 +54,84 @@ export function convertToPinyin(text: string): string {
 
   return processedParts.join("")
 }
+
+const ZHUYIN_INITIALS: Record<string, string> = {
+  b: "ㄅ", p: "ㄆ", m: "ㄇ", f: "ㄈ", d: "ㄉ", t: "ㄊ", n: "ㄋ", l: "ㄌ",
+  g: "ㄍ", k: "ㄎ", h: "ㄏ", j: "ㄐ", q: "ㄑ", x: "ㄒ",
+  zh: "ㄓ", ch: "ㄔ", sh: "ㄕ", r: "ㄖ", z: "ㄗ", c: "ㄘ", s: "ㄙ",
+}
+
+// Finals in their full form (iou, uei, uen), after y/w spellings are undone
+const ZHUYIN_FINALS: Record<string, string> = {
+  "": "", a: "ㄚ", o: "ㄛ", e: "ㄜ", ê: "ㄝ", ai: "ㄞ", ei: "ㄟ", ao: "ㄠ", ou: "ㄡ",
+  an: "ㄢ", en: "ㄣ", ang: "ㄤ", eng: "ㄥ", er: "ㄦ", ong: "ㄨㄥ",
+  i: "ㄧ", ia: "ㄧㄚ", io: "ㄧㄛ", ie: "ㄧㄝ", iao: "ㄧㄠ", iou: "ㄧㄡ",
+  ian: "ㄧㄢ", in: "ㄧㄣ", iang: "ㄧㄤ", ing: "ㄧㄥ", iong: "ㄩㄥ",
+  u: "ㄨ", ua: "ㄨㄚ", uo: "ㄨㄛ", uai: "ㄨㄞ", uei: "ㄨㄟ", uan: "ㄨㄢ",
+  uen: "ㄨㄣ", uang: "ㄨㄤ", ueng: "ㄨㄥ",
+  ü: "ㄩ", üe: "ㄩㄝ", üan: "ㄩㄢ", ün: "ㄩㄣ",
+}
+
+// Index = tone number; the first tone is unmarked and the neutral tone (0) goes in front
+const ZHUYIN_TONES = ["˙", "", "ˊ", "ˇ", "ˋ"]
+
+/**
+ * Converts one Pinyin syllable with a tone number ("hao3", "ma0") to Zhuyin (ㄏㄠˇ)
+ * Returns the syllable unchanged if it isn't valid Pinyin
+ */
+export function pinyinToZhuyin(syllable: string): string {
+  const match = syllable.toLowerCase().match(/^([a-zêü]+)([0-5])?$/)
+  if (!match) return syllable
+
+  let body = match[1].replace(/v/g, "ü")
+  const tone = parseInt(match[2] ?? "0", 10) % 5
+
+  // y and w spell syllables without an initial (yue = üe, you = iou, wei = uei)
+  if (body.startsWith("yu")) body = "ü" + body.slice(2)
+  else if (body.startsWith("yi")) body = "i" + body.slice(2)
+  else if (body.startsWith("y")) body = "i" + body.slice(1)
+  else if (body.startsWith("wu")) body = "u" + body.slice(2)
+  else if (body.startsWith("w")) body = "u" + body.slice(1)
+
+  const initial = body.match(/^(zh|ch|sh|[bpmfdtnlgkhjqxrzcs])/)?.[0] ?? ""
+  let final = body.slice(initial.length)
+
+  if (final === "i" && /^(zh|ch|sh|r|z|c|s)$/.test(initial)) {
+    // zhi, chi, shi, ri, zi, ci, si are written with the initial alone
+    final = ""
+  } else if (/^[jqx]$/.test(initial) && final.startsWith("u")) {
+    final = "ü" + final.slice(1)
+  } else if (initial) {
+    // Contracted finals: liu = liou, gui = guei, lun = luen
+    final = {iu: "iou", ui: "uei", un: "uen"}[final] ?? final
+  }
+
+  const zhuyin = ZHUYIN_FINALS[final]
+  if (zhuyin === undefined || (!initial && !final)) return syllable
+
+  const symbols = (ZHUYIN_INITIALS[initial] ?? "") + zhuyin
+  return tone === 0 ? ZHUYIN_TONES[0] + symbols : symbols + ZHUYIN_TONES[tone]
+}
+
+/**
+ * Converts Chinese text to Zhuyin (Bopomofo) with tone marks
+ * Words are kept together and separated by spaces, like convertToPinyin
+ */
+export function convertToZhuyin(text: string): string {
+  if (!isChinese(text)) return text
+
+  return text
+    .split(/([\u4e00-\u9fa5]+)/g)
+    .map((part) => {
+      if (!isChinese(part)) return part
+      return jieba
+        .cut(part)
+        .map((word) =>
+          isChinese(word)
+            ? pinyin(word, {toneType: "num", type: "array", nonZh: "removed"}).map(pinyinToZhuyin).join("")
+            : word,
+        )
+        .join(" ")
+    })
+    .join("")
+}
@@ -0,0 +1,49 @@
+import {describe, expect, test} from "bun:test"
+import {G1_PROFILE, TextMeasurer} from "@mentra/sdk/display-utils"
+import {segmentUnits, wrapCjk} from "./CjkLineBreaker"
+import {CaptionsFormatter} from "./CaptionsFormatter"
+import {CJK_LINE_BREAKING_FIXTURES} from "./fixtures/cjkLineBreaking"
+
+const measurer = new TextMeasurer(G1_PROFILE)
+const measure = (text: string) => measurer.measureText(text)
+
+describe("CjkLineBreaker", () => {
+  for (const fixture of CJK_LINE_BREAKING_FIXTURES) {
+    test(fixture.name, () => {
+      const lines = wrapCjk(fixture.text, fixture.widthPx, measure)
+
+      expect(lines).toEqual(fixture.lines)
+      for (const line of lines) {
+        expect(measure(line)).toBeLessThanOrEqual(fixture.widthPx)
+        expect(line).not.toMatch(/^[、。，：；？！）」』〕】”’ーっゃゅょ]/)
+        expect(line).not.toMatch(/[（「『〔【“‘]$/)
+      }
+      // Nothing is added or lost, apart from spaces at line breaks
+      expect(lines.join("").replace(/\s/g, "")).toBe(fixture.text.replace(/\s/g, ""))
+    })
+  }
+
+  test("should glue line-start punctuation to the word before it", () => {
+    expect(segmentUnits("好，我们走吧。").map((unit) => unit.text)).toEqual(["好，", "我们", "走", "吧。"])
+    expect(segmentUnits("東京に行きます").map((unit) => unit.text)).toEqual(["東京に", "行きます"])
+  })
+
+  test("should never hyphenate CJK text in the formatter, whatever the break mode", () => {
+    const text = "我们明天下午三点在图书馆门口见面，不要迟到。会議は来週の月曜日に延期されました。"
+    for (const breakMode of ["character", "word", "cjk"] as const) {
+      const formatter = new CaptionsFormatter(undefined, {breakMode, displayWidthPx: 180, maxLines: 10})
+      const result = formatter.processTranscription(text, true)
+
+      expect(result.lines.length).toBeGreaterThan(1)
+      expect(result.lines.some((line) => line.endsWith("-"))).toBe(false)
+      expect(result.lineMetrics.every((metrics) => !metrics.endsWithHyphen)).toBe(true)
+    }
+  })
+
+  test("should break Latin text at spaces in CJK mode", () => {
+    const formatter = new CaptionsFormatter(undefined, {breakMode: "cjk", displayWidthPx: 200})
+    const result = formatter.processTranscription("Internationalization is a surprisingly long word", true)
+    expect(result.lines.every((line) => !line.endsWith("-"))).toBe(true)
+    expect(result.lines.join(" ")).toBe("Internationalization is a surprisingly long word")
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * CjkLineBreaker
+ *
+ * Line breaking for Chinese, Japanese and Korean captions. CJK text has no
+ * spaces between words, so breaking wherever a line fills up (and adding a
+ * hyphen) splits words in half. Instead text is cut into units that may not
+ * be split, and lines are filled unit by unit:
+ * - Chinese: words from jieba segmentation
+ * - Japanese: runs of kanji or katakana together with the hiragana that
+ *   follows them (okurigana and particles), so "東京に行きます" breaks as
+ *   東京に|行きます
+ * - Korean and other space-separated text: words (eojeol) between spaces
+ *
+ * Kinsoku rules are applied on top: closing punctuation, small kana and the
+ * long vowel mark never start a line and opening brackets never end one.
+ * No hyphens are ever inserted; a unit wider than a line is split between
+ * characters.
+ */
+
+import { segmentChinese } from "./ChineseUtils";
+
+// Characters that may not start a line (gyōtō kinsoku)
+const NO_LINE_START =
+  "、。，．,.：；:;？！?!）］｝〕〉》」』】〙〗〟’”｠»" +
+  "ヽヾーァィゥェォッャュョヮヵヶぁぃぅぇぉっゃゅょゎゕゖㇰㇱㇲㇳㇴㇵㇶㇷㇸㇹㇺㇻㇼㇽㇾㇿ々〻‐゠–〜～" +
+  "…‥・";
+// Characters that may not end a line (gyōmatsu kinsoku)
+const NO_LINE_END = "（［｛〔〈《「『【〘〖〝‘“｟«";
+
+const HAN = /\p{Script=Han}/u;
+const HIRAGANA = /\p{Script=Hiragana}/u;
+const KATAKANA = /[\p{Script=Katakana}ー]/u;
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+export interface Unit {
+  text: string;
+  /** Whether whitespace came before this unit in the source text */
+  space: boolean;
+}
+
+export function hasCjk(text: string): boolean {
+  return CJK.test(text);
+}
+
+type CharClass = "han" | "hiragana" | "katakana" | "other";
+
+function charClass(char: string): CharClass {
+  if (HAN.test(char) || char === "々") return "han";
+  if (HIRAGANA.test(char)) return "hiragana";
+  if (KATAKANA.test(char)) return "katakana";
+  return "other";
+}
+
+/**
+ * Japanese units: a new unit starts wherever the script changes, except
+ * that hiragana stays with the kanji or katakana before it
+ */
+function segmentJapanese(text: string): string[] {
+  const units: string[] = [];
+  let current = "";
+  let previous: CharClass | null = null;
+  for (const char of text) {
+    const cls = charClass(char);
+    const joins =
+      previous === null ||
+      cls === previous ||
+      (cls === "hiragana" && previous !== "other") ||
+      NO_LINE_START.includes(char);
+    if (!joins && current) {
+      units.push(current);
+      current = "";
+    }
+    current += char;
+    previous = NO_LINE_START.includes(char) ? previous : cls;
+  }
+  if (current) units.push(current);
+  return units;
+}
+
+/**
+ * Split a paragraph into units that are never broken across lines
+ */
+export function segmentUnits(text: string): Unit[] {
+  const units: Unit[] = [];
+  for (const match of text.matchAll(/(\s*)(\S+)/g)) {
+    const [, whitespace, chunk] = match;
+    const parts = !HAN.test(chunk) && !KANA.test(chunk)
+      ? [chunk]
+      : KANA.test(chunk)
+        ? segmentJapanese(chunk)
+        : segmentChinese(chunk);
+    parts.forEach((part, i) => {
+      units.push({ text: part, space: i === 0 && whitespace.length > 0 });
+    });
+  }
+  return applyKinsoku(units);
+}
+
+/**
+ * Glue punctuation that may not start a line to the unit before it, and
+ * the unit after an opening bracket to the bracket
+ */
+function applyKinsoku(units: Unit[]): Unit[] {
+  const result: Unit[] = [];
+  for (const unit of units) {
+    const previous = result[result.length - 1];
+    const first = Array.from(unit.text)[0];
+    const last = previous && Array.from(previous.text).pop()!;
+    if (
+      previous &&
+      ((!unit.space && NO_LINE_START.includes(first)) ||
+        NO_LINE_END.includes(last))
+    ) {
+      previous.text += (unit.space ? " " : "") + unit.text;
+    } else {
+      result.push({ ...unit });
+    }
+  }
+  return result;
+}
+
+/**
+ * Split a unit that is wider than a line between characters, keeping
+ * no-start characters off the beginning of a line where possible
+ */
+function breakUnit(
+  text: string,
+  maxWidthPx: number,
+  measure: (text: string) => number,
+): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  for (const char of text) {
+    if (current && measure(current + char) > maxWidthPx) {
+      const chars = Array.from(current);
+      if (NO_LINE_START.includes(char) && chars.length > 1) {
+        // Push the last character down with the punctuation
+        pieces.push(chars.slice(0, -1).join(""));
+        current = chars[chars.length - 1];
+      } else {
+        pieces.push(current);
+        current = "";
+      }
+    }
+    current += char;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Wrap a paragraph into lines of at most `maxWidthPx`
+ *
+ * @param measure - Rendered width of a string in pixels
+ */
+export function wrapCjk(
+  text: string,
+  maxWidthPx: number,
+  measure: (text: string) => number,
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const unit of segmentUnits(text.trim())) {
+    const candidate = line + (line && unit.space ? " " : "") + unit.text;
+    if (measure(candidate) <= maxWidthPx) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) lines.push(line);
+    line = "";
+    const pieces =
+      measure(unit.text) <= maxWidthPx
+        ? [unit.text]
+        : breakUnit(unit.text, maxWidthPx, measure);
+    lines.push(...pieces.slice(0, -1));
+    line = pieces[pieces.length - 1] ?? "";
+  }
+  if (line) lines.push(line);
+
+  return lines.length > 0 ? lines : [""];
+}
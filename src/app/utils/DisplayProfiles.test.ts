@@ -0,0 +1,64 @@
+import {describe, expect, test} from "bun:test"
+import {
+  compareVersions,
+  getDisplayProfile,
+  registerDisplayProfile,
+  selectDisplayProfile,
+  Z100_PROFILE,
+} from "./DisplayProfiles"
+import {G1_PROFILE, G1_PROFILE_LEGACY} from "./CaptionsFormatter"
+
+describe("DisplayProfiles", () => {
+  const g1 = (clientVersion: string | null) => ({modelName: "Test G1", clientVersion})
+  const TEST_G1 = {...G1_PROFILE, id: "test-g1"}
+  const TEST_G1_LEGACY = {...G1_PROFILE_LEGACY, id: "test-g1-legacy"}
+
+  test("should pick the profile registered for the glasses model", () => {
+    expect(selectDisplayProfile({modelName: "Vuzix Z100", clientVersion: null}).id).toBe(Z100_PROFILE.id)
+    // Model names are matched loosely ("vuzix_z100" from the device state)
+    expect(selectDisplayProfile({modelName: "vuzix_z100", clientVersion: null}).id).toBe(Z100_PROFILE.id)
+  })
+
+  test("should use the G1 legacy profile unless the client is known to be new enough", () => {
+    registerDisplayProfile({
+      profile: TEST_G1,
+      models: ["Test G1"],
+      legacy: {profile: TEST_G1_LEGACY, beforeClientVersion: "2.1.0"},
+    })
+
+    expect(selectDisplayProfile(g1("2.0.9"))).toBe(TEST_G1_LEGACY)
+    expect(selectDisplayProfile(g1(null))).toBe(TEST_G1_LEGACY)
+    expect(selectDisplayProfile(g1("2.1.0"))).toBe(TEST_G1)
+    expect(selectDisplayProfile(g1("2.10.0-beta"))).toBe(TEST_G1)
+  })
+
+  test("should fall back to the legacy profile with the reported line count for unknown glasses", () => {
+    expect(selectDisplayProfile({modelName: null, clientVersion: null})).toBe(G1_PROFILE_LEGACY)
+
+    const profile = selectDisplayProfile({modelName: "Simulated Glasses", maxTextLines: 7, clientVersion: null})
+    expect(profile.displayWidthPx).toBe(G1_PROFILE_LEGACY.displayWidthPx)
+    expect(profile.maxLines).toBe(7)
+  })
+
+  test("should prefer a pinned profile and ignore unknown ones", () => {
+    expect(selectDisplayProfile(g1("9.0.0"), "vuzix-z100").id).toBe(Z100_PROFILE.id)
+    expect(selectDisplayProfile({modelName: "Vuzix Z100", clientVersion: null}, "missing").id).toBe(Z100_PROFILE.id)
+    expect(selectDisplayProfile({modelName: "Vuzix Z100", clientVersion: null}, G1_PROFILE.id)).toBe(G1_PROFILE)
+  })
+
+  test("should register profiles for new glasses", () => {
+    registerDisplayProfile({
+      profile: {...G1_PROFILE, id: "test-glasses", name: "Test Glasses", displayWidthPx: 480, maxLines: 3},
+      models: ["Test Glasses"],
+    })
+
+    expect(getDisplayProfile("test-glasses")?.maxLines).toBe(3)
+    expect(selectDisplayProfile({modelName: "test glasses", clientVersion: null}).id).toBe("test-glasses")
+  })
+
+  test("should compare dotted versions numerically", () => {
+    expect(compareVersions("2.10.0", "2.9.1")).toBe(1)
+    expect(compareVersions("2.1", "2.1.0")).toBe(0)
+    expect(compareVersions("1.9.9", "2.0.0")).toBe(-1)
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * DisplayProfiles
+ *
+ * Registry of the glasses CaptionsFormatter can lay captions out for. Each
+ * entry pairs a DisplayProfile (width, lines and font metrics) with the model
+ * names the glasses report, so the profile can be picked from the connected
+ * device. Users can also pin a profile in settings ("auto" picks from the device).
+ *
+ * The G1 has two profiles: mobile clients before G1_WRAPPING_CLIENT_VERSION
+ * re-wrap the text they receive, so they get the narrower legacy profile.
+ */
+
+import {
+  G1_PROFILE,
+  G1_PROFILE_LEGACY,
+  type DisplayProfile,
+} from "@mentra/sdk/display-utils";
+
+export const AUTO_DISPLAY_PROFILE = "auto";
+
+export interface DisplayProfileEntry {
+  profile: DisplayProfile;
+  /** Model names the glasses report for this profile (matched case-insensitively) */
+  models: string[];
+  /** Profile for mobile clients older than `beforeClientVersion` */
+  legacy?: { profile: DisplayProfile; beforeClientVersion: string | null };
+}
+
+/**
+ * What is known about the connected glasses and phone
+ */
+export interface DeviceInfo {
+  /** Model name from the device capabilities or device state */
+  modelName: string | null;
+  /** Number of text lines the display can show, if reported */
+  maxTextLines?: number | null;
+  /** Version of the mobile app the glasses are connected through */
+  clientVersion: string | null;
+}
+
+/**
+ * Vuzix Z100: 640px wide, 7 text lines (from the device capabilities).
+ * Glyph widths haven't been measured on the hardware yet, so the G1 font
+ * metrics are used; they err on the wide side, so lines never overflow.
+ */
+export const Z100_PROFILE: DisplayProfile = {
+  ...G1_PROFILE,
+  id: "vuzix-z100",
+  name: "Vuzix Z100",
+  displayWidthPx: 640,
+  maxLines: 7,
+};
+
+const registry = new Map<string, DisplayProfileEntry>();
+
+/**
+ * Add (or replace) the profile for a glasses model
+ */
+export function registerDisplayProfile(entry: DisplayProfileEntry): void {
+  registry.set(entry.profile.id, entry);
+}
+
+registerDisplayProfile({
+  profile: G1_PROFILE,
+  models: ["Even Realities G1", "even_g1", "g1"],
+  legacy: {
+    profile: G1_PROFILE_LEGACY,
+    beforeClientVersion: process.env.G1_WRAPPING_CLIENT_VERSION || null,
+  },
+});
+registerDisplayProfile({
+  profile: Z100_PROFILE,
+  models: ["Vuzix Z100", "vuzix_z100", "z100"],
+});
+
+/**
+ * Every profile a user can pin, legacy variants included
+ */
+export function listDisplayProfiles(): DisplayProfile[] {
+  return [...registry.values()].flatMap((entry) =>
+    entry.legacy ? [entry.profile, entry.legacy.profile] : [entry.profile],
+  );
+}
+
+export function getDisplayProfile(id: string): DisplayProfile | null {
+  return listDisplayProfiles().find((profile) => profile.id === id) ?? null;
+}
+
+/**
+ * Compare two dotted version strings ("2.1.0" < "2.10.0").
+ * Non-numeric suffixes ("-beta") are ignored.
+ */
+export function compareVersions(a: string, b: string): number {
+  const parts = (version: string) =>
+    version.split(/[-+]/)[0].split(".").map((part) => parseInt(part, 10) || 0);
+  const left = parts(a);
+  const right = parts(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+const normalizeModel = (model: string) =>
+  model.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Profile to format captions with.
+ *
+ * A pinned profile wins. Otherwise the profile registered for the device's
+ * model is used; its legacy variant is picked unless the client is known to
+ * be new enough. Unknown glasses fall back to the G1 legacy profile (the
+ * narrowest, safe on any client), with the line count the display reports.
+ *
+ * @param device - Connected device, as far as it is known
+ * @param override - Profile id from settings, or "auto"
+ */
+export function selectDisplayProfile(
+  device: DeviceInfo,
+  override: string = AUTO_DISPLAY_PROFILE,
+): DisplayProfile {
+  if (override !== AUTO_DISPLAY_PROFILE) {
+    const pinned = getDisplayProfile(override);
+    if (pinned) return pinned;
+  }
+
+  const model = device.modelName ? normalizeModel(device.modelName) : null;
+  const entry = model
+    ? [...registry.values()].find((e) =>
+        e.models.some((m) => normalizeModel(m) === model),
+      )
+    : undefined;
+
+  if (!entry) {
+    const lines = device.maxTextLines;
+    return lines && lines !== G1_PROFILE_LEGACY.maxLines
+      ? { ...G1_PROFILE_LEGACY, maxLines: lines }
+      : G1_PROFILE_LEGACY;
+  }
+
+  const legacy = entry.legacy;
+  if (
+    legacy &&
+    (!legacy.beforeClientVersion ||
+      !device.clientVersion ||
+      compareVersions(device.clientVersion, legacy.beforeClientVersion) < 0)
+  ) {
+    return legacy.profile;
+  }
+  return entry.profile;
+}
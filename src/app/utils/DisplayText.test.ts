@@ -0,0 +1,31 @@
+import {describe, expect, test} from "bun:test"
+import {displayLanguage, prepareDisplayText} from "./DisplayText"
+
+describe("DisplayText", () => {
+  describe("displayLanguage", () => {
+    test("should use the configured language outside auto mode", () => {
+      expect(displayLanguage("fr", "es")).toBe("fr")
+      expect(displayLanguage("Chinese (Pinyin)", null)).toBe("zh")
+      expect(displayLanguage("pt-BR", null)).toBe("pt")
+    })
+
+    test("should use the detected language in auto mode", () => {
+      expect(displayLanguage("auto", "zh-CN")).toBe("zh")
+      expect(displayLanguage("auto", "es")).toBe("es")
+      expect(displayLanguage("auto", undefined)).toBeNull()
+    })
+  })
+
+  describe("prepareDisplayText", () => {
+    test("should show the original, the transliteration or both stacked", () => {
+      expect(prepareDisplayText("你好", "nǐhǎo", "original")).toBe("你好")
+      expect(prepareDisplayText("你好", "nǐhǎo", "transliterated")).toBe("nǐhǎo")
+      expect(prepareDisplayText("你好", "nǐhǎo", "both")).toBe("你好\nnǐhǎo")
+    })
+
+    test("should leave text without a transliteration alone", () => {
+      expect(prepareDisplayText("Hola", null, "transliterated")).toBe("Hola")
+      expect(prepareDisplayText("Hola", null, "both")).toBe("Hola")
+    })
+  })
+})
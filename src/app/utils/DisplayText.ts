@@ -0,0 +1,40 @@
+import {resolveLocale} from "./languageLocale"
+import type {TransliterationMode} from "../transliteration"
+
+/**
+ * DisplayText
+ *
+ * Per-language processing of caption text before it goes to the glasses.
+ * The language is either the configured caption language or, in auto mode,
+ * the language detected for each utterance, so processing follows the
+ * speaker when they switch languages.
+ */
+
+/**
+ * Base language code ("zh") to process an utterance as
+ *
+ * @param language - Language setting ("auto", a code, a locale or a language name)
+ * @param detectedLanguage - Language the provider detected for the utterance, if any
+ * @returns The base code, or null when auto mode hasn't detected anything
+ */
+export function displayLanguage(language: string, detectedLanguage: string | null | undefined): string | null {
+  if (language === "auto") {
+    return detectedLanguage ? detectedLanguage.split("-")[0].toLowerCase() : null
+  }
+  return resolveLocale(language).split("-")[0]
+}
+
+/**
+ * Caption text for the glasses in the user's transliteration mode
+ *
+ * @param transliteration - The text transliterated for its language, or null when none applies
+ * @returns The original, the transliteration, or both stacked (original on top)
+ */
+export function prepareDisplayText(
+  text: string,
+  transliteration: string | null,
+  mode: TransliterationMode,
+): string {
+  if (transliteration === null || mode === "original") return text
+  return mode === "both" ? `${text}\n${transliteration}` : transliteration
+}
@@ -0,0 +1,141 @@
+import {describe, expect, test, beforeEach} from "bun:test"
+import {InterimStabilizer} from "./InterimStabilizer"
+
+/**
+ * Replay a recorded sequence of transcriptions and collect what would be repainted
+ * (null = repaint skipped)
+ */
+function replay(stabilizer: InterimStabilizer, sequence: Array<[string, boolean]>): Array<string | null> {
+  return sequence.map(([text, isFinal]) => stabilizer.process(text, isFinal))
+}
+
+describe("InterimStabilizer", () => {
+  describe("stable prefix", () => {
+    let stabilizer: InterimStabilizer
+
+    beforeEach(() => {
+      stabilizer = new InterimStabilizer({minRepaintIntervalMs: 0})
+    })
+
+    test("should only show words that consecutive interims agree on", () => {
+      const painted = replay(stabilizer, [
+        ["the", false],
+        ["the quick", false],
+        ["the quack", false],
+        ["the quick brown", false],
+        ["the quick brown fox", false],
+        ["The quick brown fox.", true],
+      ])
+
+      expect(painted).toEqual([null, "the", null, null, "the quick brown", "The quick brown fox."])
+    })
+
+    test("should drop shown words when the recognizer revises them", () => {
+      const painted = replay(stabilizer, [
+        ["I", false],
+        ["I scream", false],
+        ["I scream for", false],
+        ["ice cream for", false],
+        ["ice cream for you", false],
+      ])
+
+      expect(painted).toEqual([null, "I", "I scream", "", "ice cream for"])
+    })
+
+    test("should ignore case and punctuation changes when comparing words", () => {
+      const painted = replay(stabilizer, [
+        ["hello", false],
+        ["Hello, world", false],
+      ])
+
+      expect(painted).toEqual([null, "Hello,"])
+    })
+
+    test("should compare CJK text character by character", () => {
+      const painted = replay(stabilizer, [
+        ["今天", false],
+        ["今天天气", false],
+        ["今天天气很好", false],
+      ])
+
+      expect(painted).toEqual([null, "今天", "今天天气"])
+    })
+
+    test("should start over after a final", () => {
+      replay(stabilizer, [
+        ["good morning", false],
+        ["good morning everyone", false],
+        ["Good morning everyone.", true],
+      ])
+
+      const painted = replay(stabilizer, [
+        ["how", false],
+        ["how are", false],
+      ])
+
+      expect(painted).toEqual([null, "how"])
+    })
+
+    test("should pass interims straight through with a threshold of 1", () => {
+      stabilizer = new InterimStabilizer({minRepaintIntervalMs: 0, stabilityThreshold: 1})
+
+      const painted = replay(stabilizer, [
+        ["the", false],
+        ["the quack", false],
+        ["the quick", false],
+      ])
+
+      expect(painted).toEqual(["the", "the quack", "the quick"])
+    })
+  })
+
+  describe("rate limiting", () => {
+    let now: number
+    let stabilizer: InterimStabilizer
+
+    beforeEach(() => {
+      now = 0
+      stabilizer = new InterimStabilizer({
+        minRepaintIntervalMs: 300,
+        stabilityThreshold: 1,
+        now: () => now,
+      })
+    })
+
+    test("should hold back interims that arrive too soon and flush the latest", () => {
+      expect(stabilizer.process("one", false)).toBe("one")
+
+      now = 100
+      expect(stabilizer.process("one two", false)).toBeNull()
+      expect(stabilizer.hasPending()).toBe(true)
+      expect(stabilizer.msUntilRepaint()).toBe(200)
+
+      now = 200
+      expect(stabilizer.process("one two three", false)).toBeNull()
+
+      now = 300
+      expect(stabilizer.msUntilRepaint()).toBe(0)
+      expect(stabilizer.flush()).toBe("one two three")
+      expect(stabilizer.hasPending()).toBe(false)
+      expect(stabilizer.flush()).toBeNull()
+    })
+
+    test("should drop held back text when the interim goes back to what is shown", () => {
+      stabilizer.process("one", false)
+
+      now = 100
+      stabilizer.process("one two", false)
+      expect(stabilizer.process("one", false)).toBeNull()
+      expect(stabilizer.hasPending()).toBe(false)
+    })
+
+    test("should never hold back finals", () => {
+      stabilizer.process("one", false)
+
+      now = 50
+      expect(stabilizer.process("one two", false)).toBeNull()
+      expect(stabilizer.process("One two.", true)).toBe("One two.")
+      expect(stabilizer.hasPending()).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * InterimStabilizer
+ *
+ * Sits between incoming transcriptions and CaptionsFormatter to stop interim
+ * results from making the glasses flicker. Recognizers keep revising the tail
+ * of an interim ("the quack" -> "the quick brown"), so only the prefix that
+ * recent interims agree on is shown, and interim repaints are rate-limited.
+ * Finals always pass straight through.
+ *
+ * Words are compared case- and punctuation-insensitively. Chinese, Japanese
+ * and Korean text without spaces is compared character by character.
+ */
+
+export interface InterimStabilizerOptions {
+  /** Minimum time between interim repaints (default 300ms) */
+  minRepaintIntervalMs?: number;
+  /** Number of consecutive interims that must agree on a word before it is shown (default 2) */
+  stabilityThreshold?: number;
+  /** Clock, overridable for tests */
+  now?: () => number;
+}
+
+interface Token {
+  /** Normalized token used for comparison */
+  key: string;
+  /** End offset (exclusive) of the token in the original text */
+  end: number;
+}
+
+// One CJK character per token, otherwise runs of non-space characters
+const CJK_CHARS = "\\u3040-\\u30ff\\u3400-\\u9fff\\uf900-\\ufaff\\uac00-\\ud7af";
+const TOKEN_PATTERN = new RegExp(`[${CJK_CHARS}]|[^\\s${CJK_CHARS}]+`, "g");
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    tokens.push({
+      key: match[0].toLocaleLowerCase().replace(/\p{P}/gu, ""),
+      end: (match.index ?? 0) + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+function commonPrefixLength(a: Token[], b: Token[]): number {
+  const max = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < max && a[i].key === b[i].key) i++;
+  return i;
+}
+
+export class InterimStabilizer {
+  private readonly minRepaintIntervalMs: number;
+  private readonly stabilityThreshold: number;
+  private readonly now: () => number;
+
+  // Most recent interims of the current utterance (newest last)
+  private recent: Token[][] = [];
+  // What the last repaint showed
+  private shownText: string = "";
+  private shownTokens: Token[] = [];
+  // Stable text held back by the rate limit
+  private pending: { text: string; tokens: Token[] } | null = null;
+  private lastRepaintAt: number = -Infinity;
+
+  constructor(options: InterimStabilizerOptions = {}) {
+    this.minRepaintIntervalMs = options.minRepaintIntervalMs ?? 300;
+    this.stabilityThreshold = Math.max(1, options.stabilityThreshold ?? 2);
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Process a transcription.
+   *
+   * @returns Text to repaint with now, or null to skip this repaint
+   * (unchanged, or held back by the rate limit - see hasPending()).
+   */
+  process(text: string, isFinal: boolean): string | null {
+    if (isFinal) {
+      this.reset();
+      this.lastRepaintAt = this.now();
+      return text;
+    }
+
+    const tokens = tokenize(text);
+    this.recent.push(tokens);
+    if (this.recent.length > this.stabilityThreshold) {
+      this.recent.shift();
+    }
+
+    // Words every recent interim agrees on
+    let stableCount = 0;
+    if (this.recent.length >= this.stabilityThreshold) {
+      stableCount = tokens.length;
+      for (const previous of this.recent) {
+        stableCount = Math.min(stableCount, commonPrefixLength(tokens, previous));
+      }
+    }
+
+    // Words already on screen stay unless this interim revises them
+    const count = Math.max(
+      stableCount,
+      commonPrefixLength(tokens, this.shownTokens),
+    );
+    const next = {
+      text: count > 0 ? text.slice(0, tokens[count - 1].end) : "",
+      tokens: tokens.slice(0, count),
+    };
+
+    if (next.text === this.shownText) {
+      this.pending = null;
+      return null;
+    }
+
+    if (this.msUntilRepaint() > 0) {
+      this.pending = next;
+      return null;
+    }
+
+    return this.commit(next);
+  }
+
+  /**
+   * Whether stable text is waiting for the rate limit to pass.
+   */
+  hasPending(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Time until the next interim repaint is allowed.
+   */
+  msUntilRepaint(): number {
+    return Math.max(
+      0,
+      this.lastRepaintAt + this.minRepaintIntervalMs - this.now(),
+    );
+  }
+
+  /**
+   * Take the text held back by the rate limit, if any.
+   */
+  flush(): string | null {
+    return this.pending ? this.commit(this.pending) : null;
+  }
+
+  /**
+   * Forget the current utterance (after a final or when captions are cleared).
+   */
+  reset(): void {
+    this.recent = [];
+    this.shownText = "";
+    this.shownTokens = [];
+    this.pending = null;
+  }
+
+  private commit(next: { text: string; tokens: Token[] }): string {
+    this.shownText = next.text;
+    this.shownTokens = next.tokens;
+    this.pending = null;
+    this.lastRepaintAt = this.now();
+    return next.text;
+  }
+}
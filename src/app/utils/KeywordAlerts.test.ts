@@ -0,0 +1,50 @@
+import {describe, expect, test} from "bun:test"
+import {KeywordAlerter, findKeywords, markKeywords, validateAlertKeywords} from "./KeywordAlerts"
+
+describe("KeywordAlerts", () => {
+  test("should find whole-word keywords in any case", () => {
+    const keywords = ["Maria", "fire alarm", "Atlas"]
+    expect(findKeywords("Is that the FIRE  alarm? maria, come here", keywords)).toEqual(["fire alarm", "Maria"])
+    expect(findKeywords("Mariana checked the atlases", keywords)).toEqual([])
+  })
+
+  test("should find keywords inside Chinese, Japanese and Korean sentences", () => {
+    expect(findKeywords("小明你好", ["小明"])).toEqual(["小明"])
+    expect(findKeywords("有火警了", ["火警"])).toEqual(["火警"])
+    expect(findKeywords("田中さん、こんにちは", ["田中"])).toEqual(["田中"])
+    expect(findKeywords("민수야 밥 먹자", ["민수"])).toEqual(["민수"])
+    // Latin words next to CJK text are still whole words
+    expect(findKeywords("我们用Atlas吧", ["Atlas"])).toEqual(["Atlas"])
+    expect(findKeywords("我们用Atlases吧", ["Atlas"])).toEqual([])
+  })
+
+  test("should upper-case keywords for the glasses", () => {
+    expect(markKeywords("Maria, the fire alarm is ringing", ["maria", "fire alarm", "fire"])).toBe(
+      "MARIA, the FIRE ALARM is ringing",
+    )
+    expect(markKeywords("Nothing to see", [])).toBe("Nothing to see")
+  })
+
+  test("should alert once per utterance and keyword cooldown", () => {
+    let now = 0
+    const alerter = new KeywordAlerter({cooldownMs: 10_000, now: () => now})
+
+    // Interims and the final of one utterance
+    expect(alerter.check(["Maria"], "u1")).toEqual(["Maria"])
+    expect(alerter.check(["Maria"], "u1")).toEqual([])
+    expect(alerter.check(["Maria", "fire alarm"], "u1")).toEqual(["fire alarm"])
+
+    // A new utterance within the cooldown
+    now = 5_000
+    expect(alerter.check(["maria"], "u2")).toEqual([])
+
+    now = 12_000
+    expect(alerter.check(["Maria"], "u3")).toEqual(["Maria"])
+  })
+
+  test("should validate keyword lists", () => {
+    expect(validateAlertKeywords(["Maria", "fire alarm"])).toBeNull()
+    expect(validateAlertKeywords([" "])).not.toBeNull()
+    expect(validateAlertKeywords("Maria")).not.toBeNull()
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * KeywordAlerts
+ *
+ * Words the user wants to notice when they're said (their own name, "fire
+ * alarm", a project name). Keywords are matched as whole words in any case,
+ * marked on the glasses by upper-casing them, and raise an alert at most once
+ * per utterance and keyword cooldown, so a keyword repeated by every interim
+ * of an utterance alerts only once.
+ */
+
+import {escapeRegExp, wholeWord} from "./WordMatching"
+
+export const MAX_ALERT_KEYWORDS = 50
+export const MAX_KEYWORD_LENGTH = 40
+
+// How long a keyword stays quiet after alerting
+export const DEFAULT_ALERT_COOLDOWN_MS = 30 * 1000
+
+/**
+ * Check a user-entered keyword list
+ *
+ * @returns An error message, or null if the list is valid
+ */
+export function validateAlertKeywords(value: unknown): string | null {
+  if (!Array.isArray(value) || value.length > MAX_ALERT_KEYWORDS) {
+    return `must be a list of at most ${MAX_ALERT_KEYWORDS} keywords`
+  }
+  if (!value.every((keyword) => typeof keyword === "string" && keyword.trim() && keyword.length <= MAX_KEYWORD_LENGTH)) {
+    return `must only contain keywords of 1 to ${MAX_KEYWORD_LENGTH} characters`
+  }
+  return null
+}
+
+function keywordPattern(keywords: string[]): RegExp | null {
+  const terms = keywords
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+    // Longest first so "fire alarm" wins over "fire"
+    .sort((a, b) => b.length - a.length)
+    .map((keyword) => escapeRegExp(keyword).replace(/\s+/g, "\\s+"))
+  if (terms.length === 0) return null
+  return new RegExp(wholeWord(terms.join("|")), "giu")
+}
+
+/**
+ * Keywords said in a text, as the user registered them
+ */
+export function findKeywords(text: string, keywords: string[]): string[] {
+  const pattern = keywordPattern(keywords)
+  if (!pattern || !text) return []
+
+  const normalize = (term: string) => term.trim().replace(/\s+/g, " ").toLocaleLowerCase()
+  const found = new Set<string>()
+  for (const match of text.matchAll(pattern)) {
+    const keyword = keywords.find((k) => normalize(k) === normalize(match[0]))
+    if (keyword) found.add(keyword)
+  }
+  return [...found]
+}
+
+/**
+ * Upper-case every keyword in a text so it stands out on the glasses
+ */
+export function markKeywords(text: string, keywords: string[]): string {
+  const pattern = keywordPattern(keywords)
+  return pattern ? text.replace(pattern, (match) => match.toLocaleUpperCase()) : text
+}
+
+export interface KeywordAlerterOptions {
+  /** Minimum time between two alerts for the same keyword (default 30s) */
+  cooldownMs?: number
+  /** Clock, overridable for tests */
+  now?: () => number
+}
+
+/**
+ * Decides which keyword matches should raise an alert
+ */
+export class KeywordAlerter {
+  private readonly cooldownMs: number
+  private readonly now: () => number
+
+  // Last alert time per keyword (lowercase)
+  private lastAlertAt = new Map<string, number>()
+  // Keywords already alerted for the current utterance
+  private utteranceId: string | null = null
+  private alertedInUtterance = new Set<string>()
+
+  constructor(options: KeywordAlerterOptions = {}) {
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_ALERT_COOLDOWN_MS
+    this.now = options.now ?? Date.now
+  }
+
+  /**
+   * Keywords found in a transcription that should alert now
+   *
+   * @param found - Keywords in the transcription (from findKeywords)
+   * @param utteranceId - Utterance the transcription belongs to, if known
+   */
+  check(found: string[], utteranceId: string | null): string[] {
+    if (utteranceId !== this.utteranceId) {
+      this.utteranceId = utteranceId
+      this.alertedInUtterance.clear()
+    }
+
+    const now = this.now()
+    const alerts: string[] = []
+    for (const keyword of found) {
+      const key = keyword.toLocaleLowerCase()
+      const last = this.lastAlertAt.get(key)
+      if (this.alertedInUtterance.has(key) || (last !== undefined && now - last < this.cooldownMs)) {
+        continue
+      }
+      this.alertedInUtterance.add(key)
+      this.lastAlertAt.set(key, now)
+      alerts.push(keyword)
+    }
+    return alerts
+  }
+
+  reset(): void {
+    this.lastAlertAt.clear()
+    this.utteranceId = null
+    this.alertedInUtterance.clear()
+  }
+}
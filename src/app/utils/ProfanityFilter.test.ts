@@ -0,0 +1,50 @@
+import {describe, expect, test} from "bun:test"
+import {maskProfanity, parseFilterTerms, type ProfanityFilterOptions} from "./ProfanityFilter"
+
+const options = (overrides: Partial<ProfanityFilterOptions> = {}): ProfanityFilterOptions => ({
+  style: "asterisks",
+  allowList: [],
+  denyList: [],
+  ...overrides,
+})
+
+describe("ProfanityFilter", () => {
+  test("should mask whole words from the language's list", () => {
+    expect(maskProfanity("Oh shit, that's shitty", "en", options())).toBe("Oh ****, that's ******")
+    // Only whole words
+    expect(maskProfanity("Mishits happen", "en", options())).toBe("Mishits happen")
+  })
+
+  test("should match any ending for wildcard terms", () => {
+    expect(maskProfanity("What the FUCKING hell", "en", options())).toBe("What the ******* hell")
+  })
+
+  test("should keep the first letter in first-letter style", () => {
+    expect(maskProfanity("Scheiße!", "de", options({style: "firstLetter"}))).toBe("S******!")
+  })
+
+  test("should only use the word list of the text's language", () => {
+    expect(maskProfanity("Es una mierda", "en", options())).toBe("Es una mierda")
+    expect(maskProfanity("Es una mierda", "es", options())).toBe("Es una ******")
+    // Undetected language checks every list
+    expect(maskProfanity("Es una mierda", null, options())).toBe("Es una ******")
+  })
+
+  test("should mask denied terms and phrases in every language", () => {
+    const denyList = ["exam answers", "Voldemort"]
+    expect(maskProfanity("Share the exam  answers with voldemort", "fr", options({denyList}))).toBe(
+      "Share the ****  ******* with *********",
+    )
+  })
+
+  test("should leave allowed words unmasked", () => {
+    expect(maskProfanity("Damn bastards", "en", options({allowList: ["Bastards"]}))).toBe("Damn bastards")
+  })
+
+  test("should validate allow and deny lists", () => {
+    expect(parseFilterTerms([" homework ", "homework", "exam*"])).toEqual({terms: ["homework", "exam*"]})
+    expect("error" in parseFilterTerms(["*"])).toBe(true)
+    expect("error" in parseFilterTerms([""])).toBe(true)
+    expect("error" in parseFilterTerms("homework")).toBe(true)
+  })
+})
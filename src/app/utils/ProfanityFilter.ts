@@ -0,0 +1,113 @@
+/**
+ * ProfanityFilter
+ *
+ * Masks profanity and user-listed sensitive terms in caption text before it is
+ * stored or shown. Each language has its own word list; the user's deny list
+ * adds terms in every language and the allow list keeps words unmasked.
+ *
+ * Terms ending in "*" match any ending ("fuck*" also masks "fucking").
+ */
+
+import {escapeRegExp, wholeWord} from "./WordMatching"
+
+export type MaskStyle = "asterisks" | "firstLetter"
+
+export const MASK_STYLES: MaskStyle[] = ["asterisks", "firstLetter"]
+
+export const MAX_FILTER_TERMS = 100
+export const MAX_FILTER_TERM_LENGTH = 40
+
+export interface ProfanityFilterOptions {
+  style: MaskStyle
+  /** Words never masked, even if a word list has them */
+  allowList: string[]
+  /** Extra words or phrases to mask in every language */
+  denyList: string[]
+}
+
+/**
+ * Built-in word lists by base language code
+ */
+export const PROFANITY_WORDS: Record<string, string[]> = {
+  en: [
+    "fuck*",
+    "motherfuck*",
+    "shit",
+    "shits",
+    "shitty",
+    "shitting",
+    "bullshit",
+    "bitch*",
+    "bastard*",
+    "asshole*",
+    "arsehole*",
+    "dickhead*",
+    "cunt*",
+    "goddamn*",
+    "wank*",
+    "twat*",
+    "slut*",
+    "whore*",
+    "bollocks",
+  ],
+  es: ["puta*", "puto*", "mierda*", "joder", "jodido*", "coño", "cabrón", "cabrones", "gilipollas", "pendejo*", "chingad*", "carajo"],
+  fr: ["merde*", "putain*", "connard*", "connasse*", "salope*", "enculé*", "niquer", "nique"],
+  de: ["scheiße", "scheisse", "scheiß*", "arschloch*", "ficken", "fick", "wichser*", "fotze*", "miststück*"],
+  pt: ["porra", "caralho*", "merda*", "puta*", "foda*", "fodido*", "cacete"],
+  it: ["cazzo*", "merda*", "stronzo*", "stronza*", "vaffanculo", "puttana*", "minchia", "coglion*"],
+}
+
+function termPattern(term: string): string {
+  const wildcard = term.endsWith("*")
+  const escaped = escapeRegExp((wildcard ? term.slice(0, -1) : term).trim())
+  // Phrases match with any whitespace between their words
+  return escaped.replace(/\s+/g, "\\s+") + (wildcard ? "[\\p{L}\\p{M}]*" : "")
+}
+
+/**
+ * Check a user-entered allow or deny list
+ *
+ * @returns The cleaned, de-duplicated terms, or an error message
+ */
+export function parseFilterTerms(value: unknown): {terms: string[]} | {error: string} {
+  if (!Array.isArray(value) || value.length > MAX_FILTER_TERMS) {
+    return {error: `must be a list of at most ${MAX_FILTER_TERMS} words`}
+  }
+  const terms: string[] = []
+  for (const term of value) {
+    if (typeof term !== "string" || !term.trim() || term.length > MAX_FILTER_TERM_LENGTH) {
+      return {error: `must only contain words of 1 to ${MAX_FILTER_TERM_LENGTH} characters`}
+    }
+    if (term.trim() === "*") {
+      return {error: "must not contain a bare *"}
+    }
+    if (!terms.includes(term.trim())) terms.push(term.trim())
+  }
+  return {terms}
+}
+
+function maskWord(word: string, style: MaskStyle): string {
+  const chars = Array.from(word)
+  return style === "firstLetter" ? chars[0] + "*".repeat(chars.length - 1) : "*".repeat(chars.length)
+}
+
+/**
+ * Mask profanity in a text
+ *
+ * @param language - Base language code of the text; null (not yet detected)
+ *   checks the word lists of every language
+ */
+export function maskProfanity(text: string, language: string | null, options: ProfanityFilterOptions): string {
+  const words = language ? (PROFANITY_WORDS[language] ?? []) : Object.values(PROFANITY_WORDS).flat()
+  const terms = [...words, ...options.denyList]
+  if (terms.length === 0 || !text) return text
+
+  const pattern = new RegExp(wholeWord(terms.map(termPattern).join("|")), "giu")
+  const allowed = new Set(options.allowList.map((term) => term.toLocaleLowerCase()))
+
+  return text.replace(pattern, (match) =>
+    allowed.has(match.toLocaleLowerCase())
+      ? match
+      : match.replace(/[\p{L}\p{M}\p{N}]+/gu, (word) => maskWord(word, options.style)),
+  )
+}
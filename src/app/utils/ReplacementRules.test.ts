@@ -0,0 +1,72 @@
+import {describe, expect, test} from "bun:test"
+import {
+  applyReplacementRules,
+  compileReplacementRules,
+  parseReplacementRule,
+  type ReplacementRuleInput,
+} from "./ReplacementRules"
+
+function rule(overrides: Partial<ReplacementRuleInput>): ReplacementRuleInput {
+  return {find: "", replace: "", regex: false, matchCase: false, wholeWord: true, ...overrides}
+}
+
+function apply(text: string, rules: ReplacementRuleInput[]): string {
+  return applyReplacementRules(text, compileReplacementRules(rules))
+}
+
+describe("ReplacementRules", () => {
+  describe("applyReplacementRules", () => {
+    test("should replace whole words ignoring case by default", () => {
+      const rules = [rule({find: "shivon", replace: "Siobhan"})]
+      expect(apply("Shivon said shivonne", rules)).toBe("Siobhan said shivonne")
+    })
+
+    test("should match inside words when wholeWord is off", () => {
+      expect(apply("cat catalog", [rule({find: "cat", replace: "dog", wholeWord: false})])).toBe("dog dogalog")
+    })
+
+    test("should respect matchCase", () => {
+      expect(apply("Apple apple", [rule({find: "apple", replace: "pear", matchCase: true})])).toBe("Apple pear")
+    })
+
+    test("should treat word boundaries in other scripts as letters", () => {
+      expect(apply("Привет мир", [rule({find: "мир", replace: "world"})])).toBe("Привет world")
+      expect(apply("Приветмир", [rule({find: "мир", replace: "world"})])).toBe("Приветмир")
+    })
+
+    test("should match whole-word rules inside Chinese and Japanese text", () => {
+      expect(apply("我叫小名", [rule({find: "小名", replace: "小明"})])).toBe("我叫小明")
+      expect(apply("たなかさん", [rule({find: "たなか", replace: "田中"})])).toBe("田中さん")
+    })
+
+    test("should support regex rules with capture groups", () => {
+      const rules = [rule({find: "\\ba\\s*p\\s*i\\b", replace: "API", regex: true}), rule({find: "(\\d+) percent", replace: "$1%", regex: true})]
+      expect(apply("the a p i is 50 percent done", rules)).toBe("the API is 50% done")
+    })
+
+    test("should insert plain replacements literally", () => {
+      expect(apply("price", [rule({find: "price", replace: "$1 cost"})])).toBe("$1 cost")
+    })
+
+    test("should run rules in order", () => {
+      const rules = [rule({find: "gonna", replace: "going to"}), rule({find: "going to", replace: "will"})]
+      expect(apply("we're gonna win", rules)).toBe("we're will win")
+    })
+  })
+
+  describe("parseReplacementRule", () => {
+    test("should fill in defaults and trim plain text", () => {
+      expect(parseReplacementRule({find: " Shivon ", replace: "Siobhan"})).toEqual({
+        rule: {find: "Shivon", replace: "Siobhan", regex: false, matchCase: false, wholeWord: true},
+      })
+    })
+
+    test("should reject invalid rules", () => {
+      expect("error" in parseReplacementRule({find: "", replace: "x"})).toBe(true)
+      expect("error" in parseReplacementRule({find: "x"})).toBe(true)
+      expect("error" in parseReplacementRule({find: "(unclosed", replace: "x", regex: true})).toBe(true)
+      expect("error" in parseReplacementRule({find: "a*", replace: "x", regex: true})).toBe(true)
+      expect("error" in parseReplacementRule({find: "x", replace: "y", matchCase: "yes"})).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * ReplacementRules
+ *
+ * User-defined find→replace rules applied to transcription text before it is
+ * stored or shown, e.g. names the recognizer always misspells ("Shivon" →
+ * "Siobhan") or acronyms ("a p i" → "API"). Rules run in order, each on the
+ * output of the previous one.
+ */
+
+import {escapeRegExp, wholeWord} from "./WordMatching"
+
+export interface ReplacementRule {
+  id: string
+  find: string
+  replace: string
+  /** Treat find as a regular expression; replace may use $1, $2, ... */
+  regex: boolean
+  matchCase: boolean
+  /** Only match whole words (plain rules only) */
+  wholeWord: boolean
+}
+
+export type ReplacementRuleInput = Omit<ReplacementRule, "id">
+
+export const MAX_REPLACEMENT_RULES = 200
+export const MAX_RULE_TEXT_LENGTH = 200
+
+/**
+ * Regular expression a rule matches with
+ *
+ * @throws SyntaxError if a regex rule isn't a valid regular expression
+ */
+export function compileRule(rule: ReplacementRuleInput): RegExp {
+  if (rule.regex) {
+    return new RegExp(rule.find, rule.matchCase ? "g" : "gi")
+  }
+  const pattern = escapeRegExp(rule.find)
+  return new RegExp(
+    rule.wholeWord ? wholeWord(pattern) : pattern,
+    rule.matchCase ? "gu" : "giu",
+  )
+}
+
+/**
+ * Check a rule from a request body
+ *
+ * @returns The cleaned rule, or an error message
+ */
+export function parseReplacementRule(input: unknown): {rule: ReplacementRuleInput} | {error: string} {
+  if (!input || typeof input !== "object") {
+    return {error: "rule must be an object"}
+  }
+  const {find, replace, regex = false, matchCase = false, wholeWord = true} = input as Record<string, unknown>
+
+  if (typeof find !== "string" || !find.trim()) {
+    return {error: "find must be a non-empty string"}
+  }
+  if (typeof replace !== "string") {
+    return {error: "replace must be a string"}
+  }
+  if (find.length > MAX_RULE_TEXT_LENGTH || replace.length > MAX_RULE_TEXT_LENGTH) {
+    return {error: `find and replace must be at most ${MAX_RULE_TEXT_LENGTH} characters`}
+  }
+  if (typeof regex !== "boolean" || typeof matchCase !== "boolean" || typeof wholeWord !== "boolean") {
+    return {error: "regex, matchCase and wholeWord must be booleans"}
+  }
+
+  const rule: ReplacementRuleInput = {find: regex ? find : find.trim(), replace, regex, matchCase, wholeWord}
+
+  let pattern: RegExp
+  try {
+    pattern = compileRule(rule)
+  } catch (error) {
+    return {error: `find is not a valid regular expression: ${(error as Error).message}`}
+  }
+  // A pattern matching empty text would insert the replacement between every character
+  if (pattern.test("")) {
+    return {error: "find must not match empty text"}
+  }
+
+  return {rule}
+}
+
+export interface CompiledReplacementRule {
+  rule: ReplacementRuleInput
+  pattern: RegExp
+}
+
+/**
+ * Compile rules once for repeated use with applyReplacementRules.
+ * Rules that no longer compile are skipped.
+ */
+export function compileReplacementRules(rules: ReplacementRuleInput[]): CompiledReplacementRule[] {
+  const compiled: CompiledReplacementRule[] = []
+  for (const rule of rules) {
+    try {
+      compiled.push({rule, pattern: compileRule(rule)})
+    } catch {
+      // Validated when saved; skip rather than break transcription
+    }
+  }
+  return compiled
+}
+
+/**
+ * Apply compiled rules in order to a text
+ */
+export function applyReplacementRules(text: string, rules: CompiledReplacementRule[]): string {
+  let result = text
+  for (const {rule, pattern} of rules) {
+    // Plain rules insert the replacement literally ($ has no special meaning)
+    result = rule.regex ? result.replace(pattern, rule.replace) : result.replace(pattern, () => rule.replace)
+  }
+  return result
+}
@@ -0,0 +1,90 @@
+import {describe, expect, test} from "bun:test"
+import {
+  SETTINGS_SCHEMA_VERSION,
+  decodeSetting,
+  defaultSettings,
+  encodeSetting,
+  migrateSettings,
+  validateSettingsPatch,
+} from "./SettingsSchema"
+
+describe("SettingsSchema", () => {
+  describe("decodeSetting", () => {
+    test("should decode stored strings into typed values", () => {
+      expect(decodeSetting("displayLines", "4")).toBe(4)
+      expect(decodeSetting("wordBreaking", "false")).toBe(false)
+      expect(decodeSetting("languageHints", '["es","fr"]')).toEqual(["es", "fr"])
+      expect(decodeSetting("layoutMode", "paged")).toBe("paged")
+    })
+
+    test("should fall back to the default for missing or invalid values", () => {
+      expect(decodeSetting("language", undefined)).toBe("auto")
+      expect(decodeSetting("displayLines", "9")).toBe(3)
+      expect(decodeSetting("displayWidth", "wide")).toBe(1)
+      expect(decodeSetting("languageHints", "{not json")).toEqual([])
+      expect(decodeSetting("layoutMode", "sideways")).toBe("rolling")
+      expect(decodeSetting("translationLanguage", "Spanish")).toBe("")
+    })
+
+    test("should round-trip encoded values", () => {
+      const settings = {...defaultSettings(), languageHints: ["de"], finalHoldSeconds: 60, fadeAfterSilence: false}
+      for (const key of Object.keys(settings) as Array<keyof typeof settings>) {
+        expect(decodeSetting(key, encodeSetting(key, settings[key]))).toEqual(settings[key])
+      }
+    })
+  })
+
+  describe("validateSettingsPatch", () => {
+    test("should accept a valid partial update", () => {
+      const result = validateSettingsPatch({displayLines: 5, translationLanguage: "zh-TW"})
+      expect(result).toEqual({patch: {displayLines: 5, translationLanguage: "zh-TW"}})
+    })
+
+    test("should report every invalid or unknown setting", () => {
+      const result = validateSettingsPatch({displayLines: 7, clearTimeoutSeconds: 1.5, colour: "red", wordBreaking: true})
+      expect("errors" in result && Object.keys(result.errors)).toEqual(["displayLines", "clearTimeoutSeconds", "colour"])
+    })
+
+    test("should allow one known transliterator per language", () => {
+      expect("patch" in validateSettingsPatch({transliterators: ["zh-zhuyin", "ja-romaji"]})).toBe(true)
+      expect("errors" in validateSettingsPatch({transliterators: ["zh-pinyin", "zh-zhuyin"]})).toBe(true)
+      expect("errors" in validateSettingsPatch({transliterators: ["xx-latin"]})).toBe(true)
+    })
+
+    test("should only allow the given keys", () => {
+      const result = validateSettingsPatch({translationLanguage: "es"}, ["displayLines"])
+      expect("errors" in result).toBe(true)
+    })
+  })
+
+  describe("migrateSettings", () => {
+    test("should turn language names into codes", () => {
+      expect(migrateSettings({language: "French", languageHints: '["German","es"]'}, 0)).toEqual({
+        language: "fr",
+        languageHints: '["de","es"]',
+      })
+    })
+
+    test("should move Chinese (Pinyin) to the Pinyin transliterator", () => {
+      expect(migrateSettings({language: "Chinese (Pinyin)"}, 0)).toEqual({
+        language: "zh",
+        chinesePinyin: "true",
+        transliterators: '["zh-pinyin"]',
+      })
+    })
+
+    test("should turn the Pinyin toggle into the Pinyin transliterator", () => {
+      expect(migrateSettings({chinesePinyin: "true"}, 1)).toEqual({transliterators: '["zh-pinyin"]'})
+      expect(migrateSettings({chinesePinyin: "false"}, 1)).toEqual({})
+    })
+
+    test("should keep names without a plain code", () => {
+      expect(migrateSettings({language: "Chinese (Cantonese, Traditional)"}, 0)).toEqual({})
+      expect(migrateSettings({language: "Klingon"}, 0)).toEqual({})
+    })
+
+    test("should skip migrations that already ran", () => {
+      expect(migrateSettings({language: "French"}, SETTINGS_SCHEMA_VERSION)).toEqual({})
+    })
+  })
+})
@@ -0,0 +1,468 @@
+/**
+ * SettingsSchema
+ *
+ * Single description of every stored caption setting: its default, how it is
+ * validated, and what has to be refreshed when it changes. SettingsManager
+ * stores each setting under its own SimpleStorage key (the setting name) as a
+ * string; the schema turns those strings back into typed values and migrates
+ * values written by older versions of the app.
+ */
+
+import { LAYOUT_MODES, type LayoutMode } from "./CaptionsFormatter";
+import { AUTO_DISPLAY_PROFILE, getDisplayProfile } from "./DisplayProfiles";
+import { languageToLocale, resolveLocale } from "./languageLocale";
+import { MASK_STYLES, type MaskStyle, parseFilterTerms } from "./ProfanityFilter";
+import { validateAlertKeywords } from "./KeywordAlerts";
+import { SOUND_CATEGORIES, type SoundCategory } from "../sounds/SoundEventDetector";
+import {
+  TRANSLITERATION_MODES,
+  type TransliterationMode,
+  validateTransliterators,
+} from "../transliteration";
+
+// Caption timing limits (seconds)
+export const MAX_CLEAR_TIMEOUT_SECONDS = 600;
+export const MIN_FINAL_HOLD_SECONDS = 1;
+export const MAX_FINAL_HOLD_SECONDS = 300;
+
+// Translation target: a language code like "es" or "zh-TW" ("" = off)
+export const TRANSLATION_LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/;
+
+export interface StoredSettings {
+  language: string;
+  languageHints: string[];
+  multilingual: boolean;
+  transliterators: string[];
+  glassesTransliteration: TransliterationMode;
+  webviewTransliteration: TransliterationMode;
+  displayLines: number;
+  displayWidth: number;
+  wordBreaking: boolean;
+  layoutMode: LayoutMode;
+  displayProfile: string;
+  clearTimeoutSeconds: number;
+  finalHoldSeconds: number;
+  fadeAfterSilence: boolean;
+  translationLanguage: string;
+  profanityFilter: boolean;
+  profanityMaskStyle: MaskStyle;
+  profanityAllowList: string[];
+  profanityDenyList: string[];
+  alertKeywords: string[];
+  keywordNotifications: boolean;
+  nameAlert: boolean;
+  wearerNames: string[];
+  soundEventCategories: SoundCategory[];
+}
+
+export type SettingKey = keyof StoredSettings;
+
+/**
+ * What has to be refreshed after a setting changes.
+ * - display: DisplayManager layout (width, lines, wrapping)
+ * - timing: DisplayManager timers
+ * - transcription: the transcription subscription
+ * - none: read per utterance, nothing to refresh
+ */
+export type SettingEffect = "display" | "timing" | "transcription" | "none";
+
+interface SettingField<T> {
+  default: T;
+  effect: SettingEffect;
+  /** Error message for an invalid value, or null if it is valid */
+  validate(value: unknown): string | null;
+}
+
+const isInteger = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const boolean = (value: unknown) =>
+  typeof value === "boolean" ? null : "must be a boolean";
+
+const transliterationMode = (value: unknown) =>
+  TRANSLITERATION_MODES.includes(value as TransliterationMode)
+    ? null
+    : `must be one of: ${TRANSLITERATION_MODES.join(", ")}`;
+
+const filterTerms = (value: unknown) => {
+  const parsed = parseFilterTerms(value);
+  return "error" in parsed ? parsed.error : null;
+};
+
+export const SETTINGS_SCHEMA: {
+  [K in SettingKey]: SettingField<StoredSettings[K]>;
+} = {
+  language: {
+    default: "auto",
+    effect: "transcription",
+    validate: (v) =>
+      typeof v === "string" && v.length > 0
+        ? null
+        : 'must be a language code or "auto"',
+  },
+  languageHints: {
+    default: [],
+    effect: "transcription",
+    validate: (v) =>
+      Array.isArray(v) && v.every((hint) => typeof hint === "string")
+        ? null
+        : "must be an array of language codes",
+  },
+  multilingual: { default: false, effect: "transcription", validate: boolean },
+  transliterators: {
+    // Transliteration scheme per language, e.g. ["zh-pinyin"]
+    default: [],
+    effect: "none",
+    validate: validateTransliterators,
+  },
+  glassesTransliteration: {
+    default: "transliterated",
+    effect: "none",
+    validate: transliterationMode,
+  },
+  webviewTransliteration: {
+    default: "original",
+    effect: "none",
+    validate: transliterationMode,
+  },
+  displayLines: {
+    default: 3,
+    effect: "display",
+    validate: (v) => (isInteger(v, 2, 5) ? null : "must be between 2 and 5"),
+  },
+  displayWidth: {
+    // 0=Narrow, 1=Medium, 2=Wide
+    default: 1,
+    effect: "display",
+    validate: (v) =>
+      isInteger(v, 0, 2) ? null : "must be 0 (Narrow), 1 (Medium) or 2 (Wide)",
+  },
+  wordBreaking: {
+    // Character-level breaking with hyphens for max utilization
+    default: true,
+    effect: "display",
+    validate: boolean,
+  },
+  layoutMode: {
+    default: "rolling",
+    effect: "display",
+    validate: (v) =>
+      LAYOUT_MODES.includes(v as LayoutMode)
+        ? null
+        : `must be one of: ${LAYOUT_MODES.join(", ")}`,
+  },
+  displayProfile: {
+    // "auto" picks the profile for the connected glasses
+    default: AUTO_DISPLAY_PROFILE,
+    effect: "display",
+    validate: (v) =>
+      v === AUTO_DISPLAY_PROFILE ||
+      (typeof v === "string" && getDisplayProfile(v) !== null)
+        ? null
+        : "must be \"auto\" or a known display profile",
+  },
+  clearTimeoutSeconds: {
+    // 0 means never clear
+    default: 40,
+    effect: "timing",
+    validate: (v) =>
+      isInteger(v, 0, MAX_CLEAR_TIMEOUT_SECONDS)
+        ? null
+        : `must be 0 (never) to ${MAX_CLEAR_TIMEOUT_SECONDS} seconds`,
+  },
+  finalHoldSeconds: {
+    default: 20,
+    effect: "timing",
+    validate: (v) =>
+      isInteger(v, MIN_FINAL_HOLD_SECONDS, MAX_FINAL_HOLD_SECONDS)
+        ? null
+        : `must be ${MIN_FINAL_HOLD_SECONDS} to ${MAX_FINAL_HOLD_SECONDS} seconds`,
+  },
+  fadeAfterSilence: { default: true, effect: "timing", validate: boolean },
+  translationLanguage: {
+    // "" = captions in the spoken language
+    default: "",
+    effect: "none",
+    validate: (v) =>
+      v === "" ||
+      (typeof v === "string" && TRANSLATION_LANGUAGE_PATTERN.test(v))
+        ? null
+        : "must be a language code (e.g. es) or empty to turn translation off",
+  },
+  profanityFilter: { default: false, effect: "none", validate: boolean },
+  profanityMaskStyle: {
+    default: "asterisks",
+    effect: "none",
+    validate: (v) =>
+      MASK_STYLES.includes(v as MaskStyle)
+        ? null
+        : `must be one of: ${MASK_STYLES.join(", ")}`,
+  },
+  profanityAllowList: { default: [], effect: "none", validate: filterTerms },
+  profanityDenyList: { default: [], effect: "none", validate: filterTerms },
+  alertKeywords: {
+    default: [],
+    effect: "none",
+    validate: validateAlertKeywords,
+  },
+  // Show an alert card on the glasses when a keyword is said
+  keywordNotifications: { default: true, effect: "none", validate: boolean },
+  // Banner on the glasses when someone says one of the wearer's names
+  nameAlert: { default: false, effect: "none", validate: boolean },
+  wearerNames: {
+    // The wearer's name and nicknames
+    default: [],
+    effect: "none",
+    validate: validateAlertKeywords,
+  },
+  soundEventCategories: {
+    // Non-speech sounds to caption (when a sound detector is configured)
+    default: [...SOUND_CATEGORIES],
+    effect: "none",
+    validate: (v) =>
+      Array.isArray(v) &&
+      v.every((category) => SOUND_CATEGORIES.includes(category as SoundCategory))
+        ? null
+        : `must be a list of: ${SOUND_CATEGORIES.join(", ")}`,
+  },
+};
+
+export const SETTING_KEYS = Object.keys(SETTINGS_SCHEMA) as SettingKey[];
+
+/**
+ * Display and language settings a profile bundles. Translation depends on the
+ * server having a translator, and the personal lists (keywords, names, filter
+ * terms, sounds) shouldn't change back when an older profile is applied.
+ */
+export const PROFILE_SETTING_KEYS = [
+  "language",
+  "languageHints",
+  "multilingual",
+  "transliterators",
+  "glassesTransliteration",
+  "webviewTransliteration",
+  "displayLines",
+  "displayWidth",
+  "wordBreaking",
+  "layoutMode",
+  "clearTimeoutSeconds",
+  "finalHoldSeconds",
+  "fadeAfterSilence",
+] satisfies SettingKey[];
+
+export type ProfileSettingKey = (typeof PROFILE_SETTING_KEYS)[number];
+
+// Settings that profiles saved by earlier versions held, but profiles no longer do
+const RETIRED_PROFILE_KEYS = new Set<string>(
+  SETTING_KEYS.filter(
+    (key) =>
+      key !== "translationLanguage" &&
+      !(PROFILE_SETTING_KEYS as SettingKey[]).includes(key),
+  ),
+);
+
+/**
+ * Drop the settings profiles no longer hold from a stored or imported
+ * profile. Anything else is kept, so validation still reports it.
+ */
+export function withoutNonProfileSettings(
+  settings: Record<string, unknown>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(settings).filter(([key]) => !RETIRED_PROFILE_KEYS.has(key)),
+  );
+}
+
+/**
+ * Settings that were replaced by others. Their stored values are still read
+ * so the migrations can carry them over.
+ */
+export const RETIRED_SETTING_KEYS = ["chinesePinyin"];
+
+export function defaultSettings(): StoredSettings {
+  return Object.fromEntries(
+    SETTING_KEYS.map((key) => [key, structuredClone(SETTINGS_SCHEMA[key].default)]),
+  ) as unknown as StoredSettings;
+}
+
+/**
+ * Typed value of a stored string. Missing or invalid values fall back to the default.
+ */
+export function decodeSetting<K extends SettingKey>(
+  key: K,
+  stored: string | null | undefined,
+): StoredSettings[K] {
+  const field = SETTINGS_SCHEMA[key];
+  if (!stored) return structuredClone(field.default);
+
+  let value: unknown;
+  switch (typeof field.default) {
+    case "number":
+      value = parseInt(stored, 10);
+      break;
+    case "boolean":
+      value = stored === "true";
+      break;
+    case "string":
+      value = stored;
+      break;
+    default:
+      try {
+        value = JSON.parse(stored);
+      } catch {
+        value = undefined;
+      }
+  }
+
+  return field.validate(value) === null
+    ? (value as StoredSettings[K])
+    : structuredClone(field.default);
+}
+
+export function encodeSetting<K extends SettingKey>(
+  key: K,
+  value: StoredSettings[K],
+): string {
+  return Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Check a partial update. Either every entry is valid or none is applied, so
+ * the result is the whole patch or a message per rejected setting.
+ */
+export function validateSettingsPatch(
+  patch: unknown,
+  allowedKeys: SettingKey[] = SETTING_KEYS,
+): { patch: Partial<StoredSettings> } | { errors: Record<string, string> } {
+  if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+    return { errors: { settings: "must be an object" } };
+  }
+
+  const errors: Record<string, string> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (!allowedKeys.includes(key as SettingKey)) {
+      errors[key] = "is not a known setting";
+      continue;
+    }
+    const error = SETTINGS_SCHEMA[key as SettingKey].validate(value);
+    if (error) errors[key] = error;
+  }
+
+  return Object.keys(errors).length > 0
+    ? { errors }
+    : { patch: patch as Partial<StoredSettings> };
+}
+
+/**
+ * Language code the webview would store for a language name written by older
+ * versions ("French" -> "fr"), or null if the name has no plain code (unknown
+ * names, and regional variants like "Chinese (Cantonese, Traditional)")
+ */
+function languageNameToCode(name: string): string | null {
+  const locale = languageToLocale(name);
+  // languageToLocale falls back to en-US for names it doesn't know
+  if (locale === "en-US" && !name.startsWith("English")) return null;
+  const code = locale.split("-")[0];
+  return resolveLocale(code) === locale ? code : null;
+}
+
+type StoredValues = Record<string, string | undefined>;
+
+/**
+ * Upgrades of the stored strings, one per schema version. Each receives the
+ * stored values and returns the ones to overwrite.
+ */
+export const SETTINGS_MIGRATIONS: Array<(stored: StoredValues) => Record<string, string>> = [
+  // 1: Language settings used to hold language names ("French", "Chinese
+  // (Pinyin)") from the SDK settings; the webview works with codes
+  (stored) => {
+    const changes: Record<string, string> = {};
+
+    const language = stored.language;
+    if (language === "Chinese (Pinyin)") {
+      changes.language = "zh";
+      changes.chinesePinyin = "true";
+    } else if (language && language !== "auto") {
+      const code = languageNameToCode(language);
+      if (code && code !== language) changes.language = code;
+    }
+
+    if (stored.languageHints) {
+      try {
+        const hints: unknown = JSON.parse(stored.languageHints);
+        if (Array.isArray(hints)) {
+          const migrated = hints.map((hint) =>
+            typeof hint === "string" ? (languageNameToCode(hint) ?? hint) : hint,
+          );
+          if (JSON.stringify(migrated) !== JSON.stringify(hints)) {
+            changes.languageHints = JSON.stringify(migrated);
+          }
+        }
+      } catch {
+        // Unreadable hints fall back to the default when decoded
+      }
+    }
+
+    return changes;
+  },
+  // 2: The Pinyin toggle (chinesePinyin) became one of the transliterators
+  (stored) => {
+    const changes: Record<string, string> = {};
+    if (stored.chinesePinyin === "true") {
+      changes.transliterators = JSON.stringify(["zh-pinyin"]);
+    }
+    return changes;
+  },
+];
+
+export const SETTINGS_SCHEMA_VERSION = SETTINGS_MIGRATIONS.length;
+
+/**
+ * Run the migrations newer than `fromVersion` over the stored values
+ *
+ * @returns The values to overwrite (empty if nothing changed)
+ */
+export function migrateSettings(
+  stored: StoredValues,
+  fromVersion: number,
+): Record<string, string> {
+  const current: StoredValues = { ...stored };
+  const changes: Record<string, string> = {};
+  for (const migrate of SETTINGS_MIGRATIONS.slice(fromVersion)) {
+    const migrated = migrate(current);
+    Object.assign(current, migrated);
+    Object.assign(changes, migrated);
+  }
+  return changes;
+}
+
+/**
+ * Typed settings (an export or a saved profile) written with an older schema,
+ * brought up to date with the migrations. Retired settings are dropped.
+ */
+export function migrateSettingValues(
+  settings: Record<string, unknown>,
+  fromVersion: number,
+): Record<string, unknown> {
+  if (fromVersion >= SETTINGS_SCHEMA_VERSION) return settings;
+
+  const stored: StoredValues = {};
+  for (const key of [...SETTING_KEYS, ...RETIRED_SETTING_KEYS]) {
+    if (settings[key] !== undefined) {
+      stored[key] = encodeSetting(key as SettingKey, settings[key] as never);
+    }
+  }
+
+  const migrated = { ...settings };
+  for (const [key, value] of Object.entries(
+    migrateSettings(stored, fromVersion),
+  )) {
+    if (SETTING_KEYS.includes(key as SettingKey)) {
+      migrated[key] = decodeSetting(key as SettingKey, value);
+    }
+  }
+  for (const key of RETIRED_SETTING_KEYS) {
+    delete migrated[key];
+  }
+  return migrated;
+}
@@ -0,0 +1,112 @@
+import {describe, expect, test} from "bun:test"
+import {defaultSettings} from "./SettingsSchema"
+import {buildSettingsExport, findImportConflicts, parseSettingsExport, type SettingsSnapshot} from "./SettingsTransfer"
+
+function snapshot(overrides: Partial<SettingsSnapshot> = {}): SettingsSnapshot {
+  return {
+    settings: defaultSettings(),
+    profiles: [],
+    speakerNames: {},
+    replacementRules: [],
+    ...overrides,
+  }
+}
+
+describe("SettingsTransfer", () => {
+  test("should import its own export unchanged", () => {
+    const exported = buildSettingsExport(
+      snapshot({
+        settings: {...defaultSettings(), language: "fr", displayLines: 5},
+        profiles: [{name: "Seminar", settings: {displayLines: 4, layoutMode: "paged"}}],
+        speakerNames: {"1": "Alice"},
+        replacementRules: [{find: "Shivon", replace: "Siobhan", regex: false, matchCase: false, wholeWord: true}],
+      }),
+      new Date("2026-01-02T03:04:05Z"),
+    )
+
+    const parsed = parseSettingsExport(JSON.parse(JSON.stringify(exported)))
+    expect(parsed).toEqual({document: exported})
+  })
+
+  test("should reject documents that aren't settings exports", () => {
+    expect(parseSettingsExport({hello: "world"})).toEqual({errors: ["Not a captions settings export"]})
+    expect("errors" in parseSettingsExport({format: "captions-settings", version: 99})).toBe(true)
+  })
+
+  test("should report every invalid entry", () => {
+    const parsed = parseSettingsExport({
+      format: "captions-settings",
+      version: 1,
+      settings: {displayLines: 9, colour: "red"},
+      profiles: [{settings: {}}, {name: "Seminar", settings: {translationLanguage: "es"}}],
+      speakerNames: {"1": "", "2": "Bob"},
+      replacementRules: [{find: "(", replace: "", regex: true}],
+    })
+
+    expect(parsed).toEqual({
+      errors: [
+        "settings.displayLines must be between 2 and 5",
+        "settings.colour is not a known setting",
+        "profiles[0] needs a name",
+        "profiles[1].settings.translationLanguage is not a known setting",
+        "speakerNames.1 must be a name of at most 40 characters",
+        expect.stringContaining("replacementRules[0] find is not a valid regular expression"),
+      ],
+    })
+  })
+
+  test("should migrate settings exported with an older schema", () => {
+    const parsed = parseSettingsExport({
+      format: "captions-settings",
+      version: 1,
+      schemaVersion: 0,
+      settings: {language: "Chinese (Pinyin)"},
+    })
+
+    expect("document" in parsed && parsed.document.settings).toEqual({language: "zh", transliterators: ["zh-pinyin"]})
+  })
+
+  test("should drop personal lists from profiles exported by earlier versions", () => {
+    const parsed = parseSettingsExport({
+      format: "captions-settings",
+      version: 1,
+      profiles: [{name: "Seminar", settings: {displayLines: 5, alertKeywords: ["fire"], nameAlert: true}}],
+    })
+
+    expect("document" in parsed && parsed.document.profiles).toEqual([{name: "Seminar", settings: {displayLines: 5}}])
+  })
+
+  test("should list what the import would overwrite", () => {
+    const parsed = parseSettingsExport({
+      format: "captions-settings",
+      version: 1,
+      settings: {displayLines: 3, displayWidth: 2},
+      profiles: [
+        {name: "Seminar", settings: {displayLines: 5}},
+        {name: "New", settings: {displayLines: 2}},
+      ],
+      speakerNames: {"1": "Alice", "2": "Bob"},
+      replacementRules: [
+        {find: "a p i", replace: "API"},
+        {find: "Shivon", replace: "Siobhan"},
+      ],
+    })
+    if (!("document" in parsed)) throw new Error("expected a valid document")
+
+    const conflicts = findImportConflicts(
+      parsed.document,
+      snapshot({
+        profiles: [{name: "Seminar", settings: {displayLines: 4}}],
+        speakerNames: {"1": "Alice", "2": "Robert"},
+        replacementRules: [{find: "Shivon", replace: "Siobhán", regex: false, matchCase: false, wholeWord: true}],
+      }),
+    )
+
+    expect(conflicts).toEqual([
+      {type: "setting", key: "displayWidth", current: 1, imported: 2},
+      {type: "profile", key: "Seminar", current: {displayLines: 4}, imported: {displayLines: 5}},
+      {type: "speakerName", key: "2", current: "Robert", imported: "Bob"},
+      {type: "replacementRule", key: "Shivon", current: "Siobhán", imported: "Siobhan"},
+    ])
+  })
+})
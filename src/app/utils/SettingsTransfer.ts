@@ -0,0 +1,299 @@
+/**
+ * SettingsTransfer
+ *
+ * JSON document for moving a captions setup between accounts: every stored
+ * setting, the user's own settings profiles, remembered speaker names and
+ * vocabulary replacement rules.
+ * Importing validates the whole document first and lists what it would
+ * overwrite, so the webview can show the conflicts before applying anything.
+ */
+
+import {
+  PROFILE_SETTING_KEYS,
+  SETTINGS_SCHEMA_VERSION,
+  type SettingKey,
+  type StoredSettings,
+  migrateSettingValues,
+  validateSettingsPatch,
+  withoutNonProfileSettings,
+} from "./SettingsSchema";
+import {
+  MAX_REPLACEMENT_RULES,
+  type ReplacementRuleInput,
+  parseReplacementRule,
+} from "./ReplacementRules";
+import { isRecord } from "./TypeGuards";
+
+export const SETTINGS_EXPORT_FORMAT = "captions-settings";
+export const SETTINGS_EXPORT_VERSION = 1;
+
+export interface ExportedProfile {
+  name: string;
+  settings: Partial<StoredSettings>;
+}
+
+export interface SettingsExport {
+  format: typeof SETTINGS_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  // Settings schema the values were written with, for migrations on import
+  schemaVersion: number;
+  settings: Partial<StoredSettings>;
+  profiles: ExportedProfile[];
+  // Remembered speaker names, keyed by speaker ID
+  speakerNames: Record<string, string>;
+  replacementRules: ReplacementRuleInput[];
+}
+
+/** Current state an import is compared against */
+export interface SettingsSnapshot {
+  settings: StoredSettings;
+  profiles: ExportedProfile[];
+  speakerNames: Record<string, string>;
+  replacementRules: ReplacementRuleInput[];
+}
+
+export interface ImportConflict {
+  type: "setting" | "profile" | "speakerName" | "replacementRule";
+  /** Setting name, profile name, speaker ID or a rule's find text */
+  key: string;
+  current: unknown;
+  imported: unknown;
+}
+
+// Limits for imported documents
+const MAX_PROFILES = 50;
+const MAX_SPEAKER_NAME_LENGTH = 40;
+
+export function buildSettingsExport(
+  snapshot: SettingsSnapshot,
+  now: Date = new Date(),
+): SettingsExport {
+  return {
+    format: SETTINGS_EXPORT_FORMAT,
+    version: SETTINGS_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+    settings: { ...snapshot.settings },
+    profiles: snapshot.profiles.map(({ name, settings }) => ({
+      name,
+      settings,
+    })),
+    speakerNames: { ...snapshot.speakerNames },
+    replacementRules: snapshot.replacementRules.map(
+      ({ find, replace, regex, matchCase, wholeWord }) => ({
+        find,
+        replace,
+        regex,
+        matchCase,
+        wholeWord,
+      }),
+    ),
+  };
+}
+
+/**
+ * Validate an uploaded document. Nothing in it is used unless all of it is valid.
+ *
+ * @returns The document, or every problem found in it
+ */
+export function parseSettingsExport(
+  input: unknown,
+): { document: SettingsExport } | { errors: string[] } {
+  if (!isRecord(input) || input.format !== SETTINGS_EXPORT_FORMAT) {
+    return { errors: ["Not a captions settings export"] };
+  }
+  if (
+    typeof input.version !== "number" ||
+    input.version > SETTINGS_EXPORT_VERSION
+  ) {
+    return {
+      errors: [
+        "This export was made by a newer version of the app and can't be imported",
+      ],
+    };
+  }
+
+  const errors: string[] = [];
+  const schemaVersion =
+    typeof input.schemaVersion === "number" ? input.schemaVersion : 0;
+
+  let settings: Partial<StoredSettings> = {};
+  if (input.settings !== undefined) {
+    if (!isRecord(input.settings)) {
+      errors.push("settings must be an object");
+    } else {
+      const validated = validateSettingsPatch(
+        migrateSettingValues(input.settings, schemaVersion),
+      );
+      if ("errors" in validated) {
+        for (const [key, error] of Object.entries(validated.errors)) {
+          errors.push(`settings.${key} ${error}`);
+        }
+      } else {
+        settings = validated.patch;
+      }
+    }
+  }
+
+  const profiles: ExportedProfile[] = [];
+  if (input.profiles !== undefined) {
+    if (!Array.isArray(input.profiles) || input.profiles.length > MAX_PROFILES) {
+      errors.push(`profiles must be a list of at most ${MAX_PROFILES} profiles`);
+    } else {
+      input.profiles.forEach((profile: unknown, i) => {
+        if (
+          !isRecord(profile) ||
+          typeof profile.name !== "string" ||
+          !profile.name.trim()
+        ) {
+          errors.push(`profiles[${i}] needs a name`);
+          return;
+        }
+        const validated = validateSettingsPatch(
+          withoutNonProfileSettings(
+            migrateSettingValues(
+              isRecord(profile.settings) ? profile.settings : {},
+              schemaVersion,
+            ),
+          ),
+          PROFILE_SETTING_KEYS,
+        );
+        if ("errors" in validated) {
+          for (const [key, error] of Object.entries(validated.errors)) {
+            errors.push(`profiles[${i}].settings.${key} ${error}`);
+          }
+          return;
+        }
+        profiles.push({ name: profile.name.trim(), settings: validated.patch });
+      });
+    }
+  }
+
+  const speakerNames: Record<string, string> = {};
+  if (input.speakerNames !== undefined) {
+    if (!isRecord(input.speakerNames)) {
+      errors.push("speakerNames must be an object");
+    } else {
+      for (const [speakerId, name] of Object.entries(input.speakerNames)) {
+        // Brackets would break the [Name]: label on the glasses
+        const cleaned =
+          typeof name === "string" ? name.replace(/[[\]]/g, "").trim() : "";
+        if (!cleaned || cleaned.length > MAX_SPEAKER_NAME_LENGTH) {
+          errors.push(
+            `speakerNames.${speakerId} must be a name of at most ${MAX_SPEAKER_NAME_LENGTH} characters`,
+          );
+          continue;
+        }
+        speakerNames[speakerId] = cleaned;
+      }
+    }
+  }
+
+  const replacementRules: ReplacementRuleInput[] = [];
+  if (input.replacementRules !== undefined) {
+    if (
+      !Array.isArray(input.replacementRules) ||
+      input.replacementRules.length > MAX_REPLACEMENT_RULES
+    ) {
+      errors.push(
+        `replacementRules must be a list of at most ${MAX_REPLACEMENT_RULES} rules`,
+      );
+    } else {
+      input.replacementRules.forEach((rule: unknown, i) => {
+        const parsedRule = parseReplacementRule(rule);
+        if ("error" in parsedRule) {
+          errors.push(`replacementRules[${i}] ${parsedRule.error}`);
+          return;
+        }
+        replacementRules.push(parsedRule.rule);
+      });
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    document: {
+      format: SETTINGS_EXPORT_FORMAT,
+      version: input.version,
+      exportedAt:
+        typeof input.exportedAt === "string" ? input.exportedAt : "",
+      schemaVersion: SETTINGS_SCHEMA_VERSION,
+      settings,
+      profiles,
+      speakerNames,
+      replacementRules,
+    },
+  };
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Everything an import would overwrite with a different value: settings,
+ * profiles with the same name, speakers that already have another name and
+ * rules for the same find text that replace it differently
+ */
+export function findImportConflicts(
+  document: SettingsExport,
+  current: SettingsSnapshot,
+): ImportConflict[] {
+  const conflicts: ImportConflict[] = [];
+
+  for (const key of Object.keys(document.settings) as SettingKey[]) {
+    if (!same(document.settings[key], current.settings[key])) {
+      conflicts.push({
+        type: "setting",
+        key,
+        current: current.settings[key],
+        imported: document.settings[key],
+      });
+    }
+  }
+
+  for (const profile of document.profiles) {
+    const existing = current.profiles.find((p) => p.name === profile.name);
+    if (existing && !same(existing.settings, profile.settings)) {
+      conflicts.push({
+        type: "profile",
+        key: profile.name,
+        current: existing.settings,
+        imported: profile.settings,
+      });
+    }
+  }
+
+  for (const [speakerId, name] of Object.entries(document.speakerNames)) {
+    const existing = current.speakerNames[speakerId];
+    if (existing !== undefined && existing !== name) {
+      conflicts.push({
+        type: "speakerName",
+        key: speakerId,
+        current: existing,
+        imported: name,
+      });
+    }
+  }
+
+  for (const rule of document.replacementRules) {
+    const existing = current.replacementRules.find(
+      (r) => r.find === rule.find && r.regex === rule.regex,
+    );
+    if (
+      existing &&
+      (existing.replace !== rule.replace ||
+        existing.matchCase !== rule.matchCase ||
+        existing.wholeWord !== rule.wholeWord)
+    ) {
+      conflicts.push({
+        type: "replacementRule",
+        key: rule.find,
+        current: existing.replace,
+        imported: rule.replace,
+      });
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,101 @@
+import {describe, expect, test} from "bun:test"
+import {renderTranscripts, isExportFormat, type ExportableTranscript} from "./TranscriptExport"
+
+const ORIGIN = Date.UTC(2025, 0, 6, 15, 0, 0)
+
+const transcripts: ExportableTranscript[] = [
+  {speaker: "Speaker 1", text: "Hello everyone", startedAt: ORIGIN + 1000, endedAt: ORIGIN + 2500, receivedAt: ORIGIN + 2600},
+  {speaker: "Speaker 1", text: "Let's begin", startedAt: ORIGIN + 3000, endedAt: ORIGIN + 4000, receivedAt: ORIGIN + 4100},
+  {speaker: "Speaker 2", text: "Sounds <good>", startedAt: ORIGIN + 65000, endedAt: ORIGIN + 66250, receivedAt: ORIGIN + 66300},
+]
+
+describe("TranscriptExport", () => {
+  describe("format validation", () => {
+    test("should accept known formats", () => {
+      expect(isExportFormat("srt")).toBe(true)
+      expect(isExportFormat("md")).toBe(true)
+    })
+
+    test("should reject unknown formats", () => {
+      expect(isExportFormat("docx")).toBe(false)
+      expect(isExportFormat(undefined)).toBe(false)
+    })
+  })
+
+  describe("srt", () => {
+    test("should number cues and use comma milliseconds", () => {
+      const result = renderTranscripts(transcripts, "srt", {startedAt: ORIGIN})
+      expect(result.extension).toBe("srt")
+      expect(result.body).toContain("1\n00:00:01,000 --> 00:00:02,500\nSpeaker 1: Hello everyone")
+      expect(result.body).toContain("3\n00:01:05,000 --> 00:01:06,250\nSpeaker 2: Sounds <good>")
+    })
+  })
+
+  describe("vtt", () => {
+    test("should start with header and use voice tags", () => {
+      const result = renderTranscripts(transcripts, "vtt", {startedAt: ORIGIN})
+      expect(result.body.startsWith("WEBVTT\n\n")).toBe(true)
+      expect(result.body).toContain("00:00:03.000 --> 00:00:04.000\n<v Speaker 1>Let's begin")
+    })
+
+    test("should escape markup in cue text", () => {
+      const result = renderTranscripts(transcripts, "vtt", {startedAt: ORIGIN})
+      expect(result.body).toContain("<v Speaker 2>Sounds &lt;good&gt;")
+    })
+  })
+
+  describe("txt", () => {
+    test("should prefix each line with offset and speaker", () => {
+      const result = renderTranscripts(transcripts, "txt", {startedAt: ORIGIN})
+      expect(result.body.split("\n")[0]).toBe("[00:00:01] Speaker 1: Hello everyone")
+    })
+  })
+
+  describe("md", () => {
+    test("should group consecutive lines from the same speaker", () => {
+      const result = renderTranscripts(transcripts, "md", {title: "Standup", startedAt: ORIGIN})
+      expect(result.body).toContain("# Standup")
+      expect(result.body).toContain("**Speaker 1** · 00:00:01\n\nHello everyone Let's begin")
+      expect(result.body).toContain("**Speaker 2** · 00:01:05")
+    })
+  })
+
+  describe("json", () => {
+    test("should include ISO timestamps and offsets", () => {
+      const result = renderTranscripts(transcripts, "json", {startedAt: ORIGIN, language: "en"})
+      const parsed = JSON.parse(result.body)
+      expect(parsed.language).toBe("en")
+      expect(parsed.transcripts).toHaveLength(3)
+      expect(parsed.transcripts[0].startedAt).toBe(new Date(ORIGIN + 1000).toISOString())
+      expect(parsed.transcripts[2].startOffsetMs).toBe(65000)
+    })
+  })
+
+  describe("missing provider timing", () => {
+    test("should estimate start from received time without overlapping previous cue", () => {
+      const result = renderTranscripts(
+        [
+          {speaker: "Speaker 1", text: "First", startedAt: null, endedAt: null, receivedAt: ORIGIN + 2000},
+          {speaker: "Speaker 1", text: "Second", startedAt: null, endedAt: null, receivedAt: ORIGIN + 2500},
+        ],
+        "srt",
+        {startedAt: ORIGIN},
+      )
+      expect(result.body).toContain("00:00:01,000 --> 00:00:02,000")
+      expect(result.body).toContain("00:00:02,000 --> 00:00:02,500")
+    })
+
+    test("should default origin to the first cue", () => {
+      const result = renderTranscripts(transcripts, "txt")
+      expect(result.body.split("\n")[0]).toBe("[00:00:00] Speaker 1: Hello everyone")
+    })
+
+    test("should skip empty transcripts", () => {
+      const result = renderTranscripts(
+        [{speaker: "Speaker 1", text: "   ", startedAt: ORIGIN, endedAt: ORIGIN + 1000, receivedAt: ORIGIN + 1000}],
+        "srt",
+      )
+      expect(result.body).toBe("")
+    })
+  })
+})
@@ -0,0 +1,211 @@
+/**
+ * TranscriptExport
+ *
+ * Renders finalized transcripts as subtitle files (SRT, WebVTT) or documents
+ * (plain text, Markdown, JSON) with speaker labels and timestamps.
+ */
+
+export type ExportFormat = "srt" | "vtt" | "txt" | "md" | "json"
+
+export const EXPORT_FORMATS: ExportFormat[] = ["srt", "vtt", "txt", "md", "json"]
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && (EXPORT_FORMATS as string[]).includes(value)
+}
+
+/**
+ * Minimal transcript shape needed for export (matches both live and archived entries)
+ */
+export interface ExportableTranscript {
+  speaker: string
+  text: string
+  startedAt: number | null
+  endedAt: number | null
+  receivedAt: number
+}
+
+export interface ExportOptions {
+  /** Document title (Markdown heading, JSON title) */
+  title?: string
+  /** Epoch ms that cue offsets are measured from (defaults to the first cue) */
+  startedAt?: number
+  /** Language of the conversation, included in JSON output */
+  language?: string
+}
+
+export interface RenderedExport {
+  body: string
+  contentType: string
+  extension: ExportFormat
+}
+
+/**
+ * A transcript with resolved absolute start/end times.
+ */
+interface Cue {
+  speaker: string
+  text: string
+  start: number
+  end: number
+}
+
+const MIN_CUE_MS = 1000
+const MAX_ESTIMATED_CUE_MS = 7000
+const ESTIMATED_MS_PER_CHAR = 60
+
+/**
+ * Resolve start/end for every transcript. Entries without provider timing
+ * (older archives, providers that don't report it) get an estimate that ends
+ * when the final was received and never overlaps the previous cue.
+ */
+function toCues(transcripts: ExportableTranscript[]): Cue[] {
+  const cues: Cue[] = []
+  let previousEnd = -Infinity
+
+  for (const t of transcripts) {
+    const text = t.text.trim()
+    if (!text) continue
+
+    const end = t.endedAt ?? t.receivedAt
+    const estimatedDuration = Math.min(Math.max(text.length * ESTIMATED_MS_PER_CHAR, MIN_CUE_MS), MAX_ESTIMATED_CUE_MS)
+    const start = t.startedAt ?? Math.max(previousEnd, end - estimatedDuration)
+
+    cues.push({
+      speaker: t.speaker,
+      text,
+      start,
+      end: Math.max(end, start + MIN_CUE_MS / 2),
+    })
+    previousEnd = end
+  }
+
+  return cues
+}
+
+function pad(value: number, length = 2): string {
+  return value.toString().padStart(length, "0")
+}
+
+/**
+ * Format an offset in ms as HH:MM:SS with an optional millisecond part
+ */
+function formatOffset(ms: number, msSeparator: string | null): string {
+  const clamped = Math.max(0, Math.round(ms))
+  const hours = Math.floor(clamped / 3600000)
+  const minutes = Math.floor((clamped % 3600000) / 60000)
+  const seconds = Math.floor((clamped % 60000) / 1000)
+  const base = `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+  return msSeparator === null ? base : `${base}${msSeparator}${pad(clamped % 1000, 3)}`
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+function renderSrt(cues: Cue[], origin: number): string {
+  return cues
+    .map((cue, i) =>
+      [
+        `${i + 1}`,
+        `${formatOffset(cue.start - origin, ",")} --> ${formatOffset(cue.end - origin, ",")}`,
+        `${cue.speaker}: ${cue.text}`,
+      ].join("\n"),
+    )
+    .join("\n\n")
+    .concat(cues.length > 0 ? "\n" : "")
+}
+
+function renderVtt(cues: Cue[], origin: number): string {
+  const blocks = cues.map((cue) =>
+    [
+      `${formatOffset(cue.start - origin, ".")} --> ${formatOffset(cue.end - origin, ".")}`,
+      `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}`,
+    ].join("\n"),
+  )
+  return ["WEBVTT", ...blocks].join("\n\n") + "\n"
+}
+
+function renderText(cues: Cue[], origin: number): string {
+  return cues.map((cue) => `[${formatOffset(cue.start - origin, null)}] ${cue.speaker}: ${cue.text}`).join("\n") + "\n"
+}
+
+function renderMarkdown(cues: Cue[], origin: number, options: ExportOptions): string {
+  const lines: string[] = [`# ${options.title || "Captions"}`, ""]
+
+  if (cues.length > 0) {
+    const durationMs = cues[cues.length - 1].end - origin
+    lines.push(`_${new Date(origin).toISOString()} · ${formatOffset(durationMs, null)}_`, "")
+  }
+
+  // Group consecutive cues from the same speaker into one paragraph
+  let currentSpeaker: string | null = null
+  let paragraph: string[] = []
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      lines.push(paragraph.join(" "), "")
+      paragraph = []
+    }
+  }
+
+  for (const cue of cues) {
+    if (cue.speaker !== currentSpeaker) {
+      flush()
+      lines.push(`**${cue.speaker}** · ${formatOffset(cue.start - origin, null)}`, "")
+      currentSpeaker = cue.speaker
+    }
+    paragraph.push(cue.text)
+  }
+  flush()
+
+  return lines.join("\n")
+}
+
+function renderJson(cues: Cue[], origin: number, options: ExportOptions): string {
+  return JSON.stringify(
+    {
+      title: options.title || "Captions",
+      language: options.language ?? null,
+      startedAt: new Date(origin).toISOString(),
+      transcripts: cues.map((cue) => ({
+        speaker: cue.speaker,
+        text: cue.text,
+        startedAt: new Date(cue.start).toISOString(),
+        endedAt: new Date(cue.end).toISOString(),
+        startOffsetMs: Math.max(0, cue.start - origin),
+        endOffsetMs: Math.max(0, cue.end - origin),
+      })),
+    },
+    null,
+    2,
+  )
+}
+
+/**
+ * Render transcripts in the requested export format.
+ *
+ * @param transcripts - Final transcripts in chronological order
+ * @param format - Output format
+ * @param options - Title, language and time origin
+ */
+export function renderTranscripts(
+  transcripts: ExportableTranscript[],
+  format: ExportFormat,
+  options: ExportOptions = {},
+): RenderedExport {
+  const cues = toCues(transcripts)
+  const origin = options.startedAt ?? (cues.length > 0 ? Math.min(...cues.map((c) => c.start)) : Date.now())
+
+  switch (format) {
+    case "srt":
+      return {body: renderSrt(cues, origin), contentType: "application/x-subrip; charset=utf-8", extension: "srt"}
+    case "vtt":
+      return {body: renderVtt(cues, origin), contentType: "text/vtt; charset=utf-8", extension: "vtt"}
+    case "txt":
+      return {body: renderText(cues, origin), contentType: "text/plain; charset=utf-8", extension: "txt"}
+    case "md":
+      return {body: renderMarkdown(cues, origin, options), contentType: "text/markdown; charset=utf-8", extension: "md"}
+    case "json":
+      return {body: renderJson(cues, origin, options), contentType: "application/json; charset=utf-8", extension: "json"}
+  }
+}
@@ -0,0 +1,39 @@
+import {describe, expect, test} from "bun:test"
+import {findMatches, matchesAllTerms, parseSearchQuery} from "./TranscriptSearch"
+
+describe("TranscriptSearch", () => {
+  describe("parseSearchQuery", () => {
+    test("should split words and keep quoted phrases together", () => {
+      expect(parseSearchQuery('Deadline "next   Friday"')).toEqual(["deadline", "next friday"])
+    })
+
+    test("should drop empty and duplicate terms", () => {
+      expect(parseSearchQuery('budget "" BUDGET')).toEqual(["budget"])
+      expect(parseSearchQuery("   ")).toEqual([])
+    })
+  })
+
+  describe("matchesAllTerms", () => {
+    test("should require every term", () => {
+      expect(matchesAllTerms("The deadline is next Friday", ["deadline", "next friday"])).toBe(true)
+      expect(matchesAllTerms("The deadline is Monday", ["deadline", "next friday"])).toBe(false)
+    })
+
+    test("should not match an empty query", () => {
+      expect(matchesAllTerms("anything", [])).toBe(false)
+    })
+  })
+
+  describe("findMatches", () => {
+    test("should return every occurrence in order", () => {
+      expect(findMatches("Deadline moved, new deadline Friday", ["deadline"])).toEqual([
+        {start: 0, end: 8},
+        {start: 20, end: 28},
+      ])
+    })
+
+    test("should merge overlapping terms", () => {
+      expect(findMatches("next friday", ["next friday", "friday"])).toEqual([{start: 0, end: 11}])
+    })
+  })
+})
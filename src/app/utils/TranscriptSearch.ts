@@ -0,0 +1,76 @@
+/**
+ * TranscriptSearch
+ *
+ * Query parsing and matching for transcript full-text search.
+ * A query is a list of words and "quoted phrases"; a transcript matches when
+ * every term appears in its text (case-insensitive).
+ */
+
+export interface SearchMatch {
+  /** Start offset (inclusive) in the original text */
+  start: number
+  /** End offset (exclusive) in the original text */
+  end: number
+}
+
+/**
+ * Split a query into lowercase terms. Quoted phrases stay together.
+ *
+ * @example parseSearchQuery('deadline "next friday"') // ["deadline", "next friday"]
+ */
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = []
+  const pattern = /"([^"]*)"|(\S+)/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(query)) !== null) {
+    const term = (match[1] ?? match[2]).trim().replace(/\s+/g, " ").toLocaleLowerCase()
+    if (term && !terms.includes(term)) {
+      terms.push(term)
+    }
+  }
+
+  return terms
+}
+
+/**
+ * Find every occurrence of every term in the text, merged and sorted.
+ */
+export function findMatches(text: string, terms: string[]): SearchMatch[] {
+  const haystack = text.toLocaleLowerCase()
+  const ranges: SearchMatch[] = []
+
+  for (const term of terms) {
+    let from = 0
+    while (term && from <= haystack.length) {
+      const index = haystack.indexOf(term, from)
+      if (index < 0) break
+      ranges.push({start: index, end: index + term.length})
+      from = index + term.length
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start)
+
+  // Merge overlapping ranges so highlights don't nest
+  const merged: SearchMatch[] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({...range})
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Whether the text contains every term.
+ */
+export function matchesAllTerms(text: string, terms: string[]): boolean {
+  if (terms.length === 0) return false
+  const haystack = text.toLocaleLowerCase()
+  return terms.every((term) => haystack.includes(term))
+}
@@ -0,0 +1,106 @@
+import {beforeAll, describe, expect, test} from "bun:test"
+import {getTransliterator, listTransliterators, transliterate} from "../transliteration"
+import {loadJapaneseDictionary} from "../transliteration/japanese"
+import {pinyinToZhuyin} from "./ChineseUtils"
+
+const scheme = (id: string) => getTransliterator(id)!.transliterate
+
+describe("Transliteration", () => {
+  describe("transliterate", () => {
+    test("should use the transliterator selected for the language", () => {
+      expect(transliterate("你好", "zh", ["zh-pinyin"])).toBe("nǐhǎo")
+      expect(transliterate("你好", "zh", ["ja-romaji", "zh-zhuyin"])).toBe("ㄋㄧˇㄏㄠˇ")
+    })
+
+    test("should return null when nothing applies", () => {
+      expect(transliterate("你好", "zh", [])).toBeNull()
+      expect(transliterate("你好", "ja", ["zh-pinyin"])).toBeNull()
+      expect(transliterate("你好", null, ["zh-pinyin"])).toBeNull()
+      expect(transliterate("Hello", "zh", ["zh-pinyin"])).toBeNull()
+    })
+
+    test("should have unique ids", () => {
+      const ids = listTransliterators().map((t) => t.id)
+      expect(new Set(ids).size).toBe(ids.length)
+    })
+  })
+
+  describe("Zhuyin", () => {
+    test("should convert Pinyin syllables", () => {
+      expect(["zhi1", "yue4", "you3", "wei4", "lv4", "jun1", "gui4", "liu2", "de0"].map(pinyinToZhuyin)).toEqual([
+        "ㄓ",
+        "ㄩㄝˋ",
+        "ㄧㄡˇ",
+        "ㄨㄟˋ",
+        "ㄌㄩˋ",
+        "ㄐㄩㄣ",
+        "ㄍㄨㄟˋ",
+        "ㄌㄧㄡˊ",
+        "˙ㄉㄜ",
+      ])
+    })
+
+    test("should keep words together and other text as it is", () => {
+      expect(scheme("zh-zhuyin")("我是学生, OK")).toBe("ㄨㄛˇ ㄕˋ ㄒㄩㄝˊㄕㄥ, OK")
+    })
+  })
+
+  describe("Romaji", () => {
+    beforeAll(() => loadJapaneseDictionary())
+
+    test("should write kana in Hepburn", () => {
+      const romaji = scheme("ja-romaji")
+      expect(romaji("ありがとう")).toBe("arigatou")
+      expect(romaji("ちょっと")).toBe("chotto")
+      expect(romaji("まっちゃ")).toBe("matcha")
+      expect(romaji("こんや")).toBe("kon'ya")
+      expect(romaji("コーヒー")).toBe("kōhī")
+      expect(romaji("パーティー")).toBe("pātī")
+    })
+
+    test("should read kanji and separate words", () => {
+      const romaji = scheme("ja-romaji")
+      expect(romaji("東京に行きます。")).toBe("toukyou ni ikimasu.")
+      expect(romaji("私は学生です")).toBe("watashi wa gakusei desu")
+      expect(romaji("日本へ行きたい")).toBe("nippon e ikitai")
+      expect(romaji("「本当？」と言った")).toBe('"hontou?" to itta')
+    })
+
+    test("should keep verb endings with the verb and other scripts as they are", () => {
+      const romaji = scheme("ja-romaji")
+      expect(romaji("食べている")).toBe("tabete iru")
+      expect(romaji("今日はiPhoneを買いました")).toBe("kyou wa iPhone o kaimashita")
+    })
+  })
+
+  describe("Hiragana reading", () => {
+    beforeAll(() => loadJapaneseDictionary())
+
+    test("should read kanji and keep kana as written", () => {
+      const kana = scheme("ja-kana")
+      expect(kana("東京に行きます。")).toBe("とうきょうにいきます。")
+      expect(kana("コーヒーを飲む")).toBe("コーヒーをのむ")
+      expect(transliterate("ありがとう", "ja", ["ja-kana"])).toBeNull()
+    })
+  })
+
+  describe("Revised Romanization", () => {
+    test("should apply the common sound changes", () => {
+      const romanize = scheme("ko-rr")
+      expect(romanize("안녕하세요")).toBe("annyeonghaseyo")
+      expect(romanize("한국어")).toBe("hangugeo")
+      expect(romanize("감사합니다")).toBe("gamsahamnida")
+      expect(romanize("종로 신라")).toBe("jongno silla")
+      expect(romanize("좋다")).toBe("jota")
+    })
+  })
+
+  describe("Cyrillic", () => {
+    test("should use the language's romanization and keep capitals", () => {
+      expect(scheme("ru-latin")("Щука, ЩИ и ёж")).toBe("Shchuka, SHCHI i yozh")
+      expect(scheme("uk-latin")("Київ")).toBe("Kyyiv")
+      expect(scheme("bg-latin")("България")).toBe("Balgariya")
+      expect(scheme("sr-latin")("Љубав")).toBe("Ljubav")
+    })
+  })
+})
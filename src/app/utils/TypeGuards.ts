@@ -0,0 +1,6 @@
+/**
+ * A plain object (not null or an array), such as a parsed JSON request body
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
@@ -0,0 +1,29 @@
+/**
+ * WordMatching
+ *
+ * Regular expression pieces shared by replacement rules, the profanity filter
+ * and keyword alerts, so "whole word" means the same thing in all three.
+ */
+
+// Chinese, Japanese and Korean don't put spaces between words (Korean
+// attaches particles), so their characters never make a word longer
+const CJK_CHAR = "[\\p{scx=Han}\\p{scx=Hiragana}\\p{scx=Katakana}\\p{scx=Hangul}]"
+// Letters, digits and marks in any other script count as word characters
+const WORD_CHAR = `(?!${CJK_CHAR})[\\p{L}\\p{M}\\p{N}_]`
+const WORD_BOUNDARY_BEFORE = `(?<!${WORD_CHAR})`
+const WORD_BOUNDARY_AFTER = `(?!${WORD_CHAR})`
+
+/**
+ * Escape text so it matches literally inside a regular expression
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Pattern that only matches where `pattern` isn't part of a longer word.
+ * Needs the regular expression's u flag.
+ */
+export function wholeWord(pattern: string): string {
+  return `${WORD_BOUNDARY_BEFORE}(?:${pattern})${WORD_BOUNDARY_AFTER}`
+}
@@ -0,0 +1,56 @@
+/**
+ * Expected line breaks for CJK captions, measured with the G1 profile.
+ * Each line must end on a word boundary, never start with closing
+ * punctuation or small kana, and never end with an opening bracket.
+ */
+export interface CjkLineBreakingFixture {
+  name: string
+  text: string
+  widthPx: number
+  lines: string[]
+}
+
+export const CJK_LINE_BREAKING_FIXTURES: CjkLineBreakingFixture[] = [
+  {
+    name: "Chinese breaks between jieba words",
+    text: "我们明天下午三点在图书馆门口见面，不要迟到。",
+    widthPx: 180,
+    lines: ["我们明天下午三点在", "图书馆门口见面，不要", "迟到。"],
+  },
+  {
+    name: "Chinese keeps quotes and commas with their words",
+    text: "他说：“这个问题很复杂，需要仔细研究。”",
+    widthPx: 180,
+    lines: ["他说：“这个问题很", "复杂，需要仔细", "研究。”"],
+  },
+  {
+    name: "Chinese mixed with Latin words and a speaker label",
+    text: "[2]: 我今天用iPhone拍了很多照片",
+    widthPx: 180,
+    lines: ["[2]: 我今天用iPhone拍", "了很多照片"],
+  },
+  {
+    name: "Japanese keeps okurigana and particles with their kanji",
+    text: "会議は来週の月曜日に延期されました。詳しくはメールをご確認ください。",
+    widthPx: 180,
+    lines: ["会議は来週の月曜日に", "延期されました。", "詳しくはメールをご", "確認ください。"],
+  },
+  {
+    name: "Japanese brackets stay with the quoted text",
+    text: "「ちょっと待って！」と彼女は言った。",
+    widthPx: 150,
+    lines: ["「ちょっと", "待って！」と", "彼女は言った。"],
+  },
+  {
+    name: "Japanese katakana words too long for a line are split without hyphens",
+    text: "コンピューターのソフトウェアをアップデートしています",
+    widthPx: 150,
+    lines: ["コンピューターの", "ソフトウェアを", "アップデートして", "います"],
+  },
+  {
+    name: "Korean breaks between words",
+    text: "회의는 다음 주 월요일로 연기되었습니다. 자세한 내용은 이메일을 확인해 주세요.",
+    widthPx: 180,
+    lines: ["회의는 다음 주", "월요일로", "연기되었습니다.", "자세한 내용은", "이메일을 확인해", "주세요."],
+  },
+]
@@ -377,3 +377,37 @@ export function languageToLocale(localeString: string): string {
       return "en-US"
   }
 }
+
+const LOCALE_PATTERN = /^[a-z]{2,3}-[A-Z]{2}$/
+
+/**
+ * Resolve a language setting to a transcription locale
+ *
+ * The webview stores language codes ("fr"), older settings store language
+ * names ("French"), and a full locale ("fr-CA") is passed through as is.
+ * Codes get their most likely region ("fr" -> "fr-FR", "pt" -> "pt-BR").
+ */
+export function resolveLocale(language: string): string {
+  if (LOCALE_PATTERN.test(language)) return language
+
+  if (/^[a-z]{2,3}$/.test(language)) {
+    try {
+      const {language: code, region} = new Intl.Locale(language).maximize()
+      const locale = `${code}-${region}`
+      if (LOCALE_PATTERN.test(locale)) return locale
+    } catch {
+      // Fall through to the name lookup
+    }
+  }
+
+  return languageToLocale(language)
+}
+
+/**
+ * Base codes of every language declared for a conversation (the primary
+ * language plus hints), e.g. ("English", ["es"]) -> ["en", "es"]
+ */
+export function conversationLanguages(language: string, hints: string[]): string[] {
+  const declared = language === "auto" ? hints : [language, ...hints]
+  return [...new Set(declared.map((l) => resolveLocale(l).split("-")[0]))]
+}
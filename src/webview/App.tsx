@@ -1,27 +1,40 @@
 import { useState } from "react";
 
-import { BottomNav } from "./components/BottomNav";
+import { type AppTab, BottomNav } from "./components/BottomNav";
+import { ExportMenu } from "./components/ExportMenu";
 import { Header } from "./components/Header";
+import { History, type HistoryJump } from "./components/History";
 import { LanguageSelector } from "./components/LanguageSelector";
+import { SearchBar } from "./components/SearchBar";
+import { SpeakerNameDialog } from "./components/SpeakerNameDialog";
 import { Settings } from "./components/Settings";
 import { TranscriptList } from "./components/TranscriptList";
+import { type SearchResult } from "./hooks/useSearch";
 import { useSettings } from "./hooks/useSettings";
-import { useTranscripts } from "./hooks/useTranscripts";
+import { DEFAULT_SPEAKER_ID, type Transcript, useTranscripts } from "./hooks/useTranscripts";
 import "./index.css";
 
 export function App() {
-  const [activeTab, setActiveTab] = useState<"captions" | "settings">(
-    "captions",
-  );
+  const [activeTab, setActiveTab] = useState<AppTab>("captions");
   const [showLanguageSelector, setShowLanguageSelector] = useState(false);
+  const [highlightTerms, setHighlightTerms] = useState<string[]>([]);
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [historyJump, setHistoryJump] = useState<HistoryJump | null>(null);
+  const [renamingSpeaker, setRenamingSpeaker] = useState<Transcript | null>(null);
   const {
     settings,
     loading: settingsLoading,
+    updateSettings,
     updateLanguage,
     updateHints,
     updateDisplayLines,
     updateDisplayWidth,
     updateWordBreaking,
+    updateLayoutMode,
+    updateClearTimeout,
+    updateFinalHold,
+    updateFadeAfterSilence,
+    updateTranslationLanguage,
   } = useSettings();
   const {
     transcripts,
@@ -34,12 +47,43 @@ export function App() {
     displayPreview,
   } = useTranscripts();
 
-  const handleSaveLanguage = async (language: string, hints: string[]) => {
-    await updateLanguage(language);
-    await updateHints(hints);
+  // Language of the most recent utterance the server identified (auto mode)
+  const detectedLanguage =
+    transcripts.findLast((t) => t.detectedLanguage)?.detectedLanguage ?? null;
+
+  const handleSaveLanguage = async (
+    language: string,
+    hints: string[],
+    multilingual: boolean,
+  ) => {
+    // One update so the transcription is only re-subscribed once
+    await updateSettings({ language, languageHints: hints, multilingual });
     setShowLanguageSelector(false);
   };
 
+  // Live hits scroll the captions list; archived hits open the conversation in History
+  const handleSearchSelect = (result: SearchResult, terms: string[]) => {
+    if (result.source === "live") {
+      setHighlightTerms(terms);
+      setFocusId(result.transcript.id);
+      return;
+    }
+    if (result.sessionId) {
+      setHistoryJump({ sessionId: result.sessionId, transcriptId: result.transcript.id, terms });
+      setActiveTab("history");
+    }
+  };
+
+  const handleSearchClear = () => {
+    setHighlightTerms([]);
+    setFocusId(null);
+  };
+
+  const handleTabChange = (tab: AppTab) => {
+    setHistoryJump(null);
+    setActiveTab(tab);
+  };
+
   return (
     <div className="w-screen h-screen bg-zinc-100 flex flex-col overflow-hidden font-sans">
       {/* Header */}
@@ -49,6 +93,7 @@ export function App() {
           connected={connected}
           error={error}
           settings={settings}
+          detectedLanguage={detectedLanguage}
           onUpdateLanguage={updateLanguage}
           onUpdateHints={updateHints}
           onToggleLanguageSelector={() => setShowLanguageSelector(true)}
@@ -63,9 +108,12 @@ export function App() {
           <LanguageSelector
             currentLanguage={settings.language}
             currentHints={settings.languageHints}
+            currentMultilingual={settings.multilingual}
             onSave={handleSaveLanguage}
             onCancel={() => setShowLanguageSelector(false)}
           />
+        ) : activeTab === "history" ? (
+          <History jumpTo={historyJump} />
         ) : activeTab === "settings" ? (
           <Settings
             settings={settings}
@@ -73,20 +121,48 @@ export function App() {
             onUpdateDisplayLines={updateDisplayLines}
             onUpdateDisplayWidth={updateDisplayWidth}
             onUpdateWordBreaking={updateWordBreaking}
+            onUpdateLayoutMode={updateLayoutMode}
+            onUpdateClearTimeout={updateClearTimeout}
+            onUpdateFinalHold={updateFinalHold}
+            onUpdateFadeAfterSilence={updateFadeAfterSilence}
+            onUpdateTranslationLanguage={updateTranslationLanguage}
+            onUpdateSettings={updateSettings}
           />
         ) : (
-          <TranscriptList
-            transcripts={transcripts}
-            isRecording={isRecording}
-            onToggleRecording={toggleRecording}
-            onClearTranscripts={clearTranscripts}
-          />
+          <div className="h-full flex flex-col">
+            <div className="px-4 pt-3 flex items-start gap-2 shrink-0 z-10">
+              <SearchBar
+                className="flex-1"
+                onSelect={handleSearchSelect}
+                onClear={handleSearchClear}
+              />
+              {transcripts.some((t) => t.isFinal) && <ExportMenu />}
+            </div>
+            <div className="flex-1 min-h-0">
+              <TranscriptList
+                transcripts={transcripts}
+                isRecording={isRecording}
+                onToggleRecording={toggleRecording}
+                onClearTranscripts={clearTranscripts}
+                highlightTerms={highlightTerms}
+                focusId={focusId}
+                transliterationMode={settings?.webviewTransliteration}
+                onRenameSpeaker={setRenamingSpeaker}
+              />
+            </div>
+            {/* Live renames come back over SSE as speakers_update */}
+            <SpeakerNameDialog
+              speakerId={renamingSpeaker ? (renamingSpeaker.speakerId ?? DEFAULT_SPEAKER_ID) : null}
+              currentLabel={renamingSpeaker?.speaker ?? ""}
+              onClose={() => setRenamingSpeaker(null)}
+            />
+          </div>
         )}
       </div>
 
       {/* Bottom Navigation */}
       {!showLanguageSelector && (
-        <BottomNav activeTab={activeTab} onTabChange={setActiveTab} />
+        <BottomNav activeTab={activeTab} onTabChange={handleTabChange} />
       )}
     </div>
   );
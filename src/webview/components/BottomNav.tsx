@@ -1,12 +1,16 @@
 // import LineScanIcon from "../assets/icons/line-scan.svg"
+import { History as HistoryIcon } from "lucide-react"
+
 import CaptionsDarkIcon from "../assets/icons/captions-dark.svg"
 import CaptionsIcon from "../assets/icons/captions.svg"
 import SettingsIcon from "../assets/icons/settings.svg"
 import SettingsWhiteIcon from "../assets/icons/settings-white.svg"
 
+export type AppTab = "captions" | "history" | "settings"
+
 interface BottomNavProps {
-  activeTab?: "captions" | "settings"
-  onTabChange?: (tab: "captions" | "settings") => void
+  activeTab?: AppTab
+  onTabChange?: (tab: AppTab) => void
 }
 
 export function BottomNav({ activeTab = "captions", onTabChange }: BottomNavProps) {
@@ -29,6 +33,17 @@ export function BottomNav({ activeTab = "captions", onTabChange }: BottomNavProp
             </button>
           </div>
 
+          {/* History tab */}
+          <div className="flex-1 inline-flex flex-col justify-start items-center gap-1">
+            <button
+              onClick={() => onTabChange?.("history")}
+              className="w-12 h-7 p-2 rounded-3xl inline-flex justify-center items-center gap-2 transition-colors"
+              style={activeTab === "history" ? { backgroundColor: "#6DAEA6" } : { backgroundColor: "transparent" }}
+              aria-label="History">
+              <HistoryIcon className={`w-6 h-6 ${activeTab === "history" ? "text-white" : "text-gray-900 opacity-60"}`} />
+            </button>
+          </div>
+
           {/* Settings tab */}
           <div className="flex-1 inline-flex flex-col justify-start items-center gap-1">
             <button
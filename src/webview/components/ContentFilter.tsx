@@ -0,0 +1,90 @@
+import { TermList } from "./TermList"
+import type { CaptionSettings, MaskStyle, SettingsPatch } from "../hooks/useSettings"
+
+interface ContentFilterProps {
+  settings: CaptionSettings
+  onUpdateSettings: (patch: SettingsPatch) => Promise<boolean>
+}
+
+const MASK_STYLE_OPTIONS: { value: MaskStyle; label: string }[] = [
+  { value: "asterisks", label: "****" },
+  { value: "firstLetter", label: "f***" },
+]
+
+/**
+ * Profanity masking, with the user's own words to always or never mask
+ */
+export function ContentFilter({ settings, onUpdateSettings }: ContentFilterProps) {
+  const enabled = settings.profanityFilter
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">Content Filter</h2>
+
+      <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-6">
+        <div className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+          <div className="flex-1 pr-4">
+            <p className="text-sm font-medium text-gray-900 font-['Red_Hat_Display']">Mask profanity</p>
+            <p className="text-sm text-gray-700 font-['Red_Hat_Display']">
+              Hides swear words on the glasses, in the transcript and in exports
+            </p>
+          </div>
+          <button
+            onClick={() => onUpdateSettings({ profanityFilter: !enabled })}
+            className={`relative inline-flex h-7 w-12 items-center rounded-full transition-colors ${
+              enabled ? "" : "bg-gray-300"
+            }`}
+            style={enabled ? { backgroundColor: "#6DAEA6" } : {}}
+            role="switch"
+            aria-checked={enabled}>
+            <span
+              className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-sm transition-transform ${
+                enabled ? "translate-x-6" : "translate-x-1"
+              }`}
+            />
+          </button>
+        </div>
+
+        {enabled && (
+          <>
+            <div className="space-y-3">
+              <span className="text-base font-medium text-gray-900 font-['Red_Hat_Display']">Mask style</span>
+              <div className="grid grid-cols-2 gap-2">
+                {MASK_STYLE_OPTIONS.map((option) => {
+                  const active = settings.profanityMaskStyle === option.value
+                  return (
+                    <button
+                      key={option.value}
+                      onClick={() => onUpdateSettings({ profanityMaskStyle: option.value })}
+                      className={`py-3 rounded-xl text-sm font-medium font-['Red_Hat_Display'] transition-colors ${
+                        active ? "text-white shadow-sm" : "bg-gray-50 text-gray-900 hover:bg-gray-100"
+                      }`}
+                      style={active ? { backgroundColor: "#6DAEA6" } : {}}>
+                      {option.label}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+
+            <TermList
+              title="Always mask"
+              description="Extra words or phrases, in any language. End a word with * to match any ending."
+              terms={settings.profanityDenyList}
+              placeholder="Add a word…"
+              onChange={(profanityDenyList) => onUpdateSettings({ profanityDenyList })}
+            />
+
+            <TermList
+              title="Never mask"
+              description="Words the built-in lists would otherwise hide"
+              terms={settings.profanityAllowList}
+              placeholder="Add a word…"
+              onChange={(profanityAllowList) => onUpdateSettings({ profanityAllowList })}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
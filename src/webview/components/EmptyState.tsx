@@ -22,7 +22,7 @@ export function EmptyState({className = ""}: EmptyStateProps) {
             speech.
           </h2>
           <p className="text-gray-600 text-lg sm:text-xl font-normal font-['Red_Hat_Display'] leading-relaxed">
-            Captions appear here as people speak. They&apos;re transient and won&apos;t be saved afterwards.
+            Captions appear here as people speak. Past conversations are saved in History.
           </p>
         </div>
       </div>
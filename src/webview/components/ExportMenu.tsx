@@ -0,0 +1,106 @@
+import { Download, Share2 } from "lucide-react"
+import { useState } from "react"
+
+const FORMATS = [
+  { value: "srt", label: "SubRip subtitles (.srt)" },
+  { value: "vtt", label: "WebVTT subtitles (.vtt)" },
+  { value: "txt", label: "Plain text (.txt)" },
+  { value: "md", label: "Markdown (.md)" },
+  { value: "json", label: "JSON (.json)" },
+]
+
+interface ExportMenuProps {
+  /** Archived conversation to export; omit for the live session */
+  sessionId?: string
+  className?: string
+}
+
+async function fetchExport(format: string, sessionId?: string): Promise<File | null> {
+  const params = new URLSearchParams({ format })
+  if (sessionId) params.set("sessionId", sessionId)
+
+  const response = await fetch(`/api/transcripts/export?${params.toString()}`)
+  if (!response.ok) {
+    console.error("[ExportMenu] Export failed:", response.status)
+    return null
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || ""
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `captions.${format}`
+  const blob = await response.blob()
+  return new File([blob], filename, { type: blob.type })
+}
+
+export function downloadFile(file: File) {
+  const url = URL.createObjectURL(file)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = file.name
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+export function ExportMenu({ sessionId, className = "" }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const canShare = typeof navigator !== "undefined" && typeof navigator.share === "function"
+
+  const handleExport = async (format: string, share: boolean) => {
+    setBusy(true)
+    try {
+      const file = await fetchExport(format, sessionId)
+      if (!file) return
+
+      if (share && navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: file.name })
+      } else {
+        downloadFile(file)
+      }
+      setOpen(false)
+    } catch (err) {
+      // Share sheet dismissed or download blocked
+      console.error("[ExportMenu] Export failed:", err)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="w-9 h-9 bg-white rounded-full shadow-sm flex items-center justify-center hover:bg-gray-50 transition-colors"
+        aria-label="Export transcript">
+        <Download className="w-5 h-5 text-gray-700" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-11 w-64 bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden z-20">
+          {FORMATS.map((format) => (
+            <div
+              key={format.value}
+              className="flex items-center border-b border-gray-100 last:border-0">
+              <button
+                onClick={() => handleExport(format.value, false)}
+                disabled={busy}
+                className="flex-1 px-4 py-3 text-left text-sm text-gray-900 font-['Red_Hat_Display'] hover:bg-gray-50 transition-colors disabled:opacity-50">
+                {format.label}
+              </button>
+              {canShare && (
+                <button
+                  onClick={() => handleExport(format.value, true)}
+                  disabled={busy}
+                  className="px-3 py-3 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  aria-label={`Share ${format.label}`}>
+                  <Share2 className="w-4 h-4 text-[#6DAEA6]" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
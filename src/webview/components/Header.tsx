@@ -6,6 +6,8 @@ interface HeaderProps {
   connected: boolean
   error: string | null
   settings: CaptionSettings | null
+  // Language of the latest utterance in auto mode (e.g. "es")
+  detectedLanguage?: string | null
   onUpdateLanguage: (lang: string) => Promise<boolean>
   onUpdateHints: (hints: string[]) => Promise<boolean>
   onUpdateDisplayLines?: (lines: number) => Promise<boolean>
@@ -19,6 +21,7 @@ export function Header({
   connected,
   error,
   settings,
+  detectedLanguage,
   onToggleLanguageSelector,
   onReconnect,
   isLanguageSelectorOpen = false,
@@ -80,10 +83,18 @@ export function Header({
                   {/* Primary language chip */}
                   <div className="flex items-center gap-2 px-3 py-1.5 bg-[#6DAEA6] rounded-full flex-shrink-0">
                     <span className="text-base">
-                      {settings.language === "auto" ? "🏳️" : getFlagEmoji(settings.language)}
+                      {settings.language !== "auto"
+                        ? getFlagEmoji(settings.language)
+                        : detectedLanguage
+                          ? getFlagEmoji(detectedLanguage.split("-")[0])
+                          : "🏳️"}
                     </span>
                     <span className="text-sm font-semibold text-white font-['Red_Hat_Display']">
-                      {settings.language === "auto" ? "Auto" : getLanguageName(settings.language)}
+                      {settings.language !== "auto"
+                        ? getLanguageName(settings.language)
+                        : detectedLanguage
+                          ? `Auto · ${getLanguageName(detectedLanguage.split("-")[0])}`
+                          : "Auto"}
                     </span>
                   </div>
 
@@ -99,6 +110,24 @@ export function Header({
                         </span>
                       </div>
                     ))}
+
+                  {/* Conversation mode: every declared language, shown in the primary one */}
+                  {settings.multilingual && (
+                    <span
+                      className="px-3 py-1.5 border border-[#6DAEA6] rounded-full text-sm font-semibold text-[#6DAEA6] font-['Red_Hat_Display'] flex-shrink-0"
+                      title="Conversation mode">
+                      Conversation
+                    </span>
+                  )}
+
+                  {/* Locale the transcription is actually running with */}
+                  {settings.activeLocale && (
+                    <span
+                      className="text-xs text-gray-500 font-['Red_Hat_Display'] flex-shrink-0"
+                      title="Active transcription locale">
+                      {settings.activeLocale}
+                    </span>
+                  )}
                   <div className="px-0"></div>
                 </div>
 
@@ -0,0 +1,201 @@
+import { ArrowLeft, ChevronRight, Clock, Users } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { ConversationSummary, useHistory } from "../hooks/useHistory"
+import { DEFAULT_SPEAKER_ID, Transcript } from "../hooks/useTranscripts"
+import { getFlagEmoji, getLanguageName } from "../lib/languages"
+
+import { ExportMenu } from "./ExportMenu"
+import { SpeakerNameDialog } from "./SpeakerNameDialog"
+import { TranscriptList } from "./TranscriptList"
+
+function formatDate(epochMs: number): string {
+  return new Date(epochMs).toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000)
+  if (totalMinutes < 1) return "< 1 min"
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min`
+}
+
+export interface HistoryJump {
+  sessionId: string
+  transcriptId: string
+  terms: string[]
+}
+
+interface HistoryProps {
+  /** Open a conversation and scroll to one of its transcripts (from search) */
+  jumpTo?: HistoryJump | null
+}
+
+export function History({ jumpTo }: HistoryProps) {
+  const { sessions, loading, error, refetch, fetchSession } = useHistory()
+  const [selected, setSelected] = useState<ConversationSummary | null>(null)
+  const [transcripts, setTranscripts] = useState<Transcript[]>([])
+  const [loadingTranscripts, setLoadingTranscripts] = useState(false)
+  const [focus, setFocus] = useState<HistoryJump | null>(null)
+  const [renamingSpeaker, setRenamingSpeaker] = useState<Transcript | null>(null)
+
+  const handleSpeakerRenamed = (speakerId: string, label: string) => {
+    setTranscripts((prev) =>
+      prev.map((t) => ((t.speakerId ?? DEFAULT_SPEAKER_ID) === speakerId ? { ...t, speaker: label } : t)),
+    )
+  }
+
+  const openSession = async (session: ConversationSummary) => {
+    setSelected(session)
+    setFocus(null)
+    setTranscripts([])
+    setLoadingTranscripts(true)
+    const result = await fetchSession(session.id)
+    setTranscripts(result?.transcripts || [])
+    setLoadingTranscripts(false)
+  }
+
+  const closeSession = () => {
+    setSelected(null)
+    setFocus(null)
+    setTranscripts([])
+    refetch()
+  }
+
+  useEffect(() => {
+    if (!jumpTo) return
+
+    let cancelled = false
+    setFocus(null)
+    setTranscripts([])
+    setLoadingTranscripts(true)
+
+    fetchSession(jumpTo.sessionId).then((result) => {
+      if (cancelled) return
+      if (result) {
+        setSelected(result.session)
+        setTranscripts(result.transcripts)
+        setFocus(jumpTo)
+      }
+      setLoadingTranscripts(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [jumpTo, fetchSession])
+
+  if (selected) {
+    return (
+      <div className="h-full flex flex-col">
+        <div className="px-4 pt-4 pb-2 flex items-center gap-3 shrink-0">
+          <button
+            onClick={closeSession}
+            className="w-9 h-9 bg-white rounded-full shadow-sm flex items-center justify-center hover:bg-gray-50 transition-colors">
+            <ArrowLeft className="w-5 h-5 text-gray-700" />
+          </button>
+          <div className="flex flex-col min-w-0">
+            <span className="text-base font-semibold text-gray-900 font-['Red_Hat_Display'] truncate">
+              {formatDate(selected.startedAt)}
+            </span>
+            <span className="text-xs text-gray-500 font-['Red_Hat_Display']">
+              {formatDuration(selected.endedAt - selected.startedAt)} · {selected.transcriptCount} captions
+            </span>
+          </div>
+          <ExportMenu sessionId={selected.id} className="ml-auto" />
+        </div>
+
+        <div className="flex-1 min-h-0">
+          {loadingTranscripts ? (
+            <div className="flex items-center justify-center h-full">
+              <p className="text-gray-500">Loading conversation...</p>
+            </div>
+          ) : (
+            <TranscriptList
+              transcripts={transcripts}
+              highlightTerms={focus?.terms}
+              focusId={focus?.transcriptId}
+              onRenameSpeaker={setRenamingSpeaker}
+            />
+          )}
+        </div>
+
+        <SpeakerNameDialog
+          speakerId={renamingSpeaker ? (renamingSpeaker.speakerId ?? DEFAULT_SPEAKER_ID) : null}
+          currentLabel={renamingSpeaker?.speaker ?? ""}
+          sessionId={selected.id}
+          onClose={() => setRenamingSpeaker(null)}
+          onRenamed={handleSpeakerRenamed}
+        />
+      </div>
+    )
+  }
+
+  if (loading && sessions.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading history...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full overflow-y-auto px-4 py-6 space-y-3 bg-zinc-100">
+      <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">Past conversations</h2>
+
+      {error && <p className="text-sm text-amber-700 font-['Red_Hat_Display']">{error}</p>}
+
+      {!error && sessions.length === 0 && (
+        <div className="p-4 bg-white rounded-2xl shadow-sm border border-gray-100">
+          <p className="text-gray-400 text-sm font-['Red_Hat_Display'] italic">
+            Conversations will appear here once captions have been recorded.
+          </p>
+        </div>
+      )}
+
+      {sessions.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          {sessions.map((session) => (
+            <button
+              key={session.id}
+              onClick={() => openSession(session)}
+              className="w-full px-4 py-3 flex items-center gap-3 hover:bg-gray-50 transition-colors border-b border-gray-100 last:border-0 text-left">
+              <span className="text-2xl">{session.language === "auto" ? "🏳️" : getFlagEmoji(session.language)}</span>
+              <div className="flex-1 min-w-0 flex flex-col gap-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-bold text-gray-900 font-['Red_Hat_Display'] truncate">
+                    {formatDate(session.startedAt)}
+                  </span>
+                  {session.active && (
+                    <span className="px-2 py-0.5 rounded-full bg-[#6DAEA6] text-white text-[10px] font-semibold">
+                      LIVE
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 text-xs text-gray-500 font-['Red_Hat_Display']">
+                  <span className="flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {formatDuration(session.endedAt - session.startedAt)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Users className="w-3 h-3" />
+                    {session.speakers.length} {session.speakers.length === 1 ? "speaker" : "speakers"}
+                  </span>
+                  <span>{session.language === "auto" ? "Auto" : getLanguageName(session.language)}</span>
+                </div>
+              </div>
+              <ChevronRight className="w-5 h-5 text-gray-400 flex-shrink-0" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import { TermList } from "./TermList"
+import type { CaptionSettings, SettingsPatch } from "../hooks/useSettings"
+
+interface KeywordAlertsProps {
+  settings: CaptionSettings
+  onUpdateSettings: (patch: SettingsPatch) => Promise<boolean>
+}
+
+/**
+ * Words to watch for: highlighted in the transcript, upper-cased on the
+ * glasses and optionally announced with an alert card
+ */
+export function KeywordAlerts({ settings, onUpdateSettings }: KeywordAlertsProps) {
+  const notify = settings.keywordNotifications
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">Keyword Alerts</h2>
+
+      <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-6">
+        <TermList
+          title="Keywords"
+          description="Your name, a project, or phrases like “fire alarm”"
+          terms={settings.alertKeywords}
+          placeholder="Add a keyword…"
+          onChange={(alertKeywords) => onUpdateSettings({ alertKeywords })}
+        />
+
+        <div className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+          <div className="flex-1 pr-4">
+            <p className="text-sm font-medium text-gray-900 font-['Red_Hat_Display']">Alert on glasses</p>
+            <p className="text-sm text-gray-700 font-['Red_Hat_Display']">
+              Briefly show a card when a keyword is said
+            </p>
+          </div>
+          <button
+            onClick={() => onUpdateSettings({ keywordNotifications: !notify })}
+            className={`relative inline-flex h-7 w-12 items-center rounded-full transition-colors ${
+              notify ? "" : "bg-gray-300"
+            }`}
+            style={notify ? { backgroundColor: "#6DAEA6" } : {}}
+            role="switch"
+            aria-checked={notify}>
+            <span
+              className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-sm transition-transform ${
+                notify ? "translate-x-6" : "translate-x-1"
+              }`}
+            />
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,13 +6,21 @@ import {AVAILABLE_LANGUAGES, getLanguageName, getFlagEmoji} from "../lib/languag
 interface LanguageSelectorProps {
   currentLanguage: string
   currentHints: string[]
-  onSave: (language: string, hints: string[]) => Promise<void>
+  currentMultilingual: boolean
+  onSave: (language: string, hints: string[], multilingual: boolean) => Promise<void>
   onCancel: () => void
 }
 
-export function LanguageSelector({currentLanguage, currentHints, onSave, onCancel}: LanguageSelectorProps) {
+export function LanguageSelector({
+  currentLanguage,
+  currentHints,
+  currentMultilingual,
+  onSave,
+  onCancel,
+}: LanguageSelectorProps) {
   const [tempLanguage, setTempLanguage] = useState(currentLanguage)
   const [tempHints, setTempHints] = useState<string[]>(currentHints)
+  const [tempMultilingual, setTempMultilingual] = useState(currentMultilingual)
   const [searchQuery, setSearchQuery] = useState("")
   const [saving, setSaving] = useState(false)
 
@@ -20,8 +28,9 @@ export function LanguageSelector({currentLanguage, currentHints, onSave, onCance
   useEffect(() => {
     setTempLanguage(currentLanguage)
     setTempHints(currentHints)
+    setTempMultilingual(currentMultilingual)
     setSearchQuery("")
-  }, [currentLanguage, currentHints])
+  }, [currentLanguage, currentHints, currentMultilingual])
 
   const handleLanguageClick = (code: string) => {
     if (tempLanguage === code) {
@@ -49,10 +58,13 @@ export function LanguageSelector({currentLanguage, currentHints, onSave, onCance
 
   const isSelected = (code: string) => tempLanguage === code || tempHints.includes(code)
 
+  // Conversation mode needs at least two declared languages
+  const canConverse = tempLanguage !== "auto" && tempHints.length > 0
+
   const handleSave = async () => {
     setSaving(true)
     try {
-      await onSave(tempLanguage, tempHints)
+      await onSave(tempLanguage, tempHints, canConverse && tempMultilingual)
     } catch (error) {
       console.error("Failed to save language settings:", error)
     } finally {
@@ -104,6 +116,30 @@ export function LanguageSelector({currentLanguage, currentHints, onSave, onCance
           ))}
         </div>
 
+        {/* Conversation mode: each speaker in their own language, shown in the primary one */}
+        {canConverse && (
+          <button
+            onClick={() => setTempMultilingual((prev) => !prev)}
+            className="w-full px-4 py-3 bg-white rounded-xl flex items-center justify-between shadow-sm">
+            <div className="flex flex-col items-start">
+              <span className="text-base font-bold text-gray-900 font-['Red_Hat_Display']">Conversation mode</span>
+              <span className="text-sm text-gray-500 font-['Red_Hat_Display']">
+                Show everyone in {getLanguageName(tempLanguage)}
+              </span>
+            </div>
+            <div
+              className={`w-11 h-6 rounded-full p-0.5 transition-colors ${
+                tempMultilingual ? "bg-[#6DAEA6]" : "bg-gray-300"
+              }`}>
+              <div
+                className={`w-5 h-5 bg-white rounded-full shadow transition-transform ${
+                  tempMultilingual ? "translate-x-5" : ""
+                }`}
+              />
+            </div>
+          </button>
+        )}
+
         {/* Search Bar */}
         <div className="relative">
           <div className="absolute inset-y-0 left-3 flex items-center pointer-events-none">
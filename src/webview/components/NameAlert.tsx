@@ -0,0 +1,56 @@
+import { TermList } from "./TermList"
+import type { CaptionSettings, SettingsPatch } from "../hooks/useSettings"
+
+interface NameAlertProps {
+  settings: CaptionSettings
+  onUpdateSettings: (patch: SettingsPatch) => Promise<boolean>
+}
+
+/**
+ * Name alert mode: a "Someone said your name" banner on the glasses when
+ * anyone says one of the wearer's names
+ */
+export function NameAlert({ settings, onUpdateSettings }: NameAlertProps) {
+  const enabled = settings.nameAlert
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">Name Alert</h2>
+
+      <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-6">
+        <div className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+          <div className="flex-1 pr-4">
+            <p className="text-sm font-medium text-gray-900 font-['Red_Hat_Display']">Tell me when someone says my name</p>
+            <p className="text-sm text-gray-700 font-['Red_Hat_Display']">
+              Pauses the captions briefly with a banner on the glasses
+            </p>
+          </div>
+          <button
+            onClick={() => onUpdateSettings({ nameAlert: !enabled })}
+            className={`relative inline-flex h-7 w-12 items-center rounded-full transition-colors ${
+              enabled ? "" : "bg-gray-300"
+            }`}
+            style={enabled ? { backgroundColor: "#6DAEA6" } : {}}
+            role="switch"
+            aria-checked={enabled}>
+            <span
+              className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-sm transition-transform ${
+                enabled ? "translate-x-6" : "translate-x-1"
+              }`}
+            />
+          </button>
+        </div>
+
+        {enabled && (
+          <TermList
+            title="Names and nicknames"
+            description="Everything people call you"
+            terms={settings.wearerNames}
+            placeholder="Add a name…"
+            onChange={(wearerNames) => onUpdateSettings({ wearerNames })}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import { X } from "lucide-react"
+import { useState } from "react"
+
+import { useProfiles } from "../hooks/useProfiles"
+
+interface ProfileSwitcherProps {
+  /** Profile matching the current settings, if any */
+  activeProfileId: string | null
+}
+
+/**
+ * One-tap switching between settings profiles, plus saving the current
+ * settings as a new one
+ */
+export function ProfileSwitcher({ activeProfileId }: ProfileSwitcherProps) {
+  const { profiles, createProfile, deleteProfile, applyProfile } = useProfiles()
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const handleApply = async (id: string) => {
+    setPendingId(id)
+    await applyProfile(id)
+    setPendingId(null)
+  }
+
+  const handleSave = async () => {
+    const name = newName.trim()
+    if (!name) return
+    setSaving(true)
+    if (await createProfile(name)) setNewName("")
+    setSaving(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">Profiles</h2>
+
+      <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {profiles.map((profile) => {
+            const active = profile.id === (pendingId ?? activeProfileId)
+            return (
+              <div
+                key={profile.id}
+                className={`flex items-center rounded-full transition-colors ${
+                  active ? "text-white shadow-sm" : "bg-gray-50 text-gray-900 hover:bg-gray-100"
+                }`}
+                style={active ? { backgroundColor: "#6DAEA6" } : {}}>
+                <button
+                  onClick={() => handleApply(profile.id)}
+                  disabled={pendingId !== null}
+                  className={`py-2 text-sm font-medium font-['Red_Hat_Display'] ${profile.builtIn ? "px-4" : "pl-4 pr-1"}`}>
+                  {profile.name}
+                </button>
+                {!profile.builtIn && (
+                  <button
+                    onClick={() => deleteProfile(profile.id)}
+                    className="mr-2 p-0.5 rounded-full hover:bg-black/10"
+                    aria-label={`Delete ${profile.name}`}>
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            value={newName}
+            maxLength={40}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            placeholder="Save current settings as…"
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-gray-50 text-sm font-['Red_Hat_Display'] outline-none focus:ring-2 focus:ring-[#6DAEA6]/50"
+          />
+          <button
+            onClick={handleSave}
+            disabled={saving || !newName.trim()}
+            className="px-4 py-2 rounded-xl text-sm font-medium text-white font-['Red_Hat_Display'] disabled:opacity-50"
+            style={{ backgroundColor: "#6DAEA6" }}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+import { Search, SlidersHorizontal, X } from "lucide-react"
+import { useState } from "react"
+
+import { EMPTY_FILTERS, SearchFilters, SearchResult, useSearch } from "../hooks/useSearch"
+import { AVAILABLE_LANGUAGES, getFlagEmoji } from "../lib/languages"
+import { splitHighlights } from "../lib/highlight"
+
+interface SearchBarProps {
+  /** Called when a result is picked, with the parsed search terms */
+  onSelect: (result: SearchResult, terms: string[]) => void
+  /** Called when the query is cleared */
+  onClear?: () => void
+  className?: string
+}
+
+function formatResultTime(result: SearchResult): string {
+  const time = result.transcript.startedAt ?? result.transcript.receivedAt
+  return new Date(time).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+export function SearchBar({ onSelect, onClear, className = "" }: SearchBarProps) {
+  const [query, setQuery] = useState("")
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS)
+  const [showFilters, setShowFilters] = useState(false)
+  const [showResults, setShowResults] = useState(false)
+  const { results, terms, loading, error } = useSearch(query, filters)
+
+  const hasFilters = filters.speaker !== "" || filters.from !== "" || filters.to !== "" || filters.language !== ""
+
+  const updateFilter = (key: keyof SearchFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const clear = () => {
+    setQuery("")
+    setFilters(EMPTY_FILTERS)
+    setShowFilters(false)
+    setShowResults(false)
+    onClear?.()
+  }
+
+  const select = (result: SearchResult) => {
+    setShowResults(false)
+    onSelect(result, terms)
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="h-9 bg-white rounded-full shadow-sm flex items-center gap-2 px-3">
+        <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setShowResults(true)
+          }}
+          onFocus={() => setShowResults(true)}
+          placeholder="Search conversations"
+          className="flex-1 min-w-0 bg-transparent text-sm text-gray-900 font-['Red_Hat_Display'] outline-none"
+        />
+        {query && (
+          <button onClick={clear} aria-label="Clear search">
+            <X className="w-4 h-4 text-gray-400" />
+          </button>
+        )}
+        <button onClick={() => setShowFilters((prev) => !prev)} aria-label="Search filters">
+          <SlidersHorizontal className={`w-4 h-4 ${hasFilters ? "text-[#6DAEA6]" : "text-gray-400"}`} />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="mt-2 p-3 bg-white rounded-2xl shadow-sm border border-gray-100 grid grid-cols-2 gap-2 text-xs font-['Red_Hat_Display']">
+          <label className="flex flex-col gap-1 text-gray-500">
+            Speaker
+            <input
+              value={filters.speaker}
+              onChange={(e) => updateFilter("speaker", e.target.value)}
+              placeholder="Any"
+              className="px-2 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-900 outline-none"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-500">
+            Language
+            <select
+              value={filters.language}
+              onChange={(e) => updateFilter("language", e.target.value)}
+              className="px-2 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-900 bg-white outline-none">
+              <option value="">Any</option>
+              {AVAILABLE_LANGUAGES.map((lang) => (
+                <option key={lang.code} value={lang.code}>
+                  {lang.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-gray-500">
+            From
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              className="px-2 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-900 outline-none"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-500">
+            To
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+              className="px-2 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-900 outline-none"
+            />
+          </label>
+        </div>
+      )}
+
+      {showResults && query.trim() && (
+        <div className="absolute left-0 right-0 mt-2 max-h-80 overflow-y-auto bg-white rounded-2xl shadow-lg border border-gray-100 z-20">
+          {loading && results.length === 0 && <p className="px-4 py-3 text-sm text-gray-500">Searching...</p>}
+          {error && <p className="px-4 py-3 text-sm text-amber-700">{error}</p>}
+          {!loading && !error && results.length === 0 && (
+            <p className="px-4 py-3 text-sm text-gray-400 italic">No matches</p>
+          )}
+          {results.map((result) => (
+            <button
+              key={`${result.source}:${result.sessionId}:${result.transcript.id}`}
+              onClick={() => select(result)}
+              className="w-full px-4 py-3 flex flex-col gap-1 text-left hover:bg-gray-50 transition-colors border-b border-gray-100 last:border-0">
+              <div className="flex items-center gap-2 text-xs text-gray-500 font-['Red_Hat_Display']">
+                <span>{result.language === "auto" ? "🏳️" : getFlagEmoji(result.language)}</span>
+                <span className="font-bold text-gray-700">{result.transcript.speaker}</span>
+                <span>{formatResultTime(result)}</span>
+                {result.source === "live" && (
+                  <span className="ml-auto px-2 py-0.5 rounded-full bg-[#6DAEA6] text-white text-[10px] font-semibold">
+                    LIVE
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-gray-800 font-['Red_Hat_Display'] line-clamp-2">
+                {splitHighlights(result.transcript.text, terms).map((segment, i) =>
+                  segment.match ? (
+                    <mark key={i} className="bg-[#6DAEA6]/30 text-inherit rounded-sm">
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    segment.text
+                  ),
+                )}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
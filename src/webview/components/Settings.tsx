@@ -1,7 +1,23 @@
 import { useState, useEffect } from "react";
 
-import { CaptionSettings } from "@/hooks/useSettings";
+import { ContentFilter } from "@/components/ContentFilter";
+import { KeywordAlerts } from "@/components/KeywordAlerts";
+import { NameAlert } from "@/components/NameAlert";
+import { ProfileSwitcher } from "@/components/ProfileSwitcher";
+import { SettingsTransfer } from "@/components/SettingsTransfer";
+import { SoundEvents } from "@/components/SoundEvents";
+import { Transliteration } from "@/components/Transliteration";
+import { VocabularyEditor } from "@/components/VocabularyEditor";
+import { CaptionSettings, LayoutMode, SettingsPatch } from "@/hooks/useSettings";
 import { DisplayPreview } from "@/hooks/useTranscripts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AVAILABLE_LANGUAGES } from "@/lib/languages";
 
 interface SettingsProps {
   settings: CaptionSettings | null;
@@ -9,20 +25,70 @@ interface SettingsProps {
   onUpdateDisplayLines: (lines: number) => Promise<boolean>;
   onUpdateDisplayWidth: (width: number) => Promise<boolean>;
   onUpdateWordBreaking: (enabled: boolean) => Promise<boolean>;
+  onUpdateLayoutMode: (mode: LayoutMode) => Promise<boolean>;
+  onUpdateClearTimeout: (seconds: number) => Promise<boolean>;
+  onUpdateFinalHold: (seconds: number) => Promise<boolean>;
+  onUpdateFadeAfterSilence: (enabled: boolean) => Promise<boolean>;
+  onUpdateTranslationLanguage: (language: string) => Promise<boolean>;
+  onUpdateSettings: (patch: SettingsPatch) => Promise<boolean>;
 }
 
+// Select items can't have an empty value, so "off" stands in for ""
+const TRANSLATION_OFF = "off";
+
+const CLEAR_TIMEOUT_OPTIONS = [
+  { value: 10, label: "10s" },
+  { value: 20, label: "20s" },
+  { value: 40, label: "40s" },
+  { value: 120, label: "2m" },
+  { value: 0, label: "Never" },
+];
+
+const FINAL_HOLD_OPTIONS = [
+  { value: 5, label: "5s" },
+  { value: 10, label: "10s" },
+  { value: 20, label: "20s" },
+  { value: 60, label: "1m" },
+];
+
+const LAYOUT_OPTIONS: { value: LayoutMode; label: string; description: string }[] = [
+  { value: "rolling", label: "Rolling", description: "Older lines scroll up as new text arrives" },
+  { value: "utterance", label: "Current", description: "Only the current sentence" },
+  { value: "paged", label: "Paged", description: "Fill the screen, then clear and start over" },
+  { value: "split", label: "Split", description: "Two speakers, one per half of the screen" },
+];
+
 export function Settings({
   settings,
   displayPreview,
   onUpdateDisplayLines,
   onUpdateDisplayWidth,
   onUpdateWordBreaking,
+  onUpdateLayoutMode,
+  onUpdateClearTimeout,
+  onUpdateFinalHold,
+  onUpdateFadeAfterSilence,
+  onUpdateTranslationLanguage,
+  onUpdateSettings,
 }: SettingsProps) {
   const [displayLines, setDisplayLines] = useState(settings?.displayLines || 3);
   const [displayWidth, setDisplayWidth] = useState(settings?.displayWidth || 1);
   const [wordBreaking, setWordBreaking] = useState(
     settings?.wordBreaking ?? true,
   );
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>(
+    settings?.layoutMode ?? "rolling",
+  );
+  const [clearAfter, setClearAfter] = useState(
+    settings?.clearTimeoutSeconds ?? 40,
+  );
+  const [finalHold, setFinalHold] = useState(settings?.finalHoldSeconds ?? 20);
+  const [fadeAfterSilence, setFadeAfterSilence] = useState(
+    settings?.fadeAfterSilence ?? true,
+  );
+  const [translationLanguage, setTranslationLanguage] = useState(
+    settings?.translationLanguage ?? "",
+  );
 
   // Sync local state with props when settings change (e.g., from SSE update or initial load)
   useEffect(() => {
@@ -30,6 +96,11 @@ export function Settings({
       setDisplayLines(settings.displayLines);
       setDisplayWidth(settings.displayWidth);
       setWordBreaking(settings.wordBreaking);
+      setLayoutMode(settings.layoutMode ?? "rolling");
+      setClearAfter(settings.clearTimeoutSeconds ?? 40);
+      setFinalHold(settings.finalHoldSeconds ?? 20);
+      setFadeAfterSilence(settings.fadeAfterSilence ?? true);
+      setTranslationLanguage(settings.translationLanguage ?? "");
     }
   }, [settings]);
 
@@ -60,6 +131,51 @@ export function Settings({
     }
   };
 
+  const handleLayoutModeChange = async (mode: LayoutMode) => {
+    setLayoutMode(mode); // Optimistic update
+    const success = await onUpdateLayoutMode(mode);
+    if (!success) {
+      // Revert on failure
+      setLayoutMode(settings?.layoutMode ?? "rolling");
+    }
+  };
+
+  const handleClearTimeoutChange = async (seconds: number) => {
+    setClearAfter(seconds); // Optimistic update
+    const success = await onUpdateClearTimeout(seconds);
+    if (!success) {
+      // Revert on failure
+      setClearAfter(settings?.clearTimeoutSeconds ?? 40);
+    }
+  };
+
+  const handleFinalHoldChange = async (seconds: number) => {
+    setFinalHold(seconds); // Optimistic update
+    const success = await onUpdateFinalHold(seconds);
+    if (!success) {
+      // Revert on failure
+      setFinalHold(settings?.finalHoldSeconds ?? 20);
+    }
+  };
+
+  const handleFadeAfterSilenceChange = async (enabled: boolean) => {
+    setFadeAfterSilence(enabled); // Optimistic update
+    const success = await onUpdateFadeAfterSilence(enabled);
+    if (!success) {
+      // Revert on failure
+      setFadeAfterSilence(settings?.fadeAfterSilence ?? true);
+    }
+  };
+
+  const handleTranslationLanguageChange = async (language: string) => {
+    setTranslationLanguage(language); // Optimistic update
+    const success = await onUpdateTranslationLanguage(language);
+    if (!success) {
+      // Revert on failure
+      setTranslationLanguage(settings?.translationLanguage ?? "");
+    }
+  };
+
   if (!settings) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -70,6 +186,8 @@ export function Settings({
 
   return (
     <div className="h-full overflow-y-auto px-4 py-6 space-y-6 bg-zinc-100">
+      <ProfileSwitcher activeProfileId={settings.activeProfileId} />
+
       {/* Preview Section */}
       <div className="space-y-3">
         <h3 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">
@@ -77,12 +195,18 @@ export function Settings({
         </h3>
         <div className="p-4 bg-white rounded-2xl shadow-sm border border-gray-100 min-h-[100px] overflow-x-auto">
           {displayPreview?.text ? (
+            // dir="auto": RTL lines start with a right-to-left mark
             <div className="space-y-0.5">
               {displayPreview.lines.map((line, i) => (
                 <p
                   key={i}
+                  dir="auto"
                   className={`text-xs font-['Red_Hat_Display'] leading-tight whitespace-pre ${
                     displayPreview.isFinal ? "text-gray-800" : "text-gray-500"
+                  } ${
+                    i === displayPreview.splitAt && i > 0
+                      ? "border-t border-dashed border-gray-300 pt-1 mt-1"
+                      : ""
                   }`}
                 >
                   {line || "\u00A0"} {/* Non-breaking space for empty lines */}
@@ -104,6 +228,44 @@ export function Settings({
         </h2>
 
         <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-6">
+          {/* Glasses model */}
+          {settings && (
+            <>
+              <div className="space-y-3">
+                <label className="flex items-center justify-between gap-3">
+                  <span className="text-base font-medium text-gray-900 font-['Red_Hat_Display']">
+                    Glasses
+                  </span>
+                  <select
+                    value={settings.displayProfile}
+                    onChange={(e) =>
+                      onUpdateSettings({ displayProfile: e.target.value })
+                    }
+                    className="px-2 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-900 bg-white outline-none"
+                  >
+                    <option value="auto">Detect automatically</option>
+                    {settings.displayProfiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {settings.displayProfile === "auto" && (
+                  <p className="text-xs text-gray-500 font-['Red_Hat_Display']">
+                    Using{" "}
+                    {settings.displayProfiles.find(
+                      (profile) => profile.id === settings.activeDisplayProfile,
+                    )?.name ?? settings.activeDisplayProfile}
+                  </p>
+                )}
+              </div>
+
+              {/* Divider */}
+              <div className="h-px bg-gray-100 w-full" />
+            </>
+          )}
+
           {/* Display Lines */}
           <div className="space-y-3">
             <div className="flex items-center gap-3">
@@ -149,6 +311,54 @@ export function Settings({
           {/* Divider */}
           <div className="h-px bg-gray-100 w-full" />
 
+          {/* Layout */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <svg
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                className="text-gray-900"
+              >
+                <rect x="3" y="4" width="18" height="16" rx="2" />
+                <line x1="3" y1="12" x2="21" y2="12" />
+              </svg>
+              <span className="text-base font-medium text-gray-900 font-['Red_Hat_Display']">
+                Layout
+              </span>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              {LAYOUT_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => handleLayoutModeChange(option.value)}
+                  className={`py-3 rounded-xl text-sm font-medium font-['Red_Hat_Display'] transition-colors ${
+                    layoutMode === option.value
+                      ? "text-white shadow-sm"
+                      : "bg-gray-50 text-gray-900 hover:bg-gray-100"
+                  }`}
+                  style={
+                    layoutMode === option.value
+                      ? { backgroundColor: "#6DAEA6" }
+                      : {}
+                  }
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 font-['Red_Hat_Display']">
+              {LAYOUT_OPTIONS.find((option) => option.value === layoutMode)?.description}
+            </p>
+          </div>
+
+          {/* Divider */}
+          <div className="h-px bg-gray-100 w-full" />
+
           {/* Display Width */}
           <div className="space-y-3">
             <div className="flex items-center gap-3">
@@ -248,6 +458,160 @@ export function Settings({
           </div>
         </div>
       </div>
+
+      {/* Caption Timing */}
+      <div className="space-y-4">
+        <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">
+          Caption Timing
+        </h2>
+
+        <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-6">
+          {/* Fade After Silence */}
+          <div className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+            <div className="flex-1 pr-4">
+              <p className="text-sm font-medium text-gray-900 font-['Red_Hat_Display']">
+                Fade after silence
+              </p>
+              <p className="text-sm text-gray-700 font-['Red_Hat_Display']">
+                {fadeAfterSilence
+                  ? "Finished captions disappear after the hold time"
+                  : "Finished captions stay up until new speech replaces them"}
+              </p>
+            </div>
+            <button
+              onClick={() => handleFadeAfterSilenceChange(!fadeAfterSilence)}
+              className={`relative inline-flex h-7 w-12 items-center rounded-full transition-colors ${
+                fadeAfterSilence ? "" : "bg-gray-300"
+              }`}
+              style={fadeAfterSilence ? { backgroundColor: "#6DAEA6" } : {}}
+              role="switch"
+              aria-checked={fadeAfterSilence}
+            >
+              <span
+                className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-sm transition-transform ${
+                  fadeAfterSilence ? "translate-x-6" : "translate-x-1"
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Final Caption Hold */}
+          <div className={`space-y-3 ${fadeAfterSilence ? "" : "opacity-50"}`}>
+            <span className="text-base font-medium text-gray-900 font-['Red_Hat_Display']">
+              Keep finished captions for
+            </span>
+            <div className="grid grid-cols-4 gap-2">
+              {FINAL_HOLD_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  disabled={!fadeAfterSilence}
+                  onClick={() => handleFinalHoldChange(option.value)}
+                  className={`py-3 rounded-xl text-base font-medium font-['Red_Hat_Display'] transition-colors ${
+                    finalHold === option.value
+                      ? "text-white shadow-sm"
+                      : "bg-gray-50 text-gray-900 hover:bg-gray-100"
+                  }`}
+                  style={
+                    finalHold === option.value
+                      ? { backgroundColor: "#6DAEA6" }
+                      : {}
+                  }
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Divider */}
+          <div className="h-px bg-gray-100 w-full" />
+
+          {/* Clear Timeout */}
+          <div className="space-y-3">
+            <span className="text-base font-medium text-gray-900 font-['Red_Hat_Display']">
+              Clear caption history after silence
+            </span>
+            <div className="grid grid-cols-5 gap-2">
+              {CLEAR_TIMEOUT_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => handleClearTimeoutChange(option.value)}
+                  className={`py-3 rounded-xl text-sm font-medium font-['Red_Hat_Display'] transition-colors ${
+                    clearAfter === option.value
+                      ? "text-white shadow-sm"
+                      : "bg-gray-50 text-gray-900 hover:bg-gray-100"
+                  }`}
+                  style={
+                    clearAfter === option.value
+                      ? { backgroundColor: "#6DAEA6" }
+                      : {}
+                  }
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 font-['Red_Hat_Display']">
+              After this much silence the glasses are blanked and the next caption starts fresh
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <Transliteration settings={settings} onUpdateSettings={onUpdateSettings} />
+
+      {/* Translation */}
+      <div className="space-y-4">
+        <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">
+          Translation
+        </h2>
+
+        <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+          <span className="text-base font-medium text-gray-900 font-['Red_Hat_Display']">
+            Show captions in
+          </span>
+          <Select
+            value={translationLanguage || TRANSLATION_OFF}
+            disabled={!settings.translationAvailable}
+            onValueChange={(value) =>
+              handleTranslationLanguageChange(
+                value === TRANSLATION_OFF ? "" : value,
+              )
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="w-full">
+              <SelectItem value={TRANSLATION_OFF}>
+                Spoken language (no translation)
+              </SelectItem>
+              {AVAILABLE_LANGUAGES.map((lang) => (
+                <SelectItem key={lang.code} value={lang.code}>
+                  {lang.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 font-['Red_Hat_Display']">
+            {settings.translationAvailable
+              ? "The glasses show the translation; the caption list shows both"
+              : "Translation is not available on this server"}
+          </p>
+        </div>
+      </div>
+
+      <SoundEvents settings={settings} onUpdateSettings={onUpdateSettings} />
+
+      <NameAlert settings={settings} onUpdateSettings={onUpdateSettings} />
+
+      <KeywordAlerts settings={settings} onUpdateSettings={onUpdateSettings} />
+
+      <ContentFilter settings={settings} onUpdateSettings={onUpdateSettings} />
+
+      <VocabularyEditor />
+
+      <SettingsTransfer />
     </div>
   );
 }
@@ -0,0 +1,215 @@
+import { Download, Share2, Upload } from "lucide-react"
+import { useRef, useState } from "react"
+
+import { downloadFile } from "./ExportMenu"
+import type { CaptionSettings } from "../hooks/useSettings"
+
+interface ImportConflict {
+  type: "setting" | "profile" | "speakerName" | "replacementRule"
+  key: string
+  current: unknown
+  imported: unknown
+}
+
+/** What an import would overwrite (dry run), or did once applied */
+interface ImportReport {
+  success: true
+  conflicts: ImportConflict[]
+  skipped: string[]
+}
+
+interface ImportPreview extends ImportReport {
+  dryRun: true
+}
+
+interface ImportResult extends ImportReport {
+  dryRun: false
+  settings: CaptionSettings
+}
+
+interface ImportFailure {
+  error?: string
+  errors?: string[]
+}
+
+interface PendingImport {
+  document: unknown
+  conflicts: ImportConflict[]
+  skipped: string[]
+}
+
+const CONFLICT_LABELS: Record<ImportConflict["type"], string> = {
+  setting: "Setting",
+  profile: "Profile",
+  speakerName: "Speaker",
+  replacementRule: "Replacement",
+}
+
+const formatValue = (value: unknown) => (typeof value === "string" ? value || "off" : JSON.stringify(value))
+
+async function postImport(document: unknown, dryRun: true): Promise<ImportPreview>
+async function postImport(document: unknown, dryRun: false): Promise<ImportResult>
+async function postImport(document: unknown, dryRun: boolean): Promise<ImportPreview | ImportResult> {
+  const response = await fetch(`/api/settings/import${dryRun ? "?dryRun=true" : ""}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(document),
+  })
+  const data: ImportPreview | ImportResult | ImportFailure = await response.json().catch(() => ({}))
+  if (response.ok && "success" in data && data.dryRun === dryRun) return data
+
+  const failure: ImportFailure = "success" in data ? {} : data
+  throw new Error(failure.errors?.join("\n") || failure.error || `Import failed: ${response.status}`)
+}
+
+/**
+ * Export the whole setup (settings, profiles, speaker names, vocabulary) as a file and
+ * import one, showing what it would overwrite before applying it
+ */
+export function SettingsTransfer() {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [pending, setPending] = useState<PendingImport | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const canShare = typeof navigator !== "undefined" && typeof navigator.share === "function"
+
+  const handleExport = async (share: boolean) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const response = await fetch("/api/settings/export")
+      if (!response.ok) throw new Error(`Export failed: ${response.status}`)
+
+      const disposition = response.headers.get("Content-Disposition") || ""
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || "captions-settings.json"
+      const file = new File([await response.blob()], filename, { type: "application/json" })
+
+      if (share && navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: file.name })
+      } else {
+        downloadFile(file)
+      }
+    } catch (err) {
+      // Share sheet dismissed or download blocked
+      console.error("[SettingsTransfer] Export failed:", err)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // Check the file first so conflicts can be confirmed before anything changes
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setBusy(true)
+    setMessage(null)
+    try {
+      const document = JSON.parse(await file.text())
+      const data = await postImport(document, true)
+      setPending({ document, conflicts: data.conflicts, skipped: data.skipped })
+    } catch (err) {
+      setMessage(err instanceof SyntaxError ? "That file isn't valid JSON" : (err as Error).message)
+    } finally {
+      setBusy(false)
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  // Settings come back over SSE as settings_update; the vocabulary editor is told to refetch
+  const handleConfirm = async () => {
+    if (!pending) return
+    setBusy(true)
+    try {
+      await postImport(pending.document, false)
+      window.dispatchEvent(new Event("vocabulary_update"))
+      setMessage("Settings imported")
+      setPending(null)
+    } catch (err) {
+      setMessage((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">Import & Export</h2>
+
+      <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-4">
+        <p className="text-sm text-gray-700 font-['Red_Hat_Display']">
+          Move your settings, profiles and speaker names to another account, or share them with someone.
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => handleExport(canShare)}
+            disabled={busy}
+            className="py-3 rounded-xl text-sm font-medium font-['Red_Hat_Display'] bg-gray-50 text-gray-900 hover:bg-gray-100 flex items-center justify-center gap-2 disabled:opacity-50">
+            {canShare ? <Share2 className="w-4 h-4" /> : <Download className="w-4 h-4" />}
+            Export
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="py-3 rounded-xl text-sm font-medium font-['Red_Hat_Display'] bg-gray-50 text-gray-900 hover:bg-gray-100 flex items-center justify-center gap-2 disabled:opacity-50">
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {pending && (
+          <div className="p-3 bg-gray-50 rounded-xl space-y-3">
+            {pending.conflicts.length > 0 ? (
+              <>
+                <p className="text-sm font-medium text-gray-900 font-['Red_Hat_Display']">
+                  This will replace {pending.conflicts.length} of your current values:
+                </p>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {pending.conflicts.map((conflict) => (
+                    <li
+                      key={`${conflict.type}:${conflict.key}`}
+                      className="text-xs text-gray-700 font-['Red_Hat_Display']">
+                      {CONFLICT_LABELS[conflict.type]} <span className="font-semibold">{conflict.key}</span>
+                      {conflict.type !== "profile" &&
+                        `: ${formatValue(conflict.current)} → ${formatValue(conflict.imported)}`}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <p className="text-sm text-gray-700 font-['Red_Hat_Display']">Nothing you have now will be replaced.</p>
+            )}
+            {pending.skipped.length > 0 && (
+              <p className="text-xs text-amber-700 font-['Red_Hat_Display']">
+                Not available on this server, skipped: {pending.skipped.join(", ")}
+              </p>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={handleConfirm}
+                disabled={busy}
+                className="flex-1 py-2 rounded-xl text-sm font-medium text-white font-['Red_Hat_Display'] disabled:opacity-50"
+                style={{ backgroundColor: "#6DAEA6" }}>
+                Import
+              </button>
+              <button
+                onClick={() => setPending(null)}
+                disabled={busy}
+                className="flex-1 py-2 rounded-xl text-sm font-medium text-gray-900 bg-white border border-gray-200 font-['Red_Hat_Display']">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {message && <p className="text-xs text-gray-500 font-['Red_Hat_Display'] whitespace-pre-line">{message}</p>}
+      </div>
+    </div>
+  )
+}
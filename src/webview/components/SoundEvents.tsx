@@ -0,0 +1,65 @@
+import type { CaptionSettings, SettingsPatch } from "../hooks/useSettings"
+
+interface SoundEventsProps {
+  settings: CaptionSettings
+  onUpdateSettings: (patch: SettingsPatch) => Promise<boolean>
+}
+
+// Matches SOUND_CATEGORIES on the server
+const SOUND_OPTIONS: { value: string; label: string }[] = [
+  { value: "doorbell", label: "Doorbell" },
+  { value: "knock", label: "Door knock" },
+  { value: "alarm", label: "Alarms" },
+  { value: "phone", label: "Phone ringing" },
+  { value: "baby", label: "Baby crying" },
+  { value: "dog", label: "Dog barking" },
+  { value: "laughter", label: "Laughter" },
+  { value: "applause", label: "Applause" },
+  { value: "music", label: "Music" },
+]
+
+/**
+ * Which non-speech sounds are captioned, as tags like [door knock]
+ */
+export function SoundEvents({ settings, onUpdateSettings }: SoundEventsProps) {
+  const enabled = settings.soundEventCategories
+
+  const toggle = (category: string) =>
+    onUpdateSettings({
+      soundEventCategories: enabled.includes(category)
+        ? enabled.filter((c) => c !== category)
+        : [...enabled, category],
+    })
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">Sound Captions</h2>
+
+      <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          {SOUND_OPTIONS.map((option) => {
+            const active = enabled.includes(option.value)
+            return (
+              <button
+                key={option.value}
+                onClick={() => toggle(option.value)}
+                disabled={!settings.soundEventsAvailable}
+                className={`py-3 rounded-xl text-sm font-medium font-['Red_Hat_Display'] transition-colors disabled:opacity-50 ${
+                  active ? "text-white shadow-sm" : "bg-gray-50 text-gray-900 hover:bg-gray-100"
+                }`}
+                style={active ? { backgroundColor: "#6DAEA6" } : {}}
+                aria-pressed={active}>
+                {option.label}
+              </button>
+            )
+          })}
+        </div>
+        <p className="text-xs text-gray-500 font-['Red_Hat_Display']">
+          {settings.soundEventsAvailable
+            ? "Shown in brackets in the captions, e.g. [door knock]"
+            : "Sound detection isn't set up on this server"}
+        </p>
+      </div>
+    </div>
+  )
+}
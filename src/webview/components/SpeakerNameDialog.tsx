@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+import { useSpeakers } from "../hooks/useSpeakers"
+
+interface SpeakerNameDialogProps {
+  /** Speaker being renamed; null closes the dialog */
+  speakerId: string | null
+  /** Label currently shown for the speaker */
+  currentLabel: string
+  /** Archived conversation to rename in; omit for the live session */
+  sessionId?: string
+  onClose: () => void
+  /** Called with the new label after a successful rename */
+  onRenamed?: (speakerId: string, label: string) => void
+}
+
+export function SpeakerNameDialog({ speakerId, currentLabel, sessionId, onClose, onRenamed }: SpeakerNameDialogProps) {
+  const { profiles, fetchProfiles, renameSpeaker } = useSpeakers()
+  const [name, setName] = useState("")
+  const [remember, setRemember] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const isDefaultLabel = speakerId !== null && currentLabel === `Speaker ${speakerId}`
+
+  // Reset temp state when the dialog opens
+  useEffect(() => {
+    if (speakerId === null) return
+    setName(isDefaultLabel ? "" : currentLabel)
+    if (!sessionId) fetchProfiles()
+  }, [speakerId, currentLabel, isDefaultLabel, sessionId, fetchProfiles])
+
+  useEffect(() => {
+    if (speakerId !== null) setRemember(profiles[speakerId] !== undefined)
+  }, [speakerId, profiles])
+
+  const save = async (newName: string | null) => {
+    if (speakerId === null) return
+    setSaving(true)
+    const label = await renameSpeaker(speakerId, newName, { sessionId, remember })
+    setSaving(false)
+    if (label !== null) {
+      onRenamed?.(speakerId, label)
+      onClose()
+    }
+  }
+
+  return (
+    <Dialog open={speakerId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Name Speaker {speakerId}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <input
+            autoFocus
+            value={name}
+            maxLength={40}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && save(name.trim() || null)}
+            placeholder={`Speaker ${speakerId}`}
+            className="w-full px-3 py-2 rounded-md border border-gray-300 text-base font-['Red_Hat_Display'] outline-none focus:border-[#6DAEA6]"
+          />
+          <p className="text-xs text-gray-500">Shown on the glasses as [{name.trim() || speakerId}]:</p>
+
+          {!sessionId && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 font-['Red_Hat_Display']">
+              <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+              Use this name in future conversations
+            </label>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {!isDefaultLabel && (
+            <Button variant="outline" className="mr-auto" onClick={() => save(null)} disabled={saving}>
+              Reset
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button className="bg-black hover:bg-gray-800" onClick={() => save(name.trim() || null)} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,57 @@
+import { X } from "lucide-react"
+import { useState } from "react"
+
+interface TermListProps {
+  title: string
+  description: string
+  terms: string[]
+  placeholder: string
+  onChange: (terms: string[]) => Promise<boolean>
+}
+
+/**
+ * Editable list of words shown as removable chips
+ */
+export function TermList({ title, description, terms, placeholder, onChange }: TermListProps) {
+  const [newTerm, setNewTerm] = useState("")
+
+  const handleAdd = async () => {
+    const term = newTerm.trim()
+    if (!term || terms.includes(term)) return
+    if (await onChange([...terms, term])) setNewTerm("")
+  }
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <p className="text-sm font-medium text-gray-900 font-['Red_Hat_Display']">{title}</p>
+        <p className="text-xs text-gray-500 font-['Red_Hat_Display']">{description}</p>
+      </div>
+      {terms.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {terms.map((term) => (
+            <span
+              key={term}
+              className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-gray-50 text-sm text-gray-900 font-['Red_Hat_Display']">
+              {term}
+              <button
+                onClick={() => onChange(terms.filter((t) => t !== term))}
+                className="p-0.5 rounded-full hover:bg-black/10"
+                aria-label={`Remove ${term}`}>
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        value={newTerm}
+        maxLength={40}
+        onChange={(e) => setNewTerm(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 rounded-xl bg-gray-50 text-sm font-['Red_Hat_Display'] outline-none focus:ring-2 focus:ring-[#6DAEA6]/50"
+      />
+    </div>
+  )
+}
@@ -1,9 +1,22 @@
-import {Transcript} from "@/hooks/useTranscripts"
+import {BellRing} from "lucide-react"
+
+import type {TransliterationMode} from "@/hooks/useSettings"
+import {DEFAULT_SPEAKER_ID, Transcript} from "@/hooks/useTranscripts"
+import {splitHighlights} from "@/lib/highlight"
+import {getLanguageName, isRtlLanguage} from "@/lib/languages"
 
 interface TranscriptItemProps {
   transcript: Transcript
   isFirst: boolean
   isLast: boolean
+  // Search terms to highlight in the text
+  highlightTerms?: string[]
+  // Outline this item (search result the user jumped to)
+  isFocused?: boolean
+  // Show the original text, its transliteration or both (defaults to the original)
+  transliterationMode?: TransliterationMode
+  // Tapping the speaker badge renames the speaker
+  onRenameSpeaker?: (transcript: Transcript) => void
 }
 
 // Speaker colors matching the design
@@ -15,47 +28,139 @@ const SPEAKER_COLORS = [
   {bg: "#EC4899", text: "#EC4899"}, //
 ]
 
-export function TranscriptItem({transcript, isFirst, isLast}: TranscriptItemProps) {
-  // Extract speaker number from "Speaker 1", "Speaker 2", etc.
-  const speakerNumber = parseInt(transcript.speaker.replace(/\D/g, "")) || 1
+export function TranscriptItem({
+  transcript,
+  isFirst,
+  isLast,
+  highlightTerms,
+  isFocused,
+  transliterationMode = "original",
+  onRenameSpeaker,
+}: TranscriptItemProps) {
+  // Speaker number from the diarization ID (the label may be a user-assigned name)
+  const speakerNumber = parseInt(transcript.speakerId ?? DEFAULT_SPEAKER_ID) || 1
   const speakerIndex = (speakerNumber - 1) % SPEAKER_COLORS.length
   const colors = SPEAKER_COLORS[speakerIndex]
+  // Arabic, Hebrew... read right to left; otherwise the text's first letter decides
+  const dir = transcript.detectedLanguage && isRtlLanguage(transcript.detectedLanguage) ? "rtl" : "auto"
+  // The transliteration either replaces the text or goes below it
+  const transliteration = transliterationMode !== "original" ? transcript.transliteration : null
+  const textClassName = `self-stretch text-gray-800 text-base font-normal font-['Red_Hat_Display'] leading-6 ${
+    transcript.isFinal ? "" : "italic"
+  }`
 
   return (
     <div
+      data-transcript-id={transcript.id}
       className={`self-stretch p-4 bg-white/80 rounded-md flex flex-col gap-1.5
         ${transcript.isFinal ? "opacity-100" : "opacity-80"}
         ${isFirst ? "rounded-t-2xl" : ""}
-        ${isLast ? "rounded-b-2xl" : ""}`}>
+        ${isLast ? "rounded-b-2xl" : ""}
+        ${isFocused ? "ring-2 ring-[#6DAEA6]" : ""}`}>
       {/* Header with speaker badge, name, and timestamp */}
       <div className="flex items-center gap-2">
-        {/* Numbered speaker badge */}
-        <div
-          className="w-5 h-5 rounded-full flex items-center justify-center flex-shrink-0"
-          style={{backgroundColor: colors.bg, minWidth: "20px"}}>
-          <span className="text-white text-[10px] font-bold font-['Red_Hat_Display'] leading-none">
-            {speakerNumber}
+        <button
+          type="button"
+          disabled={!onRenameSpeaker}
+          onClick={() => onRenameSpeaker?.(transcript)}
+          className="flex items-center gap-2 min-w-0 text-left disabled:cursor-default"
+          aria-label={onRenameSpeaker ? `Rename ${transcript.speaker}` : undefined}>
+          {/* Numbered speaker badge */}
+          <div
+            className="w-5 h-5 rounded-full flex items-center justify-center flex-shrink-0"
+            style={{backgroundColor: colors.bg, minWidth: "20px"}}>
+            <span className="text-white text-[10px] font-bold font-['Red_Hat_Display'] leading-none">
+              {speakerNumber}
+            </span>
+          </div>
+
+          {/* Speaker name */}
+          <span className="text-sm font-bold font-['Red_Hat_Display'] leading-5 truncate" style={{color: colors.text}}>
+            {transcript.speaker}
           </span>
-        </div>
+        </button>
 
-        {/* Speaker name */}
-        <span className="text-sm font-bold font-['Red_Hat_Display'] leading-5" style={{color: colors.text}}>
-          {transcript.speaker}
-        </span>
+        {/* Detected language (auto mode) */}
+        {transcript.detectedLanguage && (
+          <span
+            className="ml-auto px-1.5 rounded bg-gray-100 text-gray-600 text-[10px] font-semibold uppercase font-['Red_Hat_Display'] leading-4"
+            title={getLanguageName(transcript.detectedLanguage.split("-")[0])}>
+            {transcript.detectedLanguage.split("-")[0]}
+          </span>
+        )}
 
         {/* Timestamp */}
-        <span className="text-gray-600 text-xs font-normal font-['Red_Hat_Display'] leading-4 ml-auto">
+        <span
+          className={`text-gray-600 text-xs font-normal font-['Red_Hat_Display'] leading-4 ${
+            transcript.detectedLanguage ? "" : "ml-auto"
+          }`}>
           {transcript.timestamp || (transcript.isFinal ? "" : "Now")}
         </span>
       </div>
 
-      {/* Transcript text */}
-      <p
-        className={`self-stretch text-gray-800 text-base font-normal font-['Red_Hat_Display'] leading-6 ${
-          transcript.isFinal ? "" : "italic"
-        }`}>
-        {transcript.text}
-      </p>
+      {/* Name alert shown on the glasses */}
+      {transcript.nameCalled && (
+        <div className="flex items-center gap-1.5 text-amber-700 text-xs font-semibold font-['Red_Hat_Display'] leading-4">
+          <BellRing className="w-3.5 h-3.5" />
+          Someone said your name
+        </div>
+      )}
+
+      {/* Transcript text: search matches, or else alert keywords, highlighted */}
+      {transliteration && transliterationMode === "transliterated" ? (
+        <p dir="auto" className={textClassName}>
+          {transliteration}
+        </p>
+      ) : (
+        <p dir={dir} className={textClassName}>
+          {highlightTerms && highlightTerms.length > 0
+            ? splitHighlights(transcript.text, highlightTerms).map((segment, i) =>
+                segment.match ? (
+                  <mark key={i} className="bg-[#6DAEA6]/30 text-inherit rounded-sm">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  segment.text
+                ),
+              )
+            : transcript.keywords && transcript.keywords.length > 0
+              ? splitHighlights(
+                  transcript.text,
+                  transcript.keywords.map((keyword) => keyword.toLocaleLowerCase()),
+                ).map((segment, i) =>
+                  segment.match ? (
+                    <mark key={i} className="bg-amber-200 text-inherit font-semibold rounded-sm">
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    segment.text
+                  ),
+                )
+              : transcript.text}
+        </p>
+      )}
+
+      {/* Transliteration below the original ("both") */}
+      {transliteration && transliterationMode === "both" && (
+        <p
+          dir="auto"
+          className={`self-stretch text-gray-600 text-sm font-normal font-['Red_Hat_Display'] leading-5 ${
+            transcript.isFinal ? "" : "italic"
+          }`}>
+          {transliteration}
+        </p>
+      )}
+
+      {/* Translation (shown on the glasses) */}
+      {transcript.translatedText && (
+        <p
+          dir="auto"
+          className={`self-stretch text-[#3F7D76] text-sm font-medium font-['Red_Hat_Display'] leading-5 ${
+            transcript.isFinal ? "" : "italic"
+          }`}>
+          {transcript.translatedText}
+        </p>
+      )}
     </div>
   )
 }
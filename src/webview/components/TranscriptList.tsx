@@ -1,8 +1,9 @@
-import { ChevronDown } from "lucide-react"
+import { ChevronDown, Volume2 } from "lucide-react"
 import { useRef, useEffect, useState } from "react"
 
 // eslint-disable-next-line no-restricted-imports
 import { Transcript } from "../hooks/useTranscripts"
+import type { TransliterationMode } from "../hooks/useSettings"
 
 import { TranscriptItem } from "./TranscriptItem"
 import { EmptyState } from "./EmptyState"
@@ -10,14 +11,30 @@ import { EmptyState } from "./EmptyState"
 
 interface TranscriptListProps {
   transcripts: Transcript[]
-  isRecording: boolean
-  onToggleRecording: () => void
-  onClearTranscripts: () => void
+  // Recording controls are omitted for read-only lists (e.g. archived conversations)
+  isRecording?: boolean
+  onToggleRecording?: () => void
+  onClearTranscripts?: () => void
+  // Search terms to highlight in every item
+  highlightTerms?: string[]
+  // Transcript to scroll to and outline (e.g. a search result)
+  focusId?: string | null
+  // Show the original text, its transliteration or both (when there is one)
+  transliterationMode?: TransliterationMode
+  // Speaker badges become tappable when provided
+  onRenameSpeaker?: (transcript: Transcript) => void
 }
 
-export function TranscriptList({ transcripts, isRecording, onToggleRecording, onClearTranscripts }: TranscriptListProps) {
+export function TranscriptList({
+  transcripts,
+  highlightTerms,
+  focusId,
+  transliterationMode,
+  onRenameSpeaker,
+}: TranscriptListProps) {
   const [autoScroll, setAutoScroll] = useState(true)
   const scrollContainerRef = useRef<HTMLDivElement>(null)
+  const jumpedToRef = useRef<string | null>(null)
 
   const handleScroll = () => {
     if (!scrollContainerRef.current) return
@@ -34,6 +51,22 @@ export function TranscriptList({ transcripts, isRecording, onToggleRecording, on
     }
   }, [transcripts, autoScroll])
 
+  // Jump to the focused transcript once it's rendered
+  useEffect(() => {
+    if (!focusId) {
+      jumpedToRef.current = null
+      return
+    }
+    if (focusId === jumpedToRef.current || !scrollContainerRef.current) return
+
+    const element = scrollContainerRef.current.querySelector(`[data-transcript-id="${CSS.escape(focusId)}"]`)
+    if (element) {
+      jumpedToRef.current = focusId
+      setAutoScroll(false)
+      element.scrollIntoView({ block: "center", behavior: "smooth" })
+    }
+  }, [focusId, transcripts])
+
   const scrollToBottom = () => {
     if (scrollContainerRef.current) {
       scrollContainerRef.current.scrollTo({
@@ -53,14 +86,30 @@ export function TranscriptList({ transcripts, isRecording, onToggleRecording, on
             </>
           )
         ) : (
-          transcripts.map((transcript, index) => (
-            <TranscriptItem
-              key={transcript.id}
-              transcript={transcript}
-              isFirst={index === 0}
-              isLast={index === transcripts.length - 1}
-            />
-          ))
+          transcripts.map((transcript, index) =>
+            // Non-speech sounds show as an inline tag, e.g. [door knock]
+            transcript.soundEvent ? (
+              <div
+                key={transcript.id}
+                data-transcript-id={transcript.id}
+                className="flex items-center gap-1.5 px-4 py-1 text-gray-500 text-sm italic font-['Red_Hat_Display']">
+                <Volume2 className="w-3.5 h-3.5" />
+                {transcript.text}
+                <span className="ml-auto not-italic text-xs">{transcript.timestamp}</span>
+              </div>
+            ) : (
+              <TranscriptItem
+                key={transcript.id}
+                transcript={transcript}
+                isFirst={index === 0}
+                isLast={index === transcripts.length - 1}
+                highlightTerms={highlightTerms}
+                isFocused={transcript.id === focusId}
+                transliterationMode={transliterationMode}
+                onRenameSpeaker={onRenameSpeaker}
+              />
+            ),
+          )
         )}
       </div>
 
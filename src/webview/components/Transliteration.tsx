@@ -0,0 +1,109 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import type { CaptionSettings, SettingsPatch, TransliterationMode } from "../hooks/useSettings"
+import { getLanguageName } from "../lib/languages"
+
+interface TransliterationProps {
+  settings: CaptionSettings
+  onUpdateSettings: (patch: SettingsPatch) => Promise<boolean>
+}
+
+// Select items can't have an empty value, so "off" stands in for no scheme
+const SCHEME_OFF = "off"
+
+const MODE_OPTIONS: { value: TransliterationMode; label: string }[] = [
+  { value: "original", label: "Original" },
+  { value: "transliterated", label: "Transliterated" },
+  { value: "both", label: "Both" },
+]
+
+/**
+ * Transliteration scheme per language (Pinyin, romaji...) and whether the
+ * glasses and the caption list show the original text, the transliteration
+ * or both stacked
+ */
+export function Transliteration({ settings, onUpdateSettings }: TransliterationProps) {
+  const options = settings.transliterationOptions
+  const languages = [...new Set(options.map((option) => option.language))]
+  const selected = settings.transliterators
+
+  const selectScheme = (language: string, id: string) => {
+    const others = selected.filter((selectedId) => options.find((o) => o.id === selectedId)?.language !== language)
+    onUpdateSettings({ transliterators: id === SCHEME_OFF ? others : [...others, id] })
+  }
+
+  const modePicker = (title: string, value: TransliterationMode, patch: (mode: TransliterationMode) => SettingsPatch) => (
+    <div className="space-y-3">
+      <span className="text-base font-medium text-gray-900 font-['Red_Hat_Display']">{title}</span>
+      <div className="grid grid-cols-3 gap-2">
+        {MODE_OPTIONS.map((option) => {
+          const active = value === option.value
+          return (
+            <button
+              key={option.value}
+              onClick={() => onUpdateSettings(patch(option.value))}
+              className={`py-3 rounded-xl text-sm font-medium font-['Red_Hat_Display'] transition-colors ${
+                active ? "text-white shadow-sm" : "bg-gray-50 text-gray-900 hover:bg-gray-100"
+              }`}
+              style={active ? { backgroundColor: "#6DAEA6" } : {}}>
+              {option.label}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">Language Display</h2>
+
+      <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-6">
+        <div className="space-y-3">
+          <div>
+            <p className="text-base font-medium text-gray-900 font-['Red_Hat_Display']">Transliteration</p>
+            <p className="text-sm text-gray-700 font-['Red_Hat_Display']">
+              Applies whenever the language is spoken, including in Auto mode
+            </p>
+          </div>
+          {languages.map((language) => {
+            const current = selected.find((id) => options.find((o) => o.id === id)?.language === language)
+            return (
+              <div key={language} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-gray-900 font-['Red_Hat_Display']">{getLanguageName(language)}</span>
+                <Select value={current ?? SCHEME_OFF} onValueChange={(id) => selectScheme(language, id)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SCHEME_OFF}>Off</SelectItem>
+                    {options
+                      .filter((option) => option.language === language)
+                      .map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )
+          })}
+        </div>
+
+        {selected.length > 0 && (
+          <>
+            {modePicker("On the glasses", settings.glassesTransliteration, (glassesTransliteration) => ({
+              glassesTransliteration,
+            }))}
+            {modePicker("In the caption list", settings.webviewTransliteration, (webviewTransliteration) => ({
+              webviewTransliteration,
+            }))}
+            <p className="text-xs text-gray-500 font-['Red_Hat_Display']">
+              Both shows the original with the transliteration below it. Kanji readings come from a dictionary loaded on first use, so the first Japanese captions may keep kanji as written.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { ArrowRight, X } from "lucide-react"
+import { useState } from "react"
+
+import { useVocabulary } from "../hooks/useVocabulary"
+
+const OPTIONS = [
+  { key: "wholeWord", label: "Whole word" },
+  { key: "matchCase", label: "Match case" },
+  { key: "regex", label: "Regex" },
+] as const
+
+type RuleOptions = Record<(typeof OPTIONS)[number]["key"], boolean>
+
+const DEFAULT_OPTIONS: RuleOptions = { wholeWord: true, matchCase: false, regex: false }
+
+/**
+ * Custom vocabulary: words and phrases the captions should always spell a
+ * certain way, applied to the transcript before it's shown or saved
+ */
+export function VocabularyEditor() {
+  const { rules, addRule, deleteRule } = useVocabulary()
+  const [find, setFind] = useState("")
+  const [replace, setReplace] = useState("")
+  const [options, setOptions] = useState<RuleOptions>(DEFAULT_OPTIONS)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const handleAdd = async () => {
+    if (!find.trim()) return
+    setSaving(true)
+    const saveError = await addRule({ find, replace, ...options })
+    setError(saveError)
+    if (!saveError) {
+      setFind("")
+      setReplace("")
+      setOptions(DEFAULT_OPTIONS)
+    }
+    setSaving(false)
+  }
+
+  const inputClass =
+    "flex-1 min-w-0 px-3 py-2 rounded-xl bg-gray-50 text-sm font-['Red_Hat_Display'] outline-none focus:ring-2 focus:ring-[#6DAEA6]/50"
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-base font-semibold text-gray-900 font-['Red_Hat_Display']">Vocabulary</h2>
+
+      <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 space-y-4">
+        <p className="text-xs text-gray-500 font-['Red_Hat_Display']">
+          Fix names and terms the captions get wrong. Rules run in order on every transcript.
+        </p>
+
+        {rules.length > 0 && (
+          <ul className="space-y-2">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-gray-50">
+                <div className="flex-1 min-w-0 flex items-center gap-2 text-sm text-gray-900 font-['Red_Hat_Display']">
+                  <span className={`truncate ${rule.regex ? "font-mono" : ""}`}>{rule.find}</span>
+                  <ArrowRight className="w-3 h-3 shrink-0 text-gray-400" />
+                  <span className="truncate">{rule.replace || <em className="text-gray-400">remove</em>}</span>
+                </div>
+                <span className="shrink-0 text-xs text-gray-400 font-['Red_Hat_Display']">
+                  {OPTIONS.filter(({ key }) => rule[key] && !(key === "wholeWord" && rule.regex))
+                    .map(({ label }) => label)
+                    .join(" · ")}
+                </span>
+                <button
+                  onClick={() => deleteRule(rule.id)}
+                  className="shrink-0 p-0.5 rounded-full hover:bg-black/10"
+                  aria-label={`Delete rule for ${rule.find}`}>
+                  <X className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <input
+              value={find}
+              maxLength={200}
+              onChange={(e) => setFind(e.target.value)}
+              placeholder="Heard as…"
+              className={inputClass}
+            />
+            <input
+              value={replace}
+              maxLength={200}
+              onChange={(e) => setReplace(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              placeholder="Write as…"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            {OPTIONS.map(({ key, label }) => {
+              // Regex rules write their own word boundaries
+              const disabled = key === "wholeWord" && options.regex
+              const active = options[key] && !disabled
+              return (
+                <button
+                  key={key}
+                  onClick={() => setOptions((prev) => ({ ...prev, [key]: !prev[key] }))}
+                  disabled={disabled}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium font-['Red_Hat_Display'] transition-colors disabled:opacity-40 ${
+                    active ? "text-white shadow-sm" : "bg-gray-50 text-gray-900 hover:bg-gray-100"
+                  }`}
+                  style={active ? { backgroundColor: "#6DAEA6" } : {}}>
+                  {label}
+                </button>
+              )
+            })}
+            <button
+              onClick={handleAdd}
+              disabled={saving || !find.trim()}
+              className="ml-auto px-4 py-2 rounded-xl text-sm font-medium text-white font-['Red_Hat_Display'] disabled:opacity-50"
+              style={{ backgroundColor: "#6DAEA6" }}>
+              Add
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-red-600 font-['Red_Hat_Display']">{error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback, useRef } from "react"
+
+import { Transcript } from "./useTranscripts"
+
+export interface ConversationSummary {
+  id: string
+  startedAt: number
+  endedAt: number
+  language: string
+  speakers: string[]
+  transcriptCount: number
+  active: boolean
+}
+
+export interface ArchivedTranscript {
+  id: string
+  conversationId: string
+  utteranceId: string | null
+  speakerId: string | null
+  speaker: string
+  text: string
+  startedAt: number | null
+  endedAt: number | null
+  receivedAt: number
+}
+
+/**
+ * Convert an archived transcript into the shape TranscriptList renders
+ */
+export function toTranscript(archived: ArchivedTranscript): Transcript {
+  return {
+    id: archived.id,
+    utteranceId: archived.utteranceId,
+    speakerId: archived.speakerId,
+    speaker: archived.speaker,
+    text: archived.text,
+    timestamp: new Date(archived.receivedAt).toLocaleTimeString([], {
+      hour: "numeric",
+      minute: "2-digit",
+    }),
+    isFinal: true,
+  }
+}
+
+export function useHistory() {
+  const [sessions, setSessions] = useState<ConversationSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const mountedRef = useRef(true)
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch("/api/sessions")
+
+      if (!mountedRef.current) return
+
+      if (response.status === 401) {
+        setError("Not authenticated")
+        setLoading(false)
+        return
+      }
+
+      if (!response.ok) {
+        setError(`Failed to load history: ${response.status}`)
+        setLoading(false)
+        return
+      }
+
+      const data = await response.json()
+
+      if (!mountedRef.current) return
+
+      setSessions(data.sessions || [])
+      setLoading(false)
+    } catch (err) {
+      console.error("[useHistory] Failed to fetch sessions:", err)
+      if (mountedRef.current) {
+        setError("Failed to load history")
+        setLoading(false)
+      }
+    }
+  }, [])
+
+  useEffect(() => {
+    mountedRef.current = true
+    fetchSessions()
+
+    return () => {
+      mountedRef.current = false
+    }
+  }, [fetchSessions])
+
+  const fetchSession = useCallback(
+    async (sessionId: string): Promise<{ session: ConversationSummary; transcripts: Transcript[] } | null> => {
+      try {
+        const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/transcripts`)
+
+        if (!response.ok) {
+          console.error("[useHistory] Failed to fetch session transcripts:", response.status)
+          return null
+        }
+
+        const data = await response.json()
+        return {
+          session: { ...data.session, active: false },
+          transcripts: (data.transcripts || []).map(toTranscript),
+        }
+      } catch (err) {
+        console.error("[useHistory] Failed to fetch session transcripts:", err)
+        return null
+      }
+    },
+    [],
+  )
+
+  return {
+    sessions,
+    loading,
+    error,
+    refetch: fetchSessions,
+    fetchSession,
+  }
+}
@@ -0,0 +1,116 @@
+import { useState, useCallback, useEffect } from "react"
+
+import type { CaptionSettings } from "./useSettings"
+
+// Same keys as PROFILE_SETTING_KEYS on the server: display and language
+// settings only, never translation or the personal lists
+export const PROFILE_SETTING_KEYS = [
+  "language",
+  "languageHints",
+  "multilingual",
+  "transliterators",
+  "glassesTransliteration",
+  "webviewTransliteration",
+  "displayLines",
+  "displayWidth",
+  "wordBreaking",
+  "layoutMode",
+  "clearTimeoutSeconds",
+  "finalHoldSeconds",
+  "fadeAfterSilence",
+] as const satisfies readonly (keyof CaptionSettings)[]
+
+export type ProfileSettings = Pick<CaptionSettings, (typeof PROFILE_SETTING_KEYS)[number]>
+
+export interface SettingsProfile {
+  id: string
+  name: string
+  /** Built-in presets can't be edited or deleted */
+  builtIn: boolean
+  settings: Partial<ProfileSettings>
+}
+
+export function useProfiles() {
+  const [profiles, setProfiles] = useState<SettingsProfile[]>([])
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const response = await fetch("/api/settings/profiles")
+      if (!response.ok) return
+      const data = await response.json()
+      setProfiles(data.profiles || [])
+    } catch (err) {
+      console.error("[useProfiles] Failed to fetch profiles:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchProfiles()
+  }, [fetchProfiles])
+
+  /**
+   * Save the current settings as a new profile. Resolves to the profile, or null on failure.
+   */
+  const createProfile = useCallback(async (name: string): Promise<SettingsProfile | null> => {
+    try {
+      const response = await fetch("/api/settings/profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      })
+
+      if (!response.ok) {
+        console.error("[useProfiles] Create failed:", response.status)
+        return null
+      }
+
+      const data = await response.json()
+      setProfiles((prev) => [...prev, data.profile])
+      return data.profile
+    } catch (err) {
+      console.error("[useProfiles] Create failed:", err)
+      return null
+    }
+  }, [])
+
+  const deleteProfile = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/settings/profiles/${encodeURIComponent(id)}`, { method: "DELETE" })
+
+      if (!response.ok) {
+        console.error("[useProfiles] Delete failed:", response.status)
+        return false
+      }
+
+      setProfiles((prev) => prev.filter((profile) => profile.id !== id))
+      return true
+    } catch (err) {
+      console.error("[useProfiles] Delete failed:", err)
+      return false
+    }
+  }, [])
+
+  /**
+   * Switch to a profile in one request. The new settings are handed to
+   * useSettings through the same window event as SSE settings updates.
+   */
+  const applyProfile = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/settings/profiles/${encodeURIComponent(id)}/apply`, { method: "POST" })
+
+      if (!response.ok) {
+        console.error("[useProfiles] Apply failed:", response.status)
+        return false
+      }
+
+      const data = await response.json()
+      window.dispatchEvent(new CustomEvent("settings_update", { detail: data.settings }))
+      return true
+    } catch (err) {
+      console.error("[useProfiles] Apply failed:", err)
+      return false
+    }
+  }, [])
+
+  return { profiles, fetchProfiles, createProfile, deleteProfile, applyProfile }
+}
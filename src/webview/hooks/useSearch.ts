@@ -0,0 +1,93 @@
+import { useState, useEffect, useRef } from "react"
+
+import { ArchivedTranscript } from "./useHistory"
+
+const SEARCH_DEBOUNCE_MS = 300
+
+export interface SearchFilters {
+  speaker: string
+  /** yyyy-mm-dd */
+  from: string
+  /** yyyy-mm-dd */
+  to: string
+  language: string
+}
+
+export interface SearchResult {
+  source: "live" | "archive"
+  sessionId: string | null
+  language: string
+  transcript: Pick<ArchivedTranscript, "id" | "speaker" | "text" | "startedAt" | "receivedAt">
+  matches: { start: number; end: number }[]
+}
+
+export const EMPTY_FILTERS: SearchFilters = { speaker: "", from: "", to: "", language: "" }
+
+/**
+ * Epoch ms for the start of a yyyy-mm-dd day in the browser's time zone, or
+ * the last ms of that day with endOfDay. The server would read a bare date as UTC.
+ */
+function localDayToEpoch(date: string, endOfDay = false): number {
+  const [year, month, day] = date.split("-").map(Number)
+  return endOfDay ? new Date(year, month - 1, day + 1).getTime() - 1 : new Date(year, month - 1, day).getTime()
+}
+
+export function useSearch(query: string, filters: SearchFilters) {
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [terms, setTerms] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (!trimmed) {
+      setResults([])
+      setTerms([])
+      setLoading(false)
+      setError(null)
+      return
+    }
+
+    const requestId = ++requestRef.current
+    setLoading(true)
+
+    const timeout = setTimeout(async () => {
+      const params = new URLSearchParams({ q: trimmed })
+      if (filters.speaker.trim()) params.set("speaker", filters.speaker.trim())
+      if (filters.from) params.set("from", `${localDayToEpoch(filters.from)}`)
+      if (filters.to) params.set("to", `${localDayToEpoch(filters.to, true)}`)
+      if (filters.language) params.set("language", filters.language)
+
+      try {
+        const response = await fetch(`/api/transcripts/search?${params.toString()}`)
+        if (requestId !== requestRef.current) return
+
+        if (!response.ok) {
+          setError(`Search failed: ${response.status}`)
+          setResults([])
+          setLoading(false)
+          return
+        }
+
+        const data = await response.json()
+        if (requestId !== requestRef.current) return
+
+        setResults(data.results || [])
+        setTerms(data.terms || [])
+        setError(null)
+        setLoading(false)
+      } catch (err) {
+        console.error("[useSearch] Search failed:", err)
+        if (requestId === requestRef.current) {
+          setError("Search failed")
+          setLoading(false)
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => clearTimeout(timeout)
+  }, [query, filters])
+
+  return { results, terms, loading, error }
+}
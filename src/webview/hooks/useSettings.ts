@@ -1,13 +1,79 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 
+export type LayoutMode = "rolling" | "utterance" | "paged" | "split";
+
+export type MaskStyle = "asterisks" | "firstLetter";
+
+export type TransliterationMode = "original" | "transliterated" | "both";
+
 export interface CaptionSettings {
   language: string;
   languageHints: string[];
   displayLines: number;
   displayWidth: number;
   wordBreaking: boolean;
+  layoutMode: LayoutMode;
+  // Glasses profile to format captions for ("auto" = from the connected glasses)
+  displayProfile: string;
+  // Profiles the server knows, and the one captions are formatted with now
+  displayProfiles: { id: string; name: string }[];
+  activeDisplayProfile: string;
+  clearTimeoutSeconds: number;
+  finalHoldSeconds: number;
+  fadeAfterSilence: boolean;
+  // Language code captions are translated into ("" = off)
+  translationLanguage: string;
+  // Whether the server has a translation provider configured
+  translationAvailable: boolean;
+  // Whether the server has a sound event detector configured
+  soundEventsAvailable: boolean;
+  // Locale the server is transcribing with right now (null when not subscribed)
+  activeLocale: string | null;
+  // Transliteration scheme per language (e.g. "zh-pinyin"), and what the
+  // glasses and the caption list show when one applies
+  transliterators: string[];
+  glassesTransliteration: TransliterationMode;
+  webviewTransliteration: TransliterationMode;
+  // Schemes the server knows
+  transliterationOptions: { id: string; language: string; name: string }[];
+  // Conversation mode: every declared language, shown in the primary one
+  multilingual: boolean;
+  // Mask profanity in captions, transcripts and exports
+  profanityFilter: boolean;
+  profanityMaskStyle: MaskStyle;
+  // Words never masked / always masked, in addition to the built-in lists
+  profanityAllowList: string[];
+  profanityDenyList: string[];
+  // Words to highlight and alert on when they're said
+  alertKeywords: string[];
+  // Show an alert card on the glasses for keywords
+  keywordNotifications: boolean;
+  // Banner on the glasses when someone says one of the wearer's names
+  nameAlert: boolean;
+  wearerNames: string[];
+  // Non-speech sounds to caption
+  soundEventCategories: string[];
+  // Profile whose settings match the current ones, if any
+  activeProfileId: string | null;
+  // Bumped by the server on every change
+  version: number;
 }
 
+// Settings the webview can change (the rest are reported by the server)
+export type SettingsPatch = Partial<
+  Omit<
+    CaptionSettings,
+    | "translationAvailable"
+    | "soundEventsAvailable"
+    | "displayProfiles"
+    | "activeDisplayProfile"
+    | "transliterationOptions"
+    | "activeLocale"
+    | "activeProfileId"
+    | "version"
+  >
+>;
+
 export function useSettings() {
   const [settings, setSettings] = useState<CaptionSettings | null>(null);
   const [loading, setLoading] = useState(true);
@@ -108,154 +174,120 @@ export function useSettings() {
     };
   }, []);
 
-  const updateLanguage = useCallback(
-    async (language: string): Promise<boolean> => {
+  // Version of the settings this webview last saw, sent with every update
+  const versionRef = useRef<number | undefined>(undefined);
+  useEffect(() => {
+    versionRef.current = settings?.version;
+  }, [settings]);
+
+  /**
+   * Change any subset of settings in one request. Resolves to false if the
+   * server rejected the values, or if another webview changed the settings
+   * first (the local copy is then replaced with the server's).
+   */
+  const updateSettings = useCallback(
+    async (patch: SettingsPatch): Promise<boolean> => {
       try {
-        const response = await fetch("/api/settings/language", {
-          method: "POST",
+        const response = await fetch("/api/settings", {
+          method: "PATCH",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ language }),
+          body: JSON.stringify({ ...patch, version: versionRef.current }),
         });
 
-        if (response.ok) {
-          // Optimistically update local state
-          // The SSE broadcast will confirm the update
-          setSettings((prev) => (prev ? { ...prev, language } : null));
-          return true;
+        if (response.ok || response.status === 409) {
+          const data = await response.json();
+          if (data.settings) {
+            versionRef.current = data.settings.version;
+            setSettings(data.settings);
+          }
+          if (response.ok) return true;
         }
 
         console.error(
-          "[useSettings] Failed to update language:",
+          "[useSettings] Failed to update settings:",
+          Object.keys(patch).join(", "),
           response.status,
         );
         return false;
       } catch (err) {
-        console.error("[useSettings] Failed to update language:", err);
+        console.error("[useSettings] Failed to update settings:", err);
         return false;
       }
     },
     [],
   );
 
-  const updateHints = useCallback(async (hints: string[]): Promise<boolean> => {
-    try {
-      const response = await fetch("/api/settings/language-hints", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ hints }),
-      });
-
-      if (response.ok) {
-        setSettings((prev) =>
-          prev ? { ...prev, languageHints: hints } : null,
-        );
-        return true;
-      }
+  const updateLanguage = useCallback(
+    (language: string) => updateSettings({ language }),
+    [updateSettings],
+  );
 
-      console.error("[useSettings] Failed to update hints:", response.status);
-      return false;
-    } catch (err) {
-      console.error("[useSettings] Failed to update hints:", err);
-      return false;
-    }
-  }, []);
+  const updateHints = useCallback(
+    (languageHints: string[]) => updateSettings({ languageHints }),
+    [updateSettings],
+  );
 
   const updateDisplayLines = useCallback(
-    async (lines: number): Promise<boolean> => {
-      try {
-        const response = await fetch("/api/settings/display-lines", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ lines }),
-        });
+    (displayLines: number) => updateSettings({ displayLines }),
+    [updateSettings],
+  );
 
-        if (response.ok) {
-          setSettings((prev) =>
-            prev ? { ...prev, displayLines: lines } : null,
-          );
-          return true;
-        }
+  const updateDisplayWidth = useCallback(
+    (displayWidth: number) => updateSettings({ displayWidth }),
+    [updateSettings],
+  );
 
-        console.error(
-          "[useSettings] Failed to update display lines:",
-          response.status,
-        );
-        return false;
-      } catch (err) {
-        console.error("[useSettings] Failed to update display lines:", err);
-        return false;
-      }
-    },
-    [],
+  const updateWordBreaking = useCallback(
+    (wordBreaking: boolean) => updateSettings({ wordBreaking }),
+    [updateSettings],
   );
 
-  const updateDisplayWidth = useCallback(
-    async (width: number): Promise<boolean> => {
-      try {
-        const response = await fetch("/api/settings/display-width", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ width }),
-        });
+  const updateLayoutMode = useCallback(
+    (layoutMode: LayoutMode) => updateSettings({ layoutMode }),
+    [updateSettings],
+  );
 
-        if (response.ok) {
-          setSettings((prev) =>
-            prev ? { ...prev, displayWidth: width } : null,
-          );
-          return true;
-        }
+  const updateClearTimeout = useCallback(
+    (clearTimeoutSeconds: number) => updateSettings({ clearTimeoutSeconds }),
+    [updateSettings],
+  );
 
-        console.error(
-          "[useSettings] Failed to update display width:",
-          response.status,
-        );
-        return false;
-      } catch (err) {
-        console.error("[useSettings] Failed to update display width:", err);
-        return false;
-      }
-    },
-    [],
+  const updateFinalHold = useCallback(
+    (finalHoldSeconds: number) => updateSettings({ finalHoldSeconds }),
+    [updateSettings],
   );
 
-  const updateWordBreaking = useCallback(
-    async (enabled: boolean): Promise<boolean> => {
-      try {
-        const response = await fetch("/api/settings/word-breaking", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ enabled }),
-        });
+  const updateFadeAfterSilence = useCallback(
+    (fadeAfterSilence: boolean) => updateSettings({ fadeAfterSilence }),
+    [updateSettings],
+  );
 
-        if (response.ok) {
-          setSettings((prev) =>
-            prev ? { ...prev, wordBreaking: enabled } : null,
-          );
-          return true;
-        }
+  const updateTranslationLanguage = useCallback(
+    (translationLanguage: string) => updateSettings({ translationLanguage }),
+    [updateSettings],
+  );
 
-        console.error(
-          "[useSettings] Failed to update word breaking:",
-          response.status,
-        );
-        return false;
-      } catch (err) {
-        console.error("[useSettings] Failed to update word breaking:", err);
-        return false;
-      }
-    },
-    [],
+  const updateMultilingual = useCallback(
+    (multilingual: boolean) => updateSettings({ multilingual }),
+    [updateSettings],
   );
 
   return {
     settings,
     loading,
     error,
+    updateSettings,
     updateLanguage,
     updateHints,
     updateDisplayLines,
     updateDisplayWidth,
     updateWordBreaking,
+    updateLayoutMode,
+    updateClearTimeout,
+    updateFinalHold,
+    updateFadeAfterSilence,
+    updateTranslationLanguage,
+    updateMultilingual,
     refetch: fetchSettings,
   };
 }
@@ -0,0 +1,57 @@
+import { useState, useCallback } from "react"
+
+export interface RenameOptions {
+  /** Archived conversation to rename in; omit for the live session */
+  sessionId?: string
+  /** Also use this name in future conversations (live session only) */
+  remember?: boolean
+}
+
+export function useSpeakers() {
+  const [profiles, setProfiles] = useState<Record<string, string>>({})
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const response = await fetch("/api/speakers")
+      if (!response.ok) return
+      const data = await response.json()
+      setProfiles(data.profiles || {})
+    } catch (err) {
+      console.error("[useSpeakers] Failed to fetch speakers:", err)
+    }
+  }, [])
+
+  /**
+   * Rename a speaker. Pass null to go back to "Speaker N".
+   * Resolves to the new label, or null on failure.
+   */
+  const renameSpeaker = useCallback(
+    async (speakerId: string, name: string | null, options: RenameOptions = {}): Promise<string | null> => {
+      const url = options.sessionId
+        ? `/api/sessions/${encodeURIComponent(options.sessionId)}/speakers`
+        : "/api/speakers"
+
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ speakerId, name, remember: options.remember ?? false }),
+        })
+
+        if (!response.ok) {
+          console.error("[useSpeakers] Rename failed:", response.status)
+          return null
+        }
+
+        const data = await response.json()
+        return data.speaker
+      } catch (err) {
+        console.error("[useSpeakers] Rename failed:", err)
+        return null
+      }
+    },
+    [],
+  )
+
+  return { profiles, fetchProfiles, renameSpeaker }
+}
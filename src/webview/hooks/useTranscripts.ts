@@ -3,8 +3,21 @@ import { useState, useEffect, useRef, useCallback } from "react"
 export interface Transcript {
   id: string
   utteranceId: string | null
+  speakerId: string | null
   speaker: string
   text: string
+  // Translation into the translation target language, when translation is on
+  translatedText?: string | null
+  // Text in the transliteration chosen for its language (e.g. Pinyin), if any
+  transliteration?: string | null
+  // Language detected for the utterance in auto mode (e.g. "es")
+  detectedLanguage?: string | null
+  // Alert keywords said in the text
+  keywords?: string[]
+  // Someone said the wearer's name (name alert mode)
+  nameCalled?: boolean
+  // Category of a non-speech sound entry (text is the tag, e.g. "[door knock]")
+  soundEvent?: string | null
   timestamp: string | null
   isFinal: boolean
 }
@@ -13,9 +26,14 @@ export interface DisplayPreview {
   text: string
   lines: string[]
   isFinal: boolean
+  // Split layout: index of the first bottom-half line
+  splitAt: number | null
   timestamp: number
 }
 
+// Transcripts without diarization belong to speaker "1" (matches the server)
+export const DEFAULT_SPEAKER_ID = "1"
+
 // Reconnection configuration
 const INITIAL_RETRY_DELAY_MS = 1000
 const MAX_RETRY_DELAY_MS = 30000
@@ -200,17 +218,36 @@ export function useTranscripts() {
             return
           }
 
+          // Handle speaker rename - relabel that speaker's transcripts
+          if (data.type === "speakers_update") {
+            setTranscripts((prev) =>
+              prev.map((t) =>
+                (t.speakerId ?? DEFAULT_SPEAKER_ID) === data.speakerId ? { ...t, speaker: data.speaker } : t
+              )
+            )
+            return
+          }
+
           // Handle display preview update
           if (data.type === "display_preview") {
             setDisplayPreview({
               text: data.text,
               lines: data.lines,
               isFinal: data.isFinal,
+              splitAt: data.splitAt ?? null,
               timestamp: data.timestamp,
             })
             return
           }
 
+          // Translation finished for a transcript already in the list
+          if (data.type === "translation") {
+            setTranscripts((prev) =>
+              prev.map((t) => (t.id === data.id ? {...t, translatedText: data.translatedText} : t))
+            )
+            return
+          }
+
           // Use utteranceId for correlation if available
           if (data.utteranceId) {
             setTranscripts((prev) => {
@@ -221,8 +258,16 @@ export function useTranscripts() {
               const newTranscript: Transcript = {
                 id: data.id,
                 utteranceId: data.utteranceId,
+                speakerId: data.speakerId ?? null,
                 speaker: data.speaker,
                 text: data.text,
+                // Keep the previous translation until the new one arrives
+                translatedText: data.translatedText ?? (existingIndex >= 0 ? prev[existingIndex].translatedText : null),
+                transliteration: data.transliteration ?? null,
+                detectedLanguage: data.detectedLanguage ?? null,
+                keywords: data.keywords ?? [],
+                nameCalled: data.nameCalled ?? false,
+                soundEvent: data.soundEvent ?? null,
                 timestamp: data.timestamp,
                 isFinal: data.type === "final",
               }
@@ -251,8 +296,14 @@ export function useTranscripts() {
                   {
                     id: data.id,
                     utteranceId: null,
+                    speakerId: data.speakerId ?? null,
                     speaker: data.speaker,
                     text: data.text,
+                    transliteration: data.transliteration ?? null,
+                    detectedLanguage: data.detectedLanguage ?? null,
+                    keywords: data.keywords ?? [],
+                    nameCalled: data.nameCalled ?? false,
+                    soundEvent: data.soundEvent ?? null,
                     timestamp: null,
                     isFinal: false,
                   },
@@ -276,8 +327,14 @@ export function useTranscripts() {
                   {
                     id: data.id,
                     utteranceId: null,
+                    speakerId: data.speakerId ?? null,
                     speaker: data.speaker,
                     text: data.text,
+                    transliteration: data.transliteration ?? null,
+                    detectedLanguage: data.detectedLanguage ?? null,
+                    keywords: data.keywords ?? [],
+                    nameCalled: data.nameCalled ?? false,
+                    soundEvent: data.soundEvent ?? null,
                     timestamp: data.timestamp,
                     isFinal: true,
                   },
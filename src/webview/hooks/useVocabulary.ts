@@ -0,0 +1,80 @@
+import { useState, useCallback, useEffect } from "react"
+
+export interface ReplacementRule {
+  id: string
+  find: string
+  replace: string
+  /** Treat find as a regular expression; replace may use $1, $2, ... */
+  regex: boolean
+  matchCase: boolean
+  /** Only match whole words (plain rules only) */
+  wholeWord: boolean
+}
+
+export type ReplacementRuleInput = Omit<ReplacementRule, "id">
+
+export function useVocabulary() {
+  const [rules, setRules] = useState<ReplacementRule[]>([])
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/settings/vocabulary")
+      if (!response.ok) return
+      const data = await response.json()
+      setRules(data.rules || [])
+    } catch (err) {
+      console.error("[useVocabulary] Failed to fetch rules:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRules()
+
+    // Fired after a settings import, which may add rules
+    window.addEventListener("vocabulary_update", fetchRules)
+    return () => window.removeEventListener("vocabulary_update", fetchRules)
+  }, [fetchRules])
+
+  /**
+   * Add a rule. Resolves to an error message from the server, or null on success.
+   */
+  const addRule = useCallback(async (input: ReplacementRuleInput): Promise<string | null> => {
+    try {
+      const response = await fetch("/api/settings/vocabulary", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        return data.error || `Saving failed: ${response.status}`
+      }
+
+      setRules((prev) => [...prev, data.rule])
+      return null
+    } catch (err) {
+      console.error("[useVocabulary] Add failed:", err)
+      return "Saving failed"
+    }
+  }, [])
+
+  const deleteRule = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/settings/vocabulary/${encodeURIComponent(id)}`, { method: "DELETE" })
+
+      if (!response.ok) {
+        console.error("[useVocabulary] Delete failed:", response.status)
+        return false
+      }
+
+      setRules((prev) => prev.filter((rule) => rule.id !== id))
+      return true
+    } catch (err) {
+      console.error("[useVocabulary] Delete failed:", err)
+      return false
+    }
+  }, [])
+
+  return { rules, fetchRules, addRule, deleteRule }
+}
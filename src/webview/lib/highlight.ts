@@ -0,0 +1,40 @@
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Split text into plain and highlighted segments for the given search terms
+ * (lowercase, as returned by /api/transcripts/search).
+ */
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  const haystack = text.toLocaleLowerCase()
+  const ranges: { start: number; end: number }[] = []
+
+  for (const term of terms) {
+    if (!term) continue
+    let from = 0
+    let index: number
+    while ((index = haystack.indexOf(term, from)) >= 0) {
+      ranges.push({ start: index, end: index + term.length })
+      from = index + term.length
+    }
+  }
+
+  if (ranges.length === 0) return [{ text, match: false }]
+
+  ranges.sort((a, b) => a.start - b.start)
+
+  const segments: HighlightSegment[] = []
+  let cursor = 0
+  for (const range of ranges) {
+    if (range.end <= cursor) continue
+    const start = Math.max(range.start, cursor)
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false })
+    segments.push({ text: text.slice(start, range.end), match: true })
+    cursor = range.end
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false })
+
+  return segments
+}
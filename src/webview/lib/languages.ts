@@ -3,12 +3,14 @@ export interface Language {
   name: string
   nativeName?: string
   flag: string
+  // Written right to left
+  rtl?: boolean
 }
 
 export const AVAILABLE_LANGUAGES: Language[] = [
   { code: "af", name: "Afrikaans", nativeName: "Afrikaans", flag: "🇿🇦" },
   { code: "sq", name: "Albanian", nativeName: "Shqip", flag: "🇦🇱" },
-  { code: "ar", name: "Arabic", nativeName: "العربية", flag: "🇸🇦" },
+  { code: "ar", name: "Arabic", nativeName: "العربية", flag: "🇸🇦", rtl: true },
   { code: "az", name: "Azerbaijani", nativeName: "Azərbaycan", flag: "🇦🇿" },
   { code: "eu", name: "Basque", nativeName: "Euskara", flag: "🇪🇸" },
   { code: "be", name: "Belarusian", nativeName: "Беларуская", flag: "🇧🇾" },
@@ -29,7 +31,7 @@ export const AVAILABLE_LANGUAGES: Language[] = [
   { code: "de", name: "German", nativeName: "Deutsch", flag: "🇩🇪" },
   { code: "el", name: "Greek", nativeName: "Ελληνικά", flag: "🇬🇷" },
   { code: "gu", name: "Gujarati", nativeName: "ગુજરાતી", flag: "🇮🇳" },
-  { code: "he", name: "Hebrew", nativeName: "עברית", flag: "🇮🇱" },
+  { code: "he", name: "Hebrew", nativeName: "עברית", flag: "🇮🇱", rtl: true },
   { code: "hi", name: "Hindi", nativeName: "हिन्दी", flag: "🇮🇳" },
   { code: "hu", name: "Hungarian", nativeName: "Magyar", flag: "🇭🇺" },
   { code: "id", name: "Indonesian", nativeName: "Bahasa Indonesia", flag: "🇮🇩" },
@@ -45,7 +47,7 @@ export const AVAILABLE_LANGUAGES: Language[] = [
   { code: "ml", name: "Malayalam", nativeName: "മലയാളം", flag: "🇮🇳" },
   { code: "mr", name: "Marathi", nativeName: "मराठी", flag: "🇮🇳" },
   { code: "no", name: "Norwegian", nativeName: "Norsk", flag: "🇳🇴" },
-  { code: "fa", name: "Persian", nativeName: "فارسی", flag: "🇮🇷" },
+  { code: "fa", name: "Persian", nativeName: "فارسی", flag: "🇮🇷", rtl: true },
   { code: "pl", name: "Polish", nativeName: "Polski", flag: "🇵🇱" },
   { code: "pt", name: "Portuguese", nativeName: "Português", flag: "🇵🇹" },
   { code: "pa", name: "Punjabi", nativeName: "ਪੰਜਾਬੀ", flag: "🇮🇳" },
@@ -63,7 +65,7 @@ export const AVAILABLE_LANGUAGES: Language[] = [
   { code: "th", name: "Thai", nativeName: "ไทย", flag: "🇹🇭" },
   { code: "tr", name: "Turkish", nativeName: "Türkçe", flag: "🇹🇷" },
   { code: "uk", name: "Ukrainian", nativeName: "Українська", flag: "🇺🇦" },
-  { code: "ur", name: "Urdu", nativeName: "اردو", flag: "🇵🇰" },
+  { code: "ur", name: "Urdu", nativeName: "اردو", flag: "🇵🇰", rtl: true },
   { code: "vi", name: "Vietnamese", nativeName: "Tiếng Việt", flag: "🇻🇳" },
   { code: "cy", name: "Welsh", nativeName: "Cymraeg", flag: "🏴󠁧󠁢󠁷󠁬󠁳󠁿" },
 ]
@@ -84,6 +86,10 @@ export function getAvailableHints(primaryLanguage: string): Language[] {
   return AVAILABLE_LANGUAGES.filter((l) => l.code !== primaryLanguage)
 }
 
+export function isRtlLanguage(code: string): boolean {
+  return AVAILABLE_LANGUAGES.find((l) => l.code === code.split("-")[0])?.rtl === true
+}
+
 export function getFlagEmoji(code: string): string {
   return AVAILABLE_LANGUAGES.find((l) => l.code === code)?.flag || "🏳️"
 }